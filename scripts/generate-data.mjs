@@ -2,12 +2,26 @@
 /**
  * Synthetic Healthcare Payer Data Generator
  * Generates ~10K members and ~100K claims with HCC/RAF attributes.
+ * IP/OP claims carry diagnosis codes; each member HCC is supported by at least
+ * one claim diagnosis that maps to it through the server's dx→HCC crosswalk.
+ * Eligibility spans cover 2024-01..2025-12: most members are continuously enrolled;
+ * some enroll mid-window, terminate early, or switch plans at open enrollment.
+ * Claims fall only inside the member's enrolled months.
+ * RX claims carry a synthetic NDC and therapeutic drug_class; most fills come from classes
+ * that treat one of the member's conditions (occasionally an uncoded one), the rest are background.
+ * IP/OP claims carry procedure_codes: a routine visit/lab or inpatient code, plus on many encounters a
+ * condition-monitoring procedure (renal panel, echocardiogram, spirometry, ...) for one of the same conditions.
+ * IP/OP claims carry a rendering provider_id from providers.json; most OP visits go to the
+ * member's usual primary care provider, so PCP attribution can be derived from visit patterns.
  * No PHI, no real identifiers. Deterministic seeding.
  */
 
 import { writeFileSync, mkdirSync } from 'fs';
 import { dirname, join } from 'path';
 import { fileURLToPath } from 'url';
+import { getDiagnosisCodesForHCC } from '../server/crosswalk.js';
+import { getDrugClassesForHCC, getNonConditionDrugClasses, getDrugsForClass } from '../server/drug-classes.js';
+import { getProcedureGroupsForHCC, getCodesForGroup } from '../server/procedure-codes.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const DATA_DIR = join(__dirname, '..', 'data');
@@ -23,12 +37,52 @@ const CLAIM_TYPES = ['IP', 'OP', 'RX'];
 // Simplified HCC codes for demo (not real CMS)
 const HCC_CODES = ['HCC_18', 'HCC_85', 'HCC_96', 'HCC_108', 'HCC_19'];
 const PLAN_WEIGHTS = [0.4, 0.35, 0.25];
+const WINDOW_MONTHS = 24; // 2024-01 .. 2025-12
+
+// Common diagnoses that do not map to any HCC
+const NON_HCC_DX = ['Z00.00', 'J06.9', 'M54.5', 'R51.9', 'K21.9', 'E78.5', 'F41.1', 'Z23'];
+const HCC_DX = Object.fromEntries(HCC_CODES.map((code) => [code, getDiagnosisCodesForHCC(code)]));
+
+// Per-state provider roster: primary care practices, specialists and inpatient facilities
+const ROSTER_MIX = [
+  { specialty: 'Family Medicine', role: 'pcp', count: 6 },
+  { specialty: 'Internal Medicine', role: 'pcp', count: 4 },
+  { specialty: 'Cardiology', role: 'specialist', count: 1 },
+  { specialty: 'Pulmonology', role: 'specialist', count: 1 },
+  { specialty: 'Nephrology', role: 'specialist', count: 1 },
+  { specialty: 'Endocrinology', role: 'specialist', count: 1 },
+  { specialty: 'Acute Care Hospital', role: 'facility', count: 2 },
+];
 
 function seededRandom(seed) {
   const x = Math.sin(seed) * 10000;
   return x - Math.floor(x);
 }
 
+function monthLabel(offset) {
+  const y = 2024 + Math.floor(offset / 12);
+  return `${y}-${String((offset % 12) + 1).padStart(2, '0')}`;
+}
+
+// Days from service to payment: pharmacy adjudicates at the counter, facility claims run out over months
+const PAYMENT_LAG = { RX: { min: 0, mean: 2 }, OP: { min: 7, mean: 25 }, IP: { min: 14, mean: 45 } };
+
+function addDays(date, days) {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+}
+
+function paidDate(serviceDate, claimType, seed) {
+  const { min, mean } = PAYMENT_LAG[claimType];
+  return addDays(serviceDate, min + Math.min(Math.floor(-Math.log(1 - seededRandom(seed)) * mean), mean * 8));
+}
+
+// Inpatient stays: 1 to 30 days, mean about 4
+function lengthOfStay(seed) {
+  return 1 + Math.min(Math.floor(-Math.log(1 - seededRandom(seed)) * 3.5), 29);
+}
+
 function pickWeighted(seed, weights) {
   const r = seededRandom(seed);
   let cum = 0;
@@ -39,8 +93,35 @@ function pickWeighted(seed, weights) {
   return weights.length - 1;
 }
 
-console.log('Generating synthetic members with HCC codes...');
+console.log('Generating provider roster...');
+const providers = [];
+const providersByState = {};
+US_STATES.forEach((state) => {
+  providersByState[state] = { pcp: [], specialist: [], facility: [] };
+  ROSTER_MIX.forEach(({ specialty, role, count }) => {
+    for (let k = 0; k < count; k++) {
+      const provider = {
+        provider_id: `PRV${String(providers.length + 1).padStart(5, '0')}`,
+        name: `${state} ${specialty} ${role === 'facility' ? 'Center' : 'Group'} ${k + 1}`,
+        specialty,
+        is_pcp: role === 'pcp',
+        state,
+      };
+      providers.push(provider);
+      providersByState[state][role].push(provider.provider_id);
+    }
+  });
+});
+
+console.log('Generating synthetic members with HCC codes and eligibility spans...');
 const members = [];
+const eligibility = [];
+const enrolledWindow = {};
+// Conditions driving a member's RX fills and monitoring procedures: coded HCCs plus, for some, one not (yet) coded
+const careConditions = {};
+// Member's usual primary care provider (not written out; attribution is derived from claims)
+const usualPcp = {};
+const BACKGROUND_DRUG_CLASSES = getNonConditionDrugClasses();
 for (let i = 1; i <= 10_000; i++) {
   const seed = i * 7919;
   const planIdx = pickWeighted(seed, PLAN_WEIGHTS);
@@ -58,45 +139,155 @@ for (let i = 1; i <= 10_000; i++) {
   if (chronic_condition_flag && seededRandom(seed + 13) < 0.15) hcc_codes.push('HCC_96'); // COPD
   if (risk_score > 0.75 && seededRandom(seed + 14) < 0.1) hcc_codes.push('HCC_108'); // CKD
 
+  const member_id = `M${String(i).padStart(6, '0')}`;
+  const state = US_STATES[stateIdx];
+  // Enrollment: 75% continuous, 10% mid-window enrollee, 8% early termination, 7% plan switch
+  const pattern = seededRandom(seed + 20);
+  let startOffset = 0;
+  let endOffset = WINDOW_MONTHS - 1;
+  let plan_type = PLAN_TYPES[planIdx];
+  if (pattern >= 0.75 && pattern < 0.85) {
+    startOffset = 1 + Math.floor(seededRandom(seed + 21) * 20);
+  } else if (pattern >= 0.85 && pattern < 0.93) {
+    endOffset = 2 + Math.floor(seededRandom(seed + 22) * 20);
+  }
+  if (pattern >= 0.93) {
+    // Switch metal tier at 2025 open enrollment
+    const newPlan = PLAN_TYPES[(planIdx + 1 + Math.floor(seededRandom(seed + 23) * 2)) % PLAN_TYPES.length];
+    eligibility.push({ member_id, plan_type, state, start_month: monthLabel(0), end_month: monthLabel(11) });
+    eligibility.push({ member_id, plan_type: newPlan, state, start_month: monthLabel(12), end_month: monthLabel(endOffset) });
+    plan_type = newPlan;
+  } else {
+    eligibility.push({ member_id, plan_type, state, start_month: monthLabel(startOffset), end_month: monthLabel(endOffset) });
+  }
+  enrolledWindow[member_id] = { startOffset, endOffset };
+  const statePcps = providersByState[state].pcp;
+  usualPcp[member_id] = statePcps[Math.floor(seededRandom(seed + 27) * statePcps.length)];
+  careConditions[member_id] = [...hcc_codes];
+  if (risk_score > 0.55 && seededRandom(seed + 25) < 0.12) {
+    const hidden = HCC_CODES[Math.floor(seededRandom(seed + 26) * HCC_CODES.length)];
+    if (!hcc_codes.includes(hidden)) careConditions[member_id].push(hidden);
+  }
+
   members.push({
-    member_id: `M${String(i).padStart(6, '0')}`,
+    member_id,
     age,
     gender: seededRandom(seed + 5) < 0.5 ? 'F' : 'M',
-    state: US_STATES[stateIdx],
-    plan_type: PLAN_TYPES[planIdx],
+    state,
+    rating_area: String(1 + Math.floor(seededRandom(seed + 24) * 3)),
+    plan_type,
     risk_score,
     chronic_condition_flag,
     hcc_codes,
-    member_months: 12,
+    member_months: endOffset - startOffset + 1,
   });
 }
 
 console.log('Generating synthetic claims (~100K)...');
 const claims = [];
 let claimId = 1;
-const startDate = new Date('2024-01-01');
 for (let m = 0; m < members.length; m++) {
   const member = members[m];
   const numClaims = Math.floor(3 + seededRandom(m * 7) * 18);
+  const memberClaims = [];
   for (let c = 0; c < numClaims; c++) {
     const cSeed = (m * 10000 + c) * 31;
     const claimTypeIdx = pickWeighted(cSeed, [0.1, 0.4, 0.5]);
     const claim_type = CLAIM_TYPES[claimTypeIdx];
-    const daysFromStart = Math.floor(seededRandom(cSeed + 1) * 730);
-    const service_date = new Date(startDate);
-    service_date.setDate(service_date.getDate() + daysFromStart);
+    const { startOffset, endOffset } = enrolledWindow[member.member_id];
+    const service_date = new Date(Date.UTC(2024, startOffset, 1));
+    const enrolledDays = Math.round((Date.UTC(2024, endOffset + 1, 1) - service_date) / 86400000);
+    service_date.setUTCDate(service_date.getUTCDate() + Math.floor(seededRandom(cSeed + 1) * enrolledDays));
     let baseCost = claim_type === 'IP' ? 8000 : claim_type === 'OP' ? 350 : 85;
     baseCost *= (0.7 + seededRandom(cSeed + 2));
     baseCost *= (0.9 + member.risk_score * 0.3);
     const allowed_amount = Math.round(baseCost * 100) / 100;
-    claims.push({
+    const diagnosis_codes = [];
+    let drug = null;
+    if (claim_type === 'RX') {
+      const conditions = careConditions[member.member_id];
+      let drugClass;
+      if (conditions.length > 0 && seededRandom(cSeed + 7) < 0.6) {
+        const classes = getDrugClassesForHCC(conditions[Math.floor(seededRandom(cSeed + 8) * conditions.length)]);
+        drugClass = classes[Math.floor(seededRandom(cSeed + 9) * classes.length)];
+      } else {
+        drugClass = BACKGROUND_DRUG_CLASSES[Math.floor(seededRandom(cSeed + 8) * BACKGROUND_DRUG_CLASSES.length)];
+      }
+      const drugs = getDrugsForClass(drugClass);
+      drug = { ndc: drugs[Math.floor(seededRandom(cSeed + 10) * drugs.length)].ndc, drug_class: drugClass };
+    } else {
+      diagnosis_codes.push(NON_HCC_DX[Math.floor(seededRandom(cSeed + 3) * NON_HCC_DX.length)]);
+      // Chronic conditions show up on roughly half of encounters
+      if (member.hcc_codes.length > 0 && seededRandom(cSeed + 4) < 0.5) {
+        const hcc = member.hcc_codes[Math.floor(seededRandom(cSeed + 5) * member.hcc_codes.length)];
+        const options = HCC_DX[hcc];
+        diagnosis_codes.unshift(options[Math.floor(seededRandom(cSeed + 6) * options.length)]);
+      }
+    }
+    const procedure_codes = [];
+    if (claim_type !== 'RX') {
+      const routine = claim_type === 'IP' ? 'inpatient_care' : seededRandom(cSeed + 13) < 0.6 ? 'office_visit' : 'routine_lab';
+      const routineCodes = getCodesForGroup(routine);
+      procedure_codes.push(routineCodes[Math.floor(seededRandom(cSeed + 14) * routineCodes.length)]);
+      const conditions = careConditions[member.member_id];
+      if (conditions.length > 0 && seededRandom(cSeed + 15) < 0.5) {
+        const groups = getProcedureGroupsForHCC(conditions[Math.floor(seededRandom(cSeed + 16) * conditions.length)]);
+        if (groups.length > 0) {
+          const codes = getCodesForGroup(groups[Math.floor(seededRandom(cSeed + 17) * groups.length)]);
+          procedure_codes.push(codes[Math.floor(seededRandom(cSeed + 18) * codes.length)]);
+        }
+      }
+    }
+    let provider_id;
+    if (claim_type === 'IP') {
+      const facilities = providersByState[member.state].facility;
+      provider_id = facilities[Math.floor(seededRandom(cSeed + 11) * facilities.length)];
+    } else if (claim_type === 'OP') {
+      const r = seededRandom(cSeed + 11);
+      const pool = r < 0.65 ? null : r < 0.8 ? providersByState[member.state].pcp : providersByState[member.state].specialist;
+      provider_id = pool ? pool[Math.floor(seededRandom(cSeed + 12) * pool.length)] : usualPcp[member.member_id];
+    }
+    const serviceDate = service_date.toISOString().split('T')[0];
+    // IP claims are billed at discharge, so payment lags the end of the stay
+    const stay = claim_type === 'IP' ? { admit_date: serviceDate, discharge_date: addDays(serviceDate, lengthOfStay(cSeed + 20)) } : null;
+    memberClaims.push({
       claim_id: `CLM${String(claimId++).padStart(8, '0')}`,
       member_id: member.member_id,
-      service_date: service_date.toISOString().split('T')[0],
+      service_date: serviceDate,
+      ...stay,
+      paid_date: paidDate(stay ? stay.discharge_date : serviceDate, claim_type, cSeed + 19),
       claim_type,
       allowed_amount,
+      diagnosis_codes,
+      procedure_codes,
+      ...(provider_id ? { provider_id } : {}),
+      ...drug,
     });
   }
+  // Guarantee every member HCC has at least one supporting encounter
+  const encounters = memberClaims.filter((c) => c.claim_type !== 'RX');
+  member.hcc_codes.forEach((hcc, k) => {
+    const options = HCC_DX[hcc];
+    if (memberClaims.some((c) => c.diagnosis_codes.some((dx) => options.includes(dx)))) return;
+    if (encounters.length > 0) {
+      encounters[k % encounters.length].diagnosis_codes.unshift(options[0]);
+    } else {
+      const serviceDate = `${monthLabel(enrolledWindow[member.member_id].startOffset)}-15`;
+      memberClaims.push({
+        claim_id: `CLM${String(claimId++).padStart(8, '0')}`,
+        member_id: member.member_id,
+        service_date: serviceDate,
+        paid_date: paidDate(serviceDate, 'OP', (m * 10000 + k) * 37),
+        claim_type: 'OP',
+        allowed_amount: Math.round(350 * (0.9 + member.risk_score * 0.3) * 100) / 100,
+        diagnosis_codes: [options[0]],
+        procedure_codes: [getCodesForGroup('office_visit')[0]],
+        provider_id: usualPcp[member.member_id],
+      });
+      encounters.push(memberClaims[memberClaims.length - 1]);
+    }
+  });
+  claims.push(...memberClaims);
 }
 
 if (claims.length > 100_000) claims.length = 100_000;
@@ -104,4 +295,6 @@ if (claims.length > 100_000) claims.length = 100_000;
 mkdirSync(DATA_DIR, { recursive: true });
 writeFileSync(join(DATA_DIR, 'members.json'), JSON.stringify(members), 'utf-8');
 writeFileSync(join(DATA_DIR, 'claims.json'), JSON.stringify(claims), 'utf-8');
-console.log(`Done. ${members.length} members, ${claims.length} claims written to ${DATA_DIR}/`);
+writeFileSync(join(DATA_DIR, 'eligibility.json'), JSON.stringify(eligibility), 'utf-8');
+writeFileSync(join(DATA_DIR, 'providers.json'), JSON.stringify(providers), 'utf-8');
+console.log(`Done. ${members.length} members, ${claims.length} claims, ${eligibility.length} eligibility spans, ${providers.length} providers written to ${DATA_DIR}/`);
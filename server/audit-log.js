@@ -0,0 +1,238 @@
+/**
+ * Agent Decision Audit Log
+ * Append-only record of orchestrator decisions, so an auditor can see what the system told a coder
+ * or an executive on a given day. One JSON entry per line at the path given to loadAuditLog
+ * (AUDIT_LOG_PATH, default data/audit-log.jsonl). Two scopes:
+ *   member      one member-level decision: a hash of the inputs (member record, the member's claims,
+ *               rated premium, model) and the risk, finance and compliance outputs
+ *   population  one roll-up (dashboard, orchestrator summary, chat answer, worklist sync): the member
+ *               count, a hash of the member ids, model and parameters, and the summary that was shown
+ * Both carry the caller and the model / suspect rule / crosswalk / drug class / calibration /
+ * compliance policy versions. Entries are hash-chained:
+ *   hash = sha256(prev_hash + JSON of the entry without hash)
+ * so editing, deleting or reordering any line breaks verification from that line on. The last
+ * hash is also kept in memory, which catches truncation of the tail while the server runs.
+ *
+ * Queries use an in-memory index (seq, time, scope, caller, member, byte offset) built when the log
+ * is opened and extended on append; only the entries on the requested page are read from disk.
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, readFileSync, appendFileSync, openSync, readSync, closeSync } from 'fs';
+import { resolveModel } from './risk-adjustment.js';
+import { SUSPECT_RULES_VERSION } from './suspect-rules.js';
+import { getSuspectCalibration } from './suspect-calibration.js';
+import { CROSSWALK_VERSION } from './crosswalk.js';
+import { DRUG_CLASS_VERSION } from './drug-classes.js';
+import { getCompliancePolicyVersion } from './compliance-agent.js';
+
+export const AUDIT_SCOPES = ['member', 'population'];
+
+const GENESIS_HASH = '0'.repeat(64);
+
+let logPath = null;
+let head = { seq: 0, hash: GENESIS_HASH };
+// One record per readable line: { seq, at, scope, caller, member_id, offset, length } (bytes)
+let index = [];
+let fileSize = 0;
+
+function sha256(text) {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+function entryHash(entry) {
+  const { hash, ...rest } = entry;
+  return sha256(entry.prev_hash + JSON.stringify(rest));
+}
+
+function readLines() {
+  if (!logPath || !existsSync(logPath)) return [];
+  return readFileSync(logPath, 'utf-8').split('\n').filter((line) => line.trim());
+}
+
+function indexRecord(entry, offset, length) {
+  return { seq: entry.seq, at: entry.at, scope: entry.scope ?? 'member', caller: entry.caller, member_id: entry.member_id ?? null, offset, length };
+}
+
+/** Indexes every readable line of the file; returns the lines. */
+function buildIndex() {
+  index = [];
+  fileSize = 0;
+  if (!logPath || !existsSync(logPath)) return [];
+  const text = readFileSync(logPath, 'utf-8');
+  fileSize = Buffer.byteLength(text);
+  const lines = [];
+  let offset = 0;
+  text.split('\n').forEach((line) => {
+    const length = Buffer.byteLength(line);
+    if (line.trim()) {
+      lines.push(line);
+      try {
+        index.push(indexRecord(JSON.parse(line), offset, length));
+      } catch {
+        // Unreadable lines stay out of queries; verification reports them
+      }
+    }
+    offset += length + 1;
+  });
+  return lines;
+}
+
+/** Opens the log (creating nothing until the first append) and resumes the chain from its last entry. */
+export function loadAuditLog(path) {
+  logPath = path;
+  head = { seq: 0, hash: GENESIS_HASH };
+  const lines = buildIndex();
+  if (lines.length > 0) {
+    try {
+      const last = JSON.parse(lines[lines.length - 1]);
+      head = { seq: last.seq, hash: last.hash };
+    } catch (err) {
+      console.warn(`Audit log at ${path} ends with an unreadable entry (${err.message}); GET /api/audit/log/verify will report it`);
+      head = { seq: lines.length, hash: null };
+    }
+  }
+  return head;
+}
+
+/** Hash of everything the decision was computed from. */
+export function hashAuditInputs({ member, claims = [], premium = null, modelId = null }) {
+  return sha256(JSON.stringify({ member, claims, premium, model_id: modelId }));
+}
+
+function getVersions(modelId) {
+  const model = resolveModel(modelId);
+  return {
+    model: `${model.id}@${model.version}`,
+    suspect_rules: SUSPECT_RULES_VERSION,
+    crosswalk: CROSSWALK_VERSION,
+    drug_classes: DRUG_CLASS_VERSION,
+    calibration: getSuspectCalibration()?.version ?? null,
+    compliance_rules: getCompliancePolicyVersion(),
+  };
+}
+
+/** Chains, writes and indexes an entry built without seq / prev_hash / hash. */
+function appendEntry(fields) {
+  const entry = { seq: head.seq + 1, ...fields, prev_hash: head.hash ?? GENESIS_HASH };
+  entry.hash = entryHash(entry);
+  const line = JSON.stringify(entry);
+  if (logPath) {
+    appendFileSync(logPath, `${line}\n`);
+    index.push(indexRecord(entry, fileSize, Buffer.byteLength(line)));
+    fileSize += Buffer.byteLength(line) + 1;
+  }
+  head = { seq: entry.seq, hash: entry.hash };
+  return entry;
+}
+
+/**
+ * Appends one orchestrator decision. inputs: { member, claims, premium, modelId };
+ * audit: { caller, actor }. Returns the stored entry.
+ */
+export function recordAgentDecision(output, inputs, { caller, actor = null } = {}, now = new Date().toISOString()) {
+  return appendEntry({
+    at: now,
+    scope: 'member',
+    caller: caller ?? 'unknown',
+    actor,
+    member_id: output.member_id,
+    inputs_hash: hashAuditInputs(inputs),
+    versions: getVersions(output.model_id ?? inputs.modelId),
+    risk: {
+      suspect_hccs: output.suspect_hccs,
+      unsupported_hccs: output.unsupported_hccs,
+      deletion_risk: output.deletion_risk,
+    },
+    finance: output.financial_impact,
+    compliance: output.compliance,
+    executive_summary: output.executive_summary,
+  });
+}
+
+/**
+ * Appends one population roll-up. inputs: { memberIds, modelId, params } (hashed; the member records
+ * and claims are not, as a roll-up spans the whole book); summary is what the caller showed.
+ * audit: { caller, actor }. Returns the stored entry.
+ */
+export function recordPopulationDecision(summary, { memberIds = [], modelId = null, params = {} }, { caller, actor = null } = {}, now = new Date().toISOString()) {
+  return appendEntry({
+    at: now,
+    scope: 'population',
+    caller: caller ?? 'unknown',
+    actor,
+    member_id: null,
+    members: memberIds.length,
+    inputs_hash: sha256(JSON.stringify({ member_ids: memberIds, model_id: modelId, params })),
+    versions: getVersions(modelId),
+    summary,
+  });
+}
+
+/** Reads one indexed entry from disk; null when the file changed under the index. */
+function readEntry(fd, record) {
+  const buffer = Buffer.alloc(record.length);
+  readSync(fd, buffer, 0, record.length, record.offset);
+  try {
+    return JSON.parse(buffer.toString('utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Entries matching the filters, newest first, one page at a time: { entries, total }. from / to are
+ * inclusive dates (YYYY-MM-DD) compared with the entry timestamp; scope is member or population.
+ * Unreadable lines are skipped (verification reports them).
+ */
+export function queryAuditLog({ member_id, caller, scope, from, to } = {}, { page = 1, limit = 50 } = {}) {
+  const matches = index.filter((r) => {
+    if (member_id && r.member_id !== member_id) return false;
+    if (caller && r.caller !== caller) return false;
+    if (scope && r.scope !== scope) return false;
+    const day = String(r.at).slice(0, 10);
+    if (from && day < from) return false;
+    if (to && day > to) return false;
+    return true;
+  });
+  const start = (page - 1) * limit;
+  const pageRecords = matches.reverse().slice(start, start + limit);
+  if (pageRecords.length === 0 || !logPath || !existsSync(logPath)) {
+    return { entries: [], total: matches.length };
+  }
+  const fd = openSync(logPath, 'r');
+  try {
+    return { entries: pageRecords.map((r) => readEntry(fd, r)).filter(Boolean), total: matches.length };
+  } finally {
+    closeSync(fd);
+  }
+}
+
+/**
+ * Walks the chain. Returns { valid, entries, head_hash, first_invalid } where first_invalid is
+ * { line, seq, reason } for the first broken entry (or a head mismatch), else null.
+ */
+export function verifyAuditLog() {
+  const lines = readLines();
+  let prevHash = GENESIS_HASH;
+  let prevSeq = 0;
+  const fail = (line, seq, reason) => ({ valid: false, entries: lines.length, head_hash: head.hash, first_invalid: { line, seq, reason } });
+
+  for (let i = 0; i < lines.length; i++) {
+    let entry;
+    try {
+      entry = JSON.parse(lines[i]);
+    } catch {
+      return fail(i + 1, null, 'unreadable entry');
+    }
+    if (entry.seq !== prevSeq + 1) return fail(i + 1, entry.seq, `sequence gap (expected ${prevSeq + 1})`);
+    if (entry.prev_hash !== prevHash) return fail(i + 1, entry.seq, 'prev_hash does not match the previous entry');
+    if (entry.hash !== entryHash(entry)) return fail(i + 1, entry.seq, 'hash does not match entry contents');
+    prevHash = entry.hash;
+    prevSeq = entry.seq;
+  }
+  if (prevHash !== head.hash) {
+    return fail(lines.length, prevSeq, `last entry does not match the chain head (seq ${head.seq}); entries were removed or replaced`);
+  }
+  return { valid: true, entries: lines.length, head_hash: head.hash, first_invalid: null };
+}
@@ -4,6 +4,8 @@
  * Set OPENAI_API_KEY (and optionally OPENAI_BASE_URL, OPENAI_MODEL) in environment.
  */
 
+import { getCodedHCCs } from './risk-adjustment.js';
+
 const OPENAI_BASE = process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1';
 const OPENAI_MODEL = process.env.OPENAI_MODEL || 'gpt-4o-mini';
 
@@ -31,7 +33,7 @@ export function buildDataContextSummary(members, claims, claimByMember, memberRA
   const withChronic = members.filter((m) => m.chronic_condition_flag).length;
   const hccCounts = {};
   members.forEach((m) => {
-    (m.hcc_codes || []).forEach((c) => { hccCounts[c] = (hccCounts[c] || 0) + 1; });
+    getCodedHCCs(m, claimByMember).forEach((c) => { hccCounts[c] = (hccCounts[c] || 0) + 1; });
   });
 
   return {
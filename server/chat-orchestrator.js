@@ -5,18 +5,24 @@
 
 import { interpretQuery } from './chat-query-interpreter.js';
 import { runOrchestrator } from './orchestrator.js';
-import { BASE_RATE_PMPM } from './risk-adjustment.js';
+import { computeRiskAdjRevenue } from './risk-adjustment.js';
+import { computeMemberPremium } from './premium-rating.js';
+import { reviewNarrative } from './compliance-agent.js';
 
 const HCC_LABELS = { HCC_18: 'Diabetes', HCC_85: 'CHF', HCC_96: 'COPD', HCC_108: 'CKD', HCC_19: 'Hypertension' };
 
-function runChatAnalysis(members, claimByMember, intent, memberRAFMap = {}) {
+/**
+ * costClaimByMember: claims counted as cost against premium (payment-year claims in enrolled months).
+ * modelId: risk model for suspects and revenue (default model when omitted).
+ */
+function runChatAnalysis(members, claimByMember, intent, memberRAFMap = {}, memberPremiumMap = {}, costClaimByMember = claimByMember, modelId) {
   let filtered = members;
   if (intent.state) filtered = filtered.filter((m) => m.state === intent.state);
   if (intent.plan_type) filtered = filtered.filter((m) => m.plan_type === intent.plan_type);
 
   const results = filtered.map((m) => {
-    const claims = claimByMember[m.member_id] || [];
-    return runOrchestrator(m, claimByMember, claims);
+    const claims = costClaimByMember[m.member_id] || [];
+    return runOrchestrator(m, claimByMember, claims, modelId, getMemberPremium(memberPremiumMap, m));
   });
 
   const withSuspects = results.filter((r) => r.suspect_hccs.length > 0);
@@ -42,9 +48,9 @@ function runChatAnalysis(members, claimByMember, intent, memberRAFMap = {}) {
     ? withSuspects.reduce((s, r) => s + (memberRAFMap[r.member_id] ?? 0.9), 0) / withSuspects.length
     : 0;
   const revenueAtRisk = withSuspects.reduce((s, r) => s + (r.financial_impact?.estimated_revenue_uplift ?? 0), 0);
-  const totalPremium = totalMembers * 15000;
+  const totalPremium = filtered.reduce((s, m) => s + getMemberPremium(memberPremiumMap, m), 0);
   const totalAllowed = filtered.reduce((s, m) => {
-    const claims = claimByMember[m.member_id] || [];
+    const claims = costClaimByMember[m.member_id] || [];
     return s + claims.reduce((a, c) => a + c.allowed_amount, 0);
   }, 0);
   const rawMLR = totalPremium > 0 ? totalAllowed / totalPremium : 0;
@@ -71,9 +77,14 @@ export function getMemberRAF(memberRAFMap, memberId) {
   return memberRAFMap[memberId] ?? 0.9;
 }
 
-export function runChatQuery(userQuestion, members, claimByMember, memberRAFMap = {}, runSimulationFn) {
+/** Rated premium from the map, or rated on the fly from the active table. */
+export function getMemberPremium(memberPremiumMap, member) {
+  return memberPremiumMap[member.member_id] ?? computeMemberPremium(member);
+}
+
+export function runChatQuery(userQuestion, members, claimByMember, memberRAFMap = {}, runSimulationFn, memberPremiumMap = {}, costClaimByMember = claimByMember, modelId) {
   const intent = interpretQuery(userQuestion);
-  const analysis = runChatAnalysis(members, claimByMember, intent, memberRAFMap || {});
+  const analysis = runChatAnalysis(members, claimByMember, intent, memberRAFMap || {}, memberPremiumMap || {}, costClaimByMember, modelId);
 
   const stateLabel = intent.state ? ` ${intent.state}` : '';
   const planLabel = intent.plan_type ? ` ${intent.plan_type}` : '';
@@ -136,19 +147,21 @@ export function runChatQuery(userQuestion, members, claimByMember, memberRAFMap
     mList.forEach((m) => {
       const plan = m.plan_type || 'Unknown';
       if (!byPlan[plan]) byPlan[plan] = { premium: 0, claims: 0, riskRev: 0 };
-      byPlan[plan].premium += 15000;
-      const claims = claimByMember[m.member_id] || [];
+      const memberMonths = m.member_months ?? 12;
+      byPlan[plan].premium += getMemberPremium(memberPremiumMap || {}, m);
+      const claims = costClaimByMember[m.member_id] || [];
       byPlan[plan].claims += claims.reduce((s, c) => s + c.allowed_amount, 0);
-      byPlan[plan].riskRev += ((memberRAFMap || {})[m.member_id] ?? 0.9) * BASE_RATE_PMPM * 12;
+      byPlan[plan].riskRev += computeRiskAdjRevenue((memberRAFMap || {})[m.member_id] ?? 0.9, memberMonths, modelId);
     });
     const planMlr = Object.entries(byPlan).map(([plan, d]) => ({
       plan,
+      premium: Math.round(d.premium),
       rawMLR: d.premium > 0 ? (d.claims / d.premium) : 0,
       adjustedMLR: d.premium + d.riskRev > 0 ? d.claims / (d.premium + d.riskRev) : 0,
     })).sort((a, b) => b.adjustedMLR - a.adjustedMLR);
     const worst = planMlr[0];
     shortAnswer = `${worst?.plan ?? 'Bronze'} has the highest risk-adjusted MLR at ${(worst?.adjustedMLR * 100 || 0).toFixed(1)}%, driven by higher claims cost relative to premium and risk revenue.`;
-    evidence = planMlr.slice(0, 3).map((p) => `${p.plan}: Raw MLR ${(p.rawMLR * 100).toFixed(1)}%, Adj. MLR ${(p.adjustedMLR * 100).toFixed(1)}%`);
+    evidence = planMlr.slice(0, 3).map((p) => `${p.plan}: Premium $${(p.premium / 1e6).toFixed(1)}M, Raw MLR ${(p.rawMLR * 100).toFixed(1)}%, Adj. MLR ${(p.adjustedMLR * 100).toFixed(1)}%`);
     whyItMatters = ['Plan mix and risk capture directly affect margin visibility', 'Closing suspect HCCs improves adjusted MLR across all plans'];
     recommendedAction = 'Focus coding improvement efforts on the highest-MLR plan first';
     followUpSuggestions = ['Why is this plan worse?', 'Compare to other states', 'What-if: close 30% of gaps'];
@@ -174,6 +187,53 @@ export function runChatQuery(userQuestion, members, claimByMember, memberRAFMap
     followUpSuggestions,
     charts,
     confidenceNote: 'All insights are based on multi-signal evidence. No diagnostic claims or coding assertions made.',
-    complianceNote: 'Language compliant. Evidence thresholds met. Suitable for executive review.',
   };
 }
+
+const TEXT_SECTIONS = ['shortAnswer', 'evidence', 'whyItMatters', 'recommendedAction', 'followUpSuggestions', 'confidenceNote'];
+
+/** String fields of chart rows keyed by path, e.g. { 'charts.planMlr[0].plan': 'Gold' }. */
+function getChartLabels(charts) {
+  const labels = {};
+  Object.entries(charts || {}).forEach(([chart, rows]) => {
+    if (!Array.isArray(rows)) return;
+    rows.forEach((row, i) => {
+      Object.entries(row || {}).forEach(([key, value]) => {
+        if (typeof value === 'string') labels[`charts.${chart}[${i}].${key}`] = value;
+      });
+    });
+  });
+  return labels;
+}
+
+function applyChartLabels(charts, labels) {
+  if (!charts) return charts;
+  return Object.fromEntries(
+    Object.entries(charts).map(([chart, rows]) => [
+      chart,
+      Array.isArray(rows)
+        ? rows.map((row, i) =>
+            Object.fromEntries(Object.entries(row || {}).map(([key, value]) => [key, labels[`charts.${chart}[${i}].${key}`] ?? value]))
+          )
+        : rows,
+    ])
+  );
+}
+
+/**
+ * Passes a chat response (structured or LLM) through the compliance agent's narrative rules:
+ * violating text (answer sections, confidenceNote and chart labels) is rewritten or withheld, and
+ * complianceNote / compliance carry the real verdict.
+ */
+export function screenChatResponse(response) {
+  const { sections, compliance } = reviewNarrative({
+    ...Object.fromEntries(TEXT_SECTIONS.map((field) => [field, response[field]])),
+    ...getChartLabels(response.charts),
+  });
+  const text = Object.fromEntries(TEXT_SECTIONS.filter((field) => response[field] !== undefined).map((field) => [field, sections[field]]));
+  const ruleIds = compliance.triggered_rules.map((r) => r.id).join(', ');
+  let complianceNote = `Language compliant (policy ${compliance.policy_version}). Suitable for executive review.`;
+  if (compliance.compliance_status === 'REWRITTEN') complianceNote = `Answer rewritten by compliance rules: ${ruleIds}.`;
+  if (compliance.compliance_status === 'BLOCKED') complianceNote = `Parts of this answer were withheld by compliance rules: ${ruleIds}.`;
+  return { ...response, ...text, charts: applyChartLabels(response.charts, sections), complianceNote, compliance };
+}
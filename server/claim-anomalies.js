@@ -0,0 +1,209 @@
+/**
+ * Claim Anomaly & Duplicate Detection
+ * Scores claims for payment-integrity review (thresholds and code edits in
+ * server/config/claim-anomalies.json):
+ *   type_outlier     robust z-score of allowed_amount within its claim type ≥ z_threshold, so an IP
+ *                    claim is compared with IP claims, not with RX fills
+ *   member_outlier   allowed_amount ≥ ratio_threshold × the member's own median for that claim type
+ *                    (members with at least min_claims of the type)
+ *   exact_duplicate  same member, type, date, amount, provider and codes as an earlier claim
+ *   near_duplicate   same member and type (and drug for RX) within window_days, amount within
+ *                    amount_tolerance
+ *   unbundling       a component code billed on the same day as its comprehensive code, or more
+ *                    units of a code set than a daily limit allows
+ * Duplicates and unbundling flag the later claim and point to the earlier one (related_claim_ids).
+ * anomaly_score is the sum of the configured weights of a claim's flags. Flags are leads for review,
+ * not findings of improper payment.
+ */
+
+import { readFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const CONFIG = JSON.parse(readFileSync(join(__dirname, 'config', 'claim-anomalies.json'), 'utf-8'));
+
+export const CLAIM_ANOMALY_VERSION = CONFIG.version;
+export const ANOMALY_FLAGS = ['type_outlier', 'member_outlier', 'exact_duplicate', 'near_duplicate', 'unbundling'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function round2(v) {
+  return Math.round(v * 100) / 100;
+}
+
+function median(sorted) {
+  if (sorted.length === 0) return 0;
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function groupBy(list, keyOf) {
+  const out = {};
+  list.forEach((item) => {
+    const key = keyOf(item);
+    if (!out[key]) out[key] = [];
+    out[key].push(item);
+  });
+  return out;
+}
+
+/** Earlier claim first: service date, then claim id. */
+function byServiceOrder(a, b) {
+  return a.service_date.localeCompare(b.service_date) || a.claim_id.localeCompare(b.claim_id);
+}
+
+function daysBetween(a, b) {
+  return Math.abs(Date.parse(a) - Date.parse(b)) / DAY_MS;
+}
+
+/** Median and MAD of allowed_amount per claim type, with the amount at which the z threshold is reached. */
+function typeStatistics(claims) {
+  const stats = {};
+  Object.entries(groupBy(claims, (c) => c.claim_type || 'Other')).forEach(([type, list]) => {
+    const amounts = list.map((c) => c.allowed_amount).sort((a, b) => a - b);
+    const med = median(amounts);
+    const mad = median(amounts.map((a) => Math.abs(a - med)).sort((a, b) => a - b));
+    stats[type] = {
+      claims: list.length,
+      median: round2(med),
+      mad: round2(mad),
+      threshold: mad > 0 ? round2(med + (CONFIG.type_outlier.z_threshold * mad) / 0.6745) : null,
+      _median: med,
+      _mad: mad,
+    };
+  });
+  return stats;
+}
+
+function exactKey(c) {
+  return [c.member_id, c.claim_type, c.service_date, c.allowed_amount, c.provider_id, (c.procedure_codes || []).join(','), c.ndc || ''].join('|');
+}
+
+/** Same-day bundling edits and daily limits for one member-day. Returns [{ claim, related, detail }]. */
+function checkDay(dayClaims) {
+  const hits = [];
+  const sorted = [...dayClaims].sort(byServiceOrder);
+  const occurrences = sorted.flatMap((c) => (c.procedure_codes || []).map((code) => ({ code, claim: c })));
+  CONFIG.bundling_edits.forEach((edit) => {
+    const comprehensive = occurrences.find((o) => o.code === edit.comprehensive);
+    if (!comprehensive) return;
+    occurrences
+      .filter((o) => edit.components.includes(o.code) && o !== comprehensive)
+      .forEach((o) => hits.push({ claim: o.claim, related: comprehensive.claim, detail: `${edit.label} (${edit.comprehensive} + ${o.code})` }));
+  });
+  (CONFIG.daily_limits || []).forEach((limit) => {
+    const units = occurrences.filter((o) => limit.codes.includes(o.code));
+    units.slice(limit.max).forEach((o) => hits.push({ claim: o.claim, related: units[0].claim, detail: `${limit.label} (${units.length} units)` }));
+  });
+  return hits;
+}
+
+/**
+ * Scores every claim. Returns { version, type_stats, flagged: Map claim_id → { flags, anomaly_score } }
+ * where each flag is { type, detail, score?, related_claim_ids? }.
+ */
+export function detectClaimAnomalies(claims) {
+  const flagged = new Map();
+  const addFlag = (claim, flag) => {
+    if (!flagged.has(claim.claim_id)) flagged.set(claim.claim_id, { flags: [], anomaly_score: 0 });
+    const entry = flagged.get(claim.claim_id);
+    if (entry.flags.some((f) => f.type === flag.type && f.detail === flag.detail)) return;
+    entry.flags.push(flag);
+    entry.anomaly_score += CONFIG.weights[flag.type] ?? 1;
+  };
+
+  const typeStats = typeStatistics(claims);
+  claims.forEach((c) => {
+    const s = typeStats[c.claim_type || 'Other'];
+    if (!s || s._mad === 0) return;
+    const z = (0.6745 * (c.allowed_amount - s._median)) / s._mad;
+    if (z >= CONFIG.type_outlier.z_threshold) {
+      addFlag(c, { type: 'type_outlier', score: round2(z), detail: `$${c.allowed_amount.toLocaleString()} vs ${c.claim_type} median $${s.median.toLocaleString()} (z ${z.toFixed(1)})` });
+    }
+  });
+
+  const byMemberType = groupBy(claims, (c) => `${c.member_id}|${c.claim_type}`);
+  Object.values(byMemberType).forEach((list) => {
+    if (list.length >= CONFIG.member_outlier.min_claims) {
+      const med = median(list.map((c) => c.allowed_amount).sort((a, b) => a - b));
+      list.forEach((c) => {
+        const ratio = med > 0 ? c.allowed_amount / med : 0;
+        if (ratio >= CONFIG.member_outlier.ratio_threshold) {
+          addFlag(c, { type: 'member_outlier', score: round2(ratio), detail: `${ratio.toFixed(1)}× the member's median ${c.claim_type} claim ($${round2(med).toLocaleString()})` });
+        }
+      });
+    }
+
+    const sorted = [...list].sort(byServiceOrder);
+    const seen = new Map();
+    sorted.forEach((c, i) => {
+      const key = exactKey(c);
+      if (seen.has(key)) {
+        addFlag(c, { type: 'exact_duplicate', detail: `Same member, type, date, amount, provider and codes as ${seen.get(key).claim_id}`, related_claim_ids: [seen.get(key).claim_id] });
+        return;
+      }
+      seen.set(key, c);
+      // Earlier claims inside the window; exact matches are handled above
+      for (let j = i - 1; j >= 0; j--) {
+        const prev = sorted[j];
+        const gap = daysBetween(c.service_date, prev.service_date);
+        if (gap > CONFIG.near_duplicate.window_days) break;
+        if (c.claim_type === 'RX' && (c.ndc || c.drug_class) !== (prev.ndc || prev.drug_class)) continue;
+        const tolerance = CONFIG.near_duplicate.amount_tolerance * Math.max(c.allowed_amount, prev.allowed_amount);
+        if (Math.abs(c.allowed_amount - prev.allowed_amount) <= tolerance && exactKey(prev) !== key) {
+          addFlag(c, {
+            type: 'near_duplicate',
+            detail: `Within ${gap} day(s) and ${(CONFIG.near_duplicate.amount_tolerance * 100).toFixed(0)}% of ${prev.claim_id}`,
+            related_claim_ids: [prev.claim_id],
+          });
+          break;
+        }
+      }
+    });
+  });
+
+  Object.values(groupBy(claims.filter((c) => (c.procedure_codes || []).length > 0), (c) => `${c.member_id}|${c.service_date}`)).forEach((dayClaims) => {
+    checkDay(dayClaims).forEach(({ claim, related, detail }) => {
+      addFlag(claim, { type: 'unbundling', detail, related_claim_ids: related.claim_id !== claim.claim_id ? [related.claim_id] : [] });
+    });
+  });
+
+  const publicStats = Object.fromEntries(
+    Object.entries(typeStats).map(([type, { _median, _mad, ...rest }]) => [type, rest])
+  );
+  return { version: CONFIG.version, type_stats: publicStats, flagged };
+}
+
+/**
+ * Anomaly section for a set of claims (e.g. the filtered /api/claims result): counts per flag,
+ * flagged amount and the highest-scoring claims (up to limit).
+ */
+export function summarizeClaimAnomalies(claims, detection, { limit = 20 } = {}) {
+  const byFlag = Object.fromEntries(ANOMALY_FLAGS.map((f) => [f, 0]));
+  let flaggedClaims = 0;
+  let flaggedAllowed = 0;
+  let duplicateAllowed = 0;
+  const top = [];
+  claims.forEach((c) => {
+    const entry = detection.flagged.get(c.claim_id);
+    if (!entry) return;
+    flaggedClaims += 1;
+    flaggedAllowed += c.allowed_amount;
+    entry.flags.forEach((f) => {
+      byFlag[f.type] += 1;
+    });
+    if (entry.flags.some((f) => f.type === 'exact_duplicate' || f.type === 'near_duplicate')) duplicateAllowed += c.allowed_amount;
+    top.push({ ...c, ...entry });
+  });
+  return {
+    version: detection.version,
+    flagged_claims: flaggedClaims,
+    flagged_pct: claims.length > 0 ? Math.round((flaggedClaims / claims.length) * 1000) / 10 : 0,
+    flagged_allowed: round2(flaggedAllowed),
+    duplicate_allowed: round2(duplicateAllowed),
+    by_flag: byFlag,
+    type_stats: detection.type_stats,
+    top: top.sort((a, b) => b.anomaly_score - a.anomaly_score || b.allowed_amount - a.allowed_amount).slice(0, limit),
+  };
+}
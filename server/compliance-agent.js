@@ -2,79 +2,355 @@
  * Compliance & Governance Agent
  * Ensures outputs are regulator-safe, audit-ready, and non-diagnostic.
  *
- * Validation rules:
- * - No diagnostic language
- * - No ICD-10 references
- * - No definitive claims
- * - Clear uncertainty statements
+ * Policy comes from rule packs in server/config/compliance-rules.json (each rule has an id,
+ * type and severity), so compliance can change policy without code changes. Rule types:
+ *   prohibited_phrases  regex patterns that must not appear in suspect text / agent commentary
+ *   required_language   commentary must contain at least one uncertainty term
+ *   evidence_minimum    each suspect needs at least `min` evidence lines
+ *   coded_support       coded HCCs need payment-year documentation (unsupported = deletion risk)
+ *   risk_threshold      raises the risk level when suspect uplift / deletion revenue exceeds a level
+ * A failed "review" rule sets REVIEW_REQUIRED (and at least MEDIUM risk); "warn" only adds a note.
+ * prohibited_phrases rules that target "narrative" also screen Executive Chat answers (structured or
+ * LLM, see reviewNarrative): narrative_action "rewrite" replaces each match with `replacement`,
+ * "block" withholds the whole passage.
+ * POST /api/compliance/rules swaps the active policy in memory; invalid rules in the file are
+ * skipped with a warning.
  */
 
-const DIAGNOSTIC_PATTERNS = [
-  /\bdiagnos(ed|is|ing)\b/i,
-  /\bhas\s+(diabetes|chf|copd|ckd|hypertension)\b/i,
-  /\bconfirmed\b/i,
-  /\bdefinitively\b/i,
-  /\bICD-?10\b/i,
-  /\b[A-Z][0-9]{2}\.[0-9X]+/,
-];
-
-const APPROVED_UNCERTAINTY = [
-  'suggests',
-  'patterns consistent with',
-  'review recommended',
-  'evidence',
-  'suspect',
-  'potential',
-  'estimated',
-];
-
-function hasDiagnosticLanguage(text) {
-  if (!text || typeof text !== 'string') return false;
-  return DIAGNOSTIC_PATTERNS.some((p) => p.test(text));
+import { readFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+const RULE_TYPES = ['prohibited_phrases', 'required_language', 'evidence_minimum', 'coded_support', 'risk_threshold'];
+const SEVERITIES = ['review', 'warn'];
+const TARGETS = ['suspects', 'commentary', 'unsupported', 'narrative'];
+const NARRATIVE_ACTIONS = ['rewrite', 'block'];
+const METRICS = ['suspect_revenue_uplift', 'deletion_revenue_at_risk'];
+const RISK_LEVELS = ['LOW', 'MEDIUM', 'HIGH'];
+// Rules whose failure means suspect output itself is unreliable (the orchestrator caps confidence)
+const SUSPECT_RULE_TYPES = ['prohibited_phrases', 'required_language', 'evidence_minimum'];
+const NARRATIVE_WITHHELD = 'Withheld by compliance review. Rephrase the question or open the explorers for the underlying data.';
+
+// --- VALIDATION ---
+
+function compilePatterns(rule) {
+  return rule.patterns.map((p) => new RegExp(p, rule.case_sensitive ? '' : 'i'));
 }
 
-function checkEvidence(riskOutput) {
-  const issues = [];
-  for (const h of riskOutput.suspect_hccs || []) {
-    if (!h.evidence || h.evidence.length < 2) {
-      issues.push(`Insufficient evidence for ${h.condition || h.hcc_code}`);
+/** Validates one rule. Returns error strings (empty when valid). */
+export function validateComplianceRule(rule, path = 'rule') {
+  if (!rule || typeof rule !== 'object') return [`${path} must be an object`];
+  const errors = [];
+  if (typeof rule.id !== 'string' || !rule.id) errors.push(`${path}.id is required`);
+  if (!RULE_TYPES.includes(rule.type)) errors.push(`${path}.type must be one of ${RULE_TYPES.join(', ')}`);
+  if (!SEVERITIES.includes(rule.severity)) errors.push(`${path}.severity must be one of ${SEVERITIES.join(', ')}`);
+  if (rule.targets !== undefined && !(Array.isArray(rule.targets) && rule.targets.length > 0 && rule.targets.every((t) => TARGETS.includes(t)))) {
+    errors.push(`${path}.targets must be a non-empty array of ${TARGETS.join(', ')}`);
+  }
+  if (rule.type === 'prohibited_phrases') {
+    if (!Array.isArray(rule.patterns) || rule.patterns.length === 0) {
+      errors.push(`${path}.patterns must be a non-empty array of regular expressions`);
+    } else {
+      rule.patterns.forEach((p, i) => {
+        try {
+          new RegExp(p);
+        } catch (err) {
+          errors.push(`${path}.patterns[${i}] is not a valid regular expression (${err.message})`);
+        }
+      });
     }
-    const combined = (h.evidence || []).concat([h.condition]).join(' ');
-    if (hasDiagnosticLanguage(combined)) {
-      issues.push(`Diagnostic language detected for ${h.condition || h.hcc_code}`);
+  }
+  if (Array.isArray(rule.targets) && rule.targets.includes('narrative')) {
+    if (rule.type !== 'prohibited_phrases') errors.push(`${path}.targets may include narrative only for prohibited_phrases rules`);
+    if (rule.narrative_action !== undefined && !NARRATIVE_ACTIONS.includes(rule.narrative_action)) {
+      errors.push(`${path}.narrative_action must be one of ${NARRATIVE_ACTIONS.join(', ')}`);
     }
+    if (rule.replacement !== undefined && typeof rule.replacement !== 'string') errors.push(`${path}.replacement must be a string`);
+  }
+  if (rule.type === 'required_language' && !(Array.isArray(rule.terms) && rule.terms.length > 0 && rule.terms.every((t) => typeof t === 'string' && t.trim()))) {
+    errors.push(`${path}.terms must be a non-empty array of phrases`);
+  }
+  if (rule.type === 'evidence_minimum' && !(Number.isInteger(rule.min) && rule.min >= 1)) {
+    errors.push(`${path}.min must be an integer ≥ 1`);
   }
-  if (riskOutput.overall_commentary && hasDiagnosticLanguage(riskOutput.overall_commentary)) {
-    issues.push('Diagnostic language in commentary');
+  if (rule.type === 'risk_threshold') {
+    if (!METRICS.includes(rule.metric)) errors.push(`${path}.metric must be one of ${METRICS.join(', ')}`);
+    const levels = rule.levels;
+    if (!levels || typeof levels !== 'object' || Object.keys(levels).length === 0) {
+      errors.push(`${path}.levels must map MEDIUM / HIGH to amounts`);
+    } else {
+      Object.entries(levels).forEach(([level, amount]) => {
+        if (!['MEDIUM', 'HIGH'].includes(level)) errors.push(`${path}.levels keys must be MEDIUM or HIGH`);
+        else if (!(Number.isFinite(amount) && amount >= 0)) errors.push(`${path}.levels.${level} must be a non-negative number`);
+      });
+      if (Number.isFinite(levels.MEDIUM) && Number.isFinite(levels.HIGH) && levels.HIGH < levels.MEDIUM) {
+        errors.push(`${path}.levels.HIGH must not be below MEDIUM`);
+      }
+    }
+  }
+  if (rule.message !== undefined && typeof rule.message !== 'string') errors.push(`${path}.message must be a string`);
+  return errors;
+}
+
+/**
+ * Validates a policy: { version, packs: [{ id, label?, rules: [...] }] }.
+ * Returns error strings (empty when valid).
+ */
+export function validateCompliancePolicy(policy) {
+  if (!policy || typeof policy !== 'object') return ['policy must be an object'];
+  const errors = [];
+  if (!policy.version) errors.push('version is required');
+  if (!Array.isArray(policy.packs)) return [...errors, 'packs must be an array'];
+  const ruleIds = [];
+  policy.packs.forEach((pack, i) => {
+    if (!pack?.id) errors.push(`packs[${i}].id is required`);
+    if (!Array.isArray(pack?.rules)) {
+      errors.push(`packs[${i}].rules must be an array`);
+      return;
+    }
+    pack.rules.forEach((r, j) => {
+      errors.push(...validateComplianceRule(r, `packs[${i}].rules[${j}]`));
+      if (r?.id) ruleIds.push(r.id);
+    });
+  });
+  const packIds = policy.packs.map((p) => p?.id).filter(Boolean);
+  if (new Set(packIds).size !== packIds.length) errors.push('pack ids must be unique');
+  if (new Set(ruleIds).size !== ruleIds.length) errors.push('rule ids must be unique across packs');
+  return errors.slice(0, 30);
+}
+
+/** Loads the configured policy, dropping (and logging) rules that fail validation. */
+function loadPolicy() {
+  const raw = JSON.parse(readFileSync(join(__dirname, 'config', 'compliance-rules.json'), 'utf-8'));
+  const loadErrors = [];
+  const packs = (raw.packs || []).map((pack, i) => ({
+    ...pack,
+    rules: (pack.rules || []).filter((r, j) => {
+      const errors = validateComplianceRule(r, `packs[${i}].rules[${j}]`);
+      if (errors.length) {
+        console.warn(`Skipping compliance rule ${r?.id ?? j}: ${errors.join('; ')}`);
+        loadErrors.push(...errors);
+      }
+      return errors.length === 0;
+    }),
+  }));
+  return { policy: { ...raw, packs }, loadErrors };
+}
+
+const { policy: CONFIGURED_POLICY, loadErrors: LOAD_ERRORS } = loadPolicy();
+let activePolicy = CONFIGURED_POLICY;
+let compiledRules = compilePolicy(activePolicy);
+
+function compilePolicy(policy) {
+  return policy.packs.flatMap((pack) =>
+    pack.rules.map((rule) => ({
+      ...rule,
+      pack: pack.id,
+      targets: rule.targets ?? ['suspects', 'commentary'],
+      regexes: rule.type === 'prohibited_phrases' ? compilePatterns(rule) : [],
+      narrative_action: rule.narrative_action ?? 'block',
+    }))
+  );
+}
+
+export function getCompliancePolicy() {
+  return { ...activePolicy, load_errors: activePolicy === CONFIGURED_POLICY ? LOAD_ERRORS : [] };
+}
+
+/** Replaces the active policy; returns { errors } and leaves it unchanged when invalid. */
+export function setCompliancePolicy(policy) {
+  const errors = validateCompliancePolicy(policy);
+  if (errors.length === 0) {
+    activePolicy = policy;
+    compiledRules = compilePolicy(policy);
   }
-  return issues;
+  return { errors };
 }
 
+export function resetCompliancePolicy() {
+  activePolicy = CONFIGURED_POLICY;
+  compiledRules = compilePolicy(activePolicy);
+}
+
+export function getCompliancePolicyVersion() {
+  return activePolicy.version;
+}
+
+/** True when text matches a prohibited phrase of the active policy (used to vet rule wording). */
+export function hasDiagnosticLanguage(text) {
+  if (!text || typeof text !== 'string') return false;
+  return compiledRules.some((r) => r.type === 'prohibited_phrases' && r.regexes.some((p) => p.test(text)));
+}
+
+// --- EVALUATION ---
+
+function formatMessage(template, values) {
+  return template.replace(/\{(\w+)\}/g, (m, key) => (values[key] !== undefined ? String(values[key]) : m));
+}
+
+/** Texts a rule inspects: [{ subject, text }] for its targets. */
+function getTexts(rule, riskOutput) {
+  const texts = [];
+  if (rule.targets.includes('suspects')) {
+    (riskOutput.suspect_hccs || []).forEach((h) => {
+      texts.push({ subject: h.condition || h.hcc_code, text: (h.evidence || []).concat([h.condition]).join(' ') });
+    });
+  }
+  if (rule.targets.includes('unsupported')) {
+    (riskOutput.unsupported_hccs || []).forEach((h) => {
+      texts.push({ subject: h.condition || h.hcc_code, text: (h.reasons || []).concat(h.evidence || []).join(' ') });
+    });
+  }
+  if (rule.targets.includes('commentary') && riskOutput.overall_commentary) {
+    texts.push({ subject: 'agent commentary', text: riskOutput.overall_commentary });
+  }
+  return texts;
+}
+
+function getMetric(metric, riskOutput, financeOutput) {
+  if (metric === 'suspect_revenue_uplift') {
+    return (riskOutput.suspect_hccs || []).length > 0 ? financeOutput?.financial_impact?.estimated_revenue_uplift ?? 0 : 0;
+  }
+  return riskOutput.unsupported_revenue_at_risk ?? 0;
+}
+
+/** Findings for one rule: messages when it fails (empty when it passes), plus any risk level reached. */
+function evaluateRule(rule, riskOutput, financeOutput) {
+  const message = (fallback, values) => formatMessage(rule.message ?? fallback, values);
+  switch (rule.type) {
+    case 'prohibited_phrases':
+      return {
+        findings: getTexts(rule, riskOutput)
+          .filter(({ text }) => rule.regexes.some((p) => p.test(text)))
+          .map(({ subject }) => message('Prohibited language in {subject}', { subject })),
+      };
+    case 'required_language':
+      return {
+        findings: getTexts(rule, riskOutput)
+          .filter(({ text }) => !rule.terms.some((t) => text.toLowerCase().includes(t.toLowerCase())))
+          .map(({ subject }) => message('No uncertainty statement in {subject}', { subject })),
+      };
+    case 'evidence_minimum':
+      return {
+        findings: (riskOutput.suspect_hccs || [])
+          .filter((h) => !h.evidence || h.evidence.length < rule.min)
+          .map((h) => message('Insufficient evidence for {subject}', { subject: h.condition || h.hcc_code, count: h.evidence?.length ?? 0, min: rule.min })),
+      };
+    case 'coded_support':
+      return {
+        findings: (riskOutput.unsupported_hccs || []).map((h) =>
+          message('Coded {subject} lacks payment-year documentation', {
+            subject: `${h.condition || h.hcc_code} (${h.hcc_code})`,
+            amount: (h.revenue_at_risk ?? 0).toLocaleString(),
+          })
+        ),
+      };
+    case 'risk_threshold': {
+      const amount = getMetric(rule.metric, riskOutput, financeOutput);
+      const level = ['HIGH', 'MEDIUM'].find((l) => Number.isFinite(rule.levels[l]) && amount > rule.levels[l]);
+      return {
+        findings: level ? [message('{amount} exceeds the {level} threshold', { amount: Math.round(amount).toLocaleString(), level })] : [],
+        risk_level: level,
+      };
+    }
+    default:
+      return { findings: [] };
+  }
+}
+
+function raiseRiskLevel(current, next) {
+  return next && RISK_LEVELS.indexOf(next) > RISK_LEVELS.indexOf(current) ? next : current;
+}
+
+/**
+ * Evaluates every rule of the active policy. rules lists each named rule with passed / findings;
+ * checks.suspect_evidence covers language and evidence rules, checks.coded_support the coded-HCC
+ * support rules (review severity only).
+ */
 export function runComplianceAgent(riskOutput, financeOutput) {
   const notes = [];
   let compliance_status = 'APPROVED';
   let risk_level = 'LOW';
+  const checks = { suspect_evidence: 'PASS', coded_support: 'PASS' };
 
-  const evidenceIssues = checkEvidence(riskOutput);
-  if (evidenceIssues.length > 0) {
-    compliance_status = 'REVIEW_REQUIRED';
-    risk_level = 'MEDIUM';
-    notes.push(...evidenceIssues);
-  } else {
-    notes.push('Language compliant');
-    notes.push('Evidence thresholds met');
-    notes.push('No diagnostic claims detected');
-  }
-
-  const hasSuspects = (riskOutput.suspect_hccs || []).length > 0;
-  const revenueUplift = financeOutput?.financial_impact?.estimated_revenue_uplift ?? 0;
-  if (hasSuspects && revenueUplift > 10000) risk_level = 'MEDIUM';
-  if (hasSuspects && revenueUplift > 25000) risk_level = 'HIGH';
+  // Narrative-only rules screen chat answers (reviewNarrative), not member output
+  const rules = compiledRules.filter((rule) => rule.targets.some((t) => t !== 'narrative')).map((rule) => {
+    const { findings, risk_level: reached } = evaluateRule(rule, riskOutput, financeOutput);
+    const passed = findings.length === 0;
+    if (passed) {
+      if (rule.pass_note) notes.push(rule.pass_note);
+    } else {
+      notes.push(...findings);
+      if (rule.severity === 'review') {
+        compliance_status = 'REVIEW_REQUIRED';
+        risk_level = raiseRiskLevel(risk_level, 'MEDIUM');
+        if (SUSPECT_RULE_TYPES.includes(rule.type) && rule.targets.some((t) => t !== 'unsupported')) checks.suspect_evidence = 'FAIL';
+        if (rule.type === 'coded_support') checks.coded_support = 'FAIL';
+      }
+    }
+    risk_level = raiseRiskLevel(risk_level, reached);
+    return { id: rule.id, pack: rule.pack, type: rule.type, severity: rule.severity, passed, findings };
+  });
 
   return {
     member_id: riskOutput.member_id,
     compliance_status,
     notes,
     risk_level,
+    checks,
+    policy_version: activePolicy.version,
+    rules,
+  };
+}
+
+// --- NARRATIVE (EXECUTIVE CHAT) ---
+
+/** Applies one rule to a passage: null when blocked, else the (possibly rewritten) text. */
+function screenPassage(rule, text) {
+  if (rule.narrative_action === 'block') return null;
+  return rule.regexes.reduce((t, p) => t.replace(new RegExp(p.source, `${p.flags}g`), rule.replacement ?? '[redacted]'), text);
+}
+
+/**
+ * Screens narrative text against the active policy's narrative rules. sections maps a field name to
+ * a string or an array of strings (e.g. shortAnswer, evidence); other values pass through untouched.
+ * Blocked strings are replaced with a withheld notice, blocked array items are dropped.
+ * Returns { sections, compliance: { compliance_status: APPROVED | REWRITTEN | BLOCKED, policy_version,
+ * triggered_rules: [{ id, pack, severity, action, findings }] } }.
+ */
+export function reviewNarrative(sections) {
+  const rules = compiledRules.filter((r) => r.type === 'prohibited_phrases' && r.targets.includes('narrative'));
+  const triggered = {};
+  const review = (text, subject) => {
+    let out = text;
+    for (const rule of rules) {
+      if (!rule.regexes.some((p) => p.test(out))) continue;
+      if (!triggered[rule.id]) {
+        triggered[rule.id] = { id: rule.id, pack: rule.pack, severity: rule.severity, action: rule.narrative_action, findings: [] };
+      }
+      triggered[rule.id].findings.push(formatMessage(rule.message ?? 'Prohibited language in {subject}', { subject }));
+      out = screenPassage(rule, out);
+      if (out === null) return null;
+    }
+    return out;
   };
+
+  const screened = {};
+  Object.entries(sections).forEach(([field, value]) => {
+    if (typeof value === 'string') {
+      screened[field] = review(value, field) ?? NARRATIVE_WITHHELD;
+    } else if (Array.isArray(value)) {
+      screened[field] = value.map((v, i) => (typeof v === 'string' ? review(v, `${field}[${i}]`) : v)).filter((v) => v !== null);
+    } else {
+      screened[field] = value;
+    }
+  });
+
+  const triggeredRules = Object.values(triggered);
+  let compliance_status = 'APPROVED';
+  if (triggeredRules.some((r) => r.action === 'block')) compliance_status = 'BLOCKED';
+  else if (triggeredRules.length > 0) compliance_status = 'REWRITTEN';
+  return { sections: screened, compliance: { compliance_status, policy_version: activePolicy.version, triggered_rules: triggeredRules } };
 }
@@ -0,0 +1,40 @@
+/**
+ * Diagnosis → HCC Crosswalk
+ * Maps diagnosis codes on claims to HCCs (server/config/dx-hcc-crosswalk.json).
+ * Only claim types listed as eligible (face-to-face IP/OP encounters) can support an HCC;
+ * pharmacy claims never do.
+ */
+
+import { readFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const CROSSWALK = JSON.parse(readFileSync(join(__dirname, 'config', 'dx-hcc-crosswalk.json'), 'utf-8'));
+
+export const CROSSWALK_VERSION = CROSSWALK.version;
+
+const ELIGIBLE_TYPES = new Set(CROSSWALK.eligible_claim_types);
+
+/** Normalizes "e11.9" / "E119" style input to the dotted upper-case form used in the crosswalk. */
+export function normalizeDiagnosisCode(code) {
+  const s = String(code || '').trim().toUpperCase();
+  if (!s) return '';
+  if (s.includes('.') || s.length <= 3) return s;
+  return `${s.slice(0, 3)}.${s.slice(3)}`;
+}
+
+export function mapDiagnosisToHCC(code) {
+  return CROSSWALK.mappings[normalizeDiagnosisCode(code)] ?? null;
+}
+
+export function isEligibleClaim(claim) {
+  return ELIGIBLE_TYPES.has(claim.claim_type);
+}
+
+/** Diagnosis codes that map to a given HCC (used by the data generator and docs). */
+export function getDiagnosisCodesForHCC(hcc) {
+  return Object.entries(CROSSWALK.mappings)
+    .filter(([, h]) => h === hcc)
+    .map(([dx]) => dx);
+}
@@ -0,0 +1,54 @@
+/**
+ * Drug → Therapeutic Class → Condition
+ * Maps RX claim drug identifiers (NDC-style) to therapeutic classes and classes to the
+ * HCCs they are typically used to manage (server/config/drug-classes.json).
+ * A class match is supporting evidence for a suspect, never a diagnosis.
+ */
+
+import { readFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const DRUG_CLASSES = JSON.parse(readFileSync(join(__dirname, 'config', 'drug-classes.json'), 'utf-8'));
+
+export const DRUG_CLASS_VERSION = DRUG_CLASSES.version;
+
+const CLASS_BY_NDC = {};
+Object.entries(DRUG_CLASSES.classes).forEach(([classId, c]) => {
+  c.drugs.forEach((d) => {
+    CLASS_BY_NDC[d.ndc] = classId;
+  });
+});
+
+export function getDrugClassLabel(classId) {
+  return DRUG_CLASSES.classes[classId]?.label ?? classId;
+}
+
+/**
+ * Therapeutic class of an RX claim: the claim's drug_class when it is a known class,
+ * otherwise looked up from its ndc. Non-RX claims and unknown drugs return null.
+ */
+export function resolveDrugClass(claim) {
+  if (claim.claim_type !== 'RX') return null;
+  if (claim.drug_class && DRUG_CLASSES.classes[claim.drug_class]) return claim.drug_class;
+  return CLASS_BY_NDC[String(claim.ndc || '').trim()] ?? null;
+}
+
+/** Classes whose mapping includes the given HCC. */
+export function getDrugClassesForHCC(hcc) {
+  return Object.entries(DRUG_CLASSES.classes)
+    .filter(([, c]) => c.conditions.includes(hcc))
+    .map(([classId]) => classId);
+}
+
+/** Classes mapped to no condition (used by the data generator for background fills). */
+export function getNonConditionDrugClasses() {
+  return Object.entries(DRUG_CLASSES.classes)
+    .filter(([, c]) => c.conditions.length === 0)
+    .map(([classId]) => classId);
+}
+
+export function getDrugsForClass(classId) {
+  return DRUG_CLASSES.classes[classId]?.drugs ?? [];
+}
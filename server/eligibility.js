@@ -0,0 +1,124 @@
+/**
+ * Eligibility Spans
+ * Monthly enrollment segments: { member_id, plan_type, state, start_month, end_month }
+ * with months as "YYYY-MM", both ends inclusive. A member can have several segments
+ * (mid-year enrollment, termination, plan switch at open enrollment).
+ *
+ * member_months and risk revenue are derived from enrolled months rather than the
+ * legacy scalar member.member_months (used only when no spans exist); premium is
+ * rated per segment in premium-rating.js. Revenue, premium and claims cost are annual
+ * figures for the payment year, so member_months counts enrolled months in that year
+ * and cost uses the claims incurred in them (getPaymentYearClaims).
+ */
+
+const MONTH_RE = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+export function isValidMonth(month) {
+  return MONTH_RE.test(String(month || ''));
+}
+
+function monthIndex(month) {
+  const [y, m] = String(month).split('-').map(Number);
+  return y * 12 + (m - 1);
+}
+
+/** Number of months in [start, end] inclusive; 0 if end precedes start. */
+export function monthsBetween(start, end) {
+  return Math.max(0, monthIndex(end) - monthIndex(start) + 1);
+}
+
+export function buildEligibilityByMember(segments) {
+  const out = {};
+  (segments || []).forEach((s) => {
+    if (!out[s.member_id]) out[s.member_id] = [];
+    out[s.member_id].push(s);
+  });
+  Object.values(out).forEach((list) => list.sort((a, b) => a.start_month.localeCompare(b.start_month)));
+  return out;
+}
+
+/**
+ * Enrolled months overlapping [from, to]; either bound may be omitted.
+ */
+export function countMemberMonths(segments, from, to) {
+  return (segments || []).reduce((sum, s) => {
+    const start = from && from > s.start_month ? from : s.start_month;
+    const end = to && to < s.end_month ? to : s.end_month;
+    return sum + monthsBetween(start, end);
+  }, 0);
+}
+
+export function isEnrolledInRange(segments, from, to) {
+  return countMemberMonths(segments, from, to) > 0;
+}
+
+/** Whether a "YYYY-MM-DD" service date falls inside any segment. */
+export function isEnrolledOn(segments, serviceDate) {
+  const month = String(serviceDate || '').slice(0, 7);
+  return (segments || []).some((s) => month >= s.start_month && month <= s.end_month);
+}
+
+/**
+ * A member's claims incurred in the payment year while enrolled. Members without spans keep
+ * every claim in the year, matching the scalar member_months fallback.
+ */
+export function getPaymentYearClaims(claims, segments, year) {
+  const hasSpans = segments && segments.length > 0;
+  return (claims || []).filter(
+    (c) => String(c.service_date).startsWith(String(year)) && (!hasSpans || isEnrolledOn(segments, c.service_date))
+  );
+}
+
+/**
+ * Applies spans to members: member_months becomes enrolled months (within paymentYear when
+ * given), plan/state reflect the most recent segment, and coverage_start/coverage_end bound
+ * all segments. Members without spans keep their scalar fields.
+ */
+export function applyEligibility(members, eligibilityByMember, paymentYear) {
+  return members.map((m) => {
+    const segments = eligibilityByMember[m.member_id];
+    if (!segments || segments.length === 0) return m;
+    const latest = segments[segments.length - 1];
+    return {
+      ...m,
+      plan_type: latest.plan_type || m.plan_type,
+      state: latest.state || m.state,
+      member_months: paymentYear ? countMemberMonths(segments, `${paymentYear}-01`, `${paymentYear}-12`) : countMemberMonths(segments),
+      coverage_start: segments[0].start_month,
+      coverage_end: segments.reduce((end, s) => (s.end_month > end ? s.end_month : end), segments[0].end_month),
+    };
+  });
+}
+
+/** Enrolled months in [from, to], or the scalar member_months when the member has no spans. */
+export function memberMonthsInRange(member, segments, from, to) {
+  if (!segments || segments.length === 0) return member.member_months ?? 12;
+  return countMemberMonths(segments, from, to);
+}
+
+/**
+ * Members enrolled for at least one month in [from, to]. Members without spans are
+ * treated as enrolled throughout, matching the scalar member_months fallback.
+ */
+export function filterEnrolled(membersList, eligibilityByMember, from, to) {
+  if (!from && !to) return membersList;
+  return membersList.filter((m) => {
+    const segments = eligibilityByMember[m.member_id];
+    return !segments || isEnrolledInRange(segments, from, to);
+  });
+}
+
+/**
+ * Validates segments against the member list. Returns error strings (empty when valid).
+ */
+export function validateEligibility(segments, memberIds) {
+  const errors = [];
+  (segments || []).forEach((s, i) => {
+    if (!s.member_id) errors.push(`eligibility[${i}].member_id is required`);
+    else if (memberIds && !memberIds.has(s.member_id)) errors.push(`eligibility[${i}] references unknown member ${s.member_id}`);
+    if (!isValidMonth(s.start_month)) errors.push(`eligibility[${i}].start_month must be YYYY-MM`);
+    if (!isValidMonth(s.end_month)) errors.push(`eligibility[${i}].end_month must be YYYY-MM`);
+    else if (isValidMonth(s.start_month) && s.end_month < s.start_month) errors.push(`eligibility[${i}] ends before it starts`);
+  });
+  return errors.slice(0, 20);
+}
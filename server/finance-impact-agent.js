@@ -2,12 +2,23 @@
  * Finance Impact Agent
  * Translates risk findings into financial impact for payer leadership.
  *
- * Inputs: Risk Agent output, plan mix, base rate, member months, claims cost
+ * Inputs: Risk Agent output, plan mix, base rate (or model id), member months, claims cost, rated premium
  * Core: Revenue Uplift = RAF × Base Rate × Member Months
  *       Adjusted MLR = Claims / (Premium + Risk Revenue)
+ *
+ * Projection mode (projectFinancials, run for a population by /api/finance/projection) extends the
+ * single year into a multi-year view. For year t = 1..years (year 1 = the payment year):
+ *   members       × (1 + membership_growth)^(t−1)
+ *   claims        × members factor × (1 + cost_trend)^(t−1)
+ *   premium       × members factor × (1 + premium_trend)^(t−1)
+ *   risk revenue  × members factor × (1 + raf_drift)^(t−1)           (base rate held flat)
+ *   gap revenue   = suspect uplift × close_suspect_pct × members factor × recapture_rate^(t−1)
+ * Closed gaps decay because each condition must be documented again every year; recapture_rate is
+ * the share carried into the next year. NPV discounts gap revenue at year end: / (1 + discount_rate)^t.
  */
 
-import { BASE_RATE_PMPM } from './risk-adjustment.js';
+import { resolveModel, CURRENT_PAYMENT_YEAR } from './risk-adjustment.js';
+import { computeMemberPremium } from './premium-rating.js';
 
 const PLAN_IMPACT_THRESHOLDS = {
   High: 5000,
@@ -15,6 +26,107 @@ const PLAN_IMPACT_THRESHOLDS = {
   Low: 0,
 };
 
+const PROJECTION_DEFAULTS = {
+  years: 5,
+  membership_growth: 0.03,
+  cost_trend: 0.06,
+  premium_trend: 0.05,
+  raf_drift: -0.01,
+  close_suspect_pct: 30,
+  recapture_rate: 0.8,
+  discount_rate: 0.08,
+};
+
+// [min, max] for each rate assumption
+const PROJECTION_RANGES = {
+  membership_growth: [-0.5, 1],
+  cost_trend: [-0.2, 0.5],
+  premium_trend: [-0.2, 0.5],
+  raf_drift: [-0.2, 0.2],
+  close_suspect_pct: [0, 100],
+  recapture_rate: [0, 1],
+  discount_rate: [0, 0.5],
+};
+
+function round2(v) {
+  return Math.round(v * 100) / 100;
+}
+
+function round3(v) {
+  return Math.round(v * 1000) / 1000;
+}
+
+/**
+ * Validates projection assumptions. Returns error strings (empty when valid).
+ */
+export function validateProjectionAssumptions(assumptions = {}) {
+  const errors = [];
+  const { years } = assumptions;
+  if (years !== undefined && !(Number.isInteger(years) && years >= 1 && years <= 10)) {
+    errors.push('years must be an integer between 1 and 10');
+  }
+  Object.entries(PROJECTION_RANGES).forEach(([key, [min, max]]) => {
+    const v = assumptions[key];
+    if (v !== undefined && !(Number.isFinite(v) && v >= min && v <= max)) errors.push(`${key} must be a number between ${min} and ${max}`);
+  });
+  return errors;
+}
+
+/**
+ * Multi-year projection from one year of figures.
+ * baseline: { members, claims_cost, premium, risk_revenue, suspect_revenue_uplift }.
+ * Returns { assumptions, baseline, years: [per-year revenue, claims, MLR with and without closed gaps],
+ * totals: { gap_revenue, npv_gap_revenue, ... } }.
+ */
+export function projectFinancials(baseline, assumptions = {}) {
+  const a = { ...PROJECTION_DEFAULTS, ...Object.fromEntries(Object.entries(assumptions).filter(([, v]) => v !== undefined)) };
+  const mlr = (claims, revenue) => (revenue > 0 ? round3(claims / revenue) : null);
+  const totals = { claims_cost: 0, premium: 0, risk_revenue: 0, gap_revenue: 0, npv_gap_revenue: 0 };
+
+  const years = Array.from({ length: a.years }, (_, i) => {
+    const growth = (1 + a.membership_growth) ** i;
+    const claimsCost = baseline.claims_cost * growth * (1 + a.cost_trend) ** i;
+    const premium = baseline.premium * growth * (1 + a.premium_trend) ** i;
+    const riskRevenue = baseline.risk_revenue * growth * (1 + a.raf_drift) ** i;
+    const gapRevenue = baseline.suspect_revenue_uplift * (a.close_suspect_pct / 100) * growth * a.recapture_rate ** i;
+    const discountFactor = 1 / (1 + a.discount_rate) ** (i + 1);
+    const mlrBaseline = mlr(claimsCost, premium + riskRevenue);
+    const mlrWithGaps = mlr(claimsCost, premium + riskRevenue + gapRevenue);
+    totals.claims_cost += claimsCost;
+    totals.premium += premium;
+    totals.risk_revenue += riskRevenue;
+    totals.gap_revenue += gapRevenue;
+    totals.npv_gap_revenue += gapRevenue * discountFactor;
+    return {
+      year: CURRENT_PAYMENT_YEAR + i,
+      members: Math.round(baseline.members * growth),
+      claims_cost: round2(claimsCost),
+      premium: round2(premium),
+      risk_revenue: round2(riskRevenue),
+      gap_revenue: round2(gapRevenue),
+      total_revenue: round2(premium + riskRevenue + gapRevenue),
+      mlr_baseline: mlrBaseline,
+      mlr_with_gaps: mlrWithGaps,
+      mlr_improvement_bps: mlrBaseline !== null && mlrWithGaps !== null ? Math.round((mlrWithGaps - mlrBaseline) * 10000) : null,
+      discount_factor: round3(discountFactor),
+      pv_gap_revenue: round2(gapRevenue * discountFactor),
+    };
+  });
+
+  return {
+    assumptions: a,
+    baseline: {
+      members: baseline.members,
+      claims_cost: round2(baseline.claims_cost),
+      premium: round2(baseline.premium),
+      risk_revenue: round2(baseline.risk_revenue),
+      suspect_revenue_uplift: round2(baseline.suspect_revenue_uplift),
+    },
+    years,
+    totals: Object.fromEntries(Object.entries(totals).map(([k, v]) => [k, round2(v)])),
+  };
+}
+
 /**
  * Compute financial impact from Risk Agent output
  */
@@ -23,11 +135,11 @@ export function runFinanceAgent(riskOutput, context = {}) {
     plan_type = 'Silver',
     member_months = 12,
     claims_cost = 0,
-    premium = 15000,
+    premium = computeMemberPremium({ plan_type, state: context.state, age: context.age, member_months }),
     current_raf = 1.0,
   } = context;
 
-  const baseRate = context.base_rate ?? BASE_RATE_PMPM;
+  const baseRate = context.base_rate ?? resolveModel(context.model_id ?? riskOutput.model_id).base_rate_pmpm;
 
   const totalRafUplift = (riskOutput.suspect_hccs || []).reduce((s, h) => s + (h.raf_uplift || 0), 0);
   const estimated_revenue_uplift = (riskOutput.suspect_hccs || []).reduce(
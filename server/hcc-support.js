@@ -0,0 +1,182 @@
+/**
+ * Unsupported HCC Detection (deletion risk)
+ * The counterpart of suspects: scores every submitted HCC for supporting evidence in the payment
+ * year and flags codes a validation audit would likely delete. Submitted HCCs are the payment
+ * year's claim-coded HCCs (getCodedHCCs) plus the HCCs on the member record (hcc_codes); support is
+ * checked against payment-year face-to-face claims whichever way the HCC was submitted.
+ *
+ *   supported    an eligible face-to-face claim (see crosswalk.js) in the payment year carries
+ *                a diagnosis that maps to the HCC
+ *   unsupported  no such claim, because the member's claims carry no diagnosis codes at all
+ *                ("no_claim_dx") or none in the payment year maps to the HCC ("no_payment_year_dx",
+ *                e.g. a record code last documented in the prior year — also a recapture gap)
+ *
+ * support_score ∈ [0, 0.95] ranks how defensible a code is: payment-year encounters set the base
+ * (0.6, or 0.7 on 2+ claims) and condition-related RX fills or monitoring procedures in the payment
+ * year add 0.15 each. Utilization never makes a code supported on its own — it only suggests the
+ * chart may hold the missing documentation.
+ *
+ * raf_at_risk per HCC is the marginal RAF (submitted RAF − RAF without that HCC); the member total
+ * is submitted RAF − RAF from supported HCCs only, so hierarchies and interactions are not
+ * double-counted.
+ */
+
+import { computeRAF, getCodedHCCs, getHCCSupport, resolveModel, CURRENT_PAYMENT_YEAR } from './risk-adjustment.js';
+import { getClaimsSummary, getConditionDrugEvidence, getConditionProcedureEvidence, getSuspectRules } from './suspect-rules.js';
+
+const CONDITIONS = Object.fromEntries(getSuspectRules().rules.map((r) => [r.hcc, r.condition || r.hcc]));
+const MAX_SUPPORT_SCORE = 0.95;
+
+function round2(v) {
+  return Math.round(v * 100) / 100;
+}
+
+function round3(v) {
+  return Math.round(v * 1000) / 1000;
+}
+
+function latest(docs) {
+  return docs.reduce((d, s) => (s.service_date > d ? s.service_date : d), '');
+}
+
+/** Support status, score, evidence and reasons for one coded HCC. */
+function scoreHCC(hcc, support, summary, year) {
+  const docs = support?.[hcc] ?? [];
+  const current = docs.filter((d) => String(d.service_date).startsWith(String(year)));
+  const currentClaims = new Set(current.map((d) => d.claim_id)).size;
+  const evidence = [];
+  const reasons = [];
+  let score;
+  let reasonCode = null;
+  if (currentClaims > 0) {
+    evidence.push(`Documented on ${currentClaims} face-to-face claim(s) in ${year}, most recently ${latest(current)}`);
+    score = currentClaims >= 2 ? 0.7 : 0.6;
+  } else if (!support) {
+    reasonCode = 'no_claim_dx';
+    reasons.push('Coded from the member record only; no claim carries a diagnosis code');
+    score = 0;
+  } else {
+    reasonCode = 'no_payment_year_dx';
+    reasons.push(
+      docs.length > 0
+        ? `No face-to-face claim in ${year} documents it; last documented ${latest(docs)}`
+        : 'No face-to-face claim documents it; on the member record only'
+    );
+    score = 0;
+  }
+
+  const utilization = [getConditionDrugEvidence(summary, hcc), getConditionProcedureEvidence(summary, hcc)].filter(Boolean);
+  evidence.push(...utilization);
+  score += 0.15 * utilization.length;
+  if (reasonCode && utilization.length === 0) reasons.push(`No condition-related RX fills or monitoring procedures in ${year}`);
+
+  return {
+    hcc,
+    condition: CONDITIONS[hcc] || hcc,
+    status: reasonCode ? 'unsupported' : 'supported',
+    reason_code: reasonCode,
+    support_score: Math.min(MAX_SUPPORT_SCORE, round2(score)),
+    evidence,
+    reasons,
+  };
+}
+
+/**
+ * Scores a member's submitted HCCs against payment-year evidence.
+ * Returns { payment_year, hccs: [scored], unsupported: [scored with raf/revenue at risk],
+ * raf_at_risk, revenue_at_risk }. Members termed before the payment year have nothing at risk.
+ */
+export function scoreHCCSupport(member, claimsByMember = {}, modelId, year = CURRENT_PAYMENT_YEAR) {
+  const model = resolveModel(modelId);
+  const empty = { payment_year: year, hccs: [], unsupported: [], raf_at_risk: 0, revenue_at_risk: 0 };
+  if (member.coverage_end && member.coverage_end < `${year}-01`) return empty;
+  const coded = [...new Set([...getCodedHCCs(member, claimsByMember, year), ...(member.hcc_codes || [])])];
+  if (coded.length === 0) return empty;
+
+  const claims = claimsByMember[member.member_id] || [];
+  const support = getHCCSupport(member, claimsByMember);
+  const summary = getClaimsSummary(claims.filter((c) => String(c.service_date).startsWith(String(year))));
+  const hccs = coded.map((hcc) => scoreHCC(hcc, support, summary, year));
+  const unsupportedCodes = hccs.filter((h) => h.status === 'unsupported').map((h) => h.hcc);
+  if (unsupportedCodes.length === 0) return { ...empty, hccs };
+
+  const months = member.member_months ?? 12;
+  const revenueOf = (raf) => Math.round(raf * model.base_rate_pmpm * months);
+  // RAF from an explicit code list: no claims, so the hcc_codes field is the coded set
+  const rafFor = (codes) => computeRAF({ ...member, hcc_codes: codes }, {}, model.id);
+  const rafCoded = rafFor(coded);
+  const unsupported = hccs
+    .filter((h) => h.status === 'unsupported')
+    .map((h) => {
+      const rafAtRisk = round3(Math.max(0, rafCoded - rafFor(coded.filter((c) => c !== h.hcc))));
+      return { ...h, raf_at_risk: rafAtRisk, revenue_at_risk: revenueOf(rafAtRisk) };
+    });
+  const rafAtRisk = round3(Math.max(0, rafCoded - rafFor(coded.filter((c) => !unsupportedCodes.includes(c)))));
+  return { payment_year: year, hccs, unsupported, raf_at_risk: rafAtRisk, revenue_at_risk: revenueOf(rafAtRisk) };
+}
+
+/**
+ * Population deletion-risk report: totals, per-HCC unsupported rates, counts by reason and the
+ * members with the most revenue at risk (up to limit).
+ */
+export function computeUnsupportedReport(members, claimsByMember = {}, { modelId, year = CURRENT_PAYMENT_YEAR, limit = 100 } = {}) {
+  const totals = { coded_hccs: 0, supported: 0, unsupported: 0, members_with_unsupported: 0, raf_at_risk: 0, revenue_at_risk: 0 };
+  const byHCC = {};
+  const byReason = {};
+  const rows = [];
+
+  members.forEach((m) => {
+    const result = scoreHCCSupport(m, claimsByMember, modelId, year);
+    result.hccs.forEach((h) => {
+      if (!byHCC[h.hcc]) byHCC[h.hcc] = { hcc: h.hcc, condition: h.condition, coded: 0, unsupported: 0, revenue_at_risk: 0 };
+      byHCC[h.hcc].coded += 1;
+      totals.coded_hccs += 1;
+      if (h.status === 'supported') totals.supported += 1;
+    });
+    if (result.unsupported.length === 0) return;
+    totals.unsupported += result.unsupported.length;
+    totals.members_with_unsupported += 1;
+    totals.raf_at_risk += result.raf_at_risk;
+    totals.revenue_at_risk += result.revenue_at_risk;
+    result.unsupported.forEach((h) => {
+      byHCC[h.hcc].unsupported += 1;
+      byHCC[h.hcc].revenue_at_risk += h.revenue_at_risk;
+      byReason[h.reason_code] = (byReason[h.reason_code] || 0) + 1;
+    });
+    rows.push({
+      member_id: m.member_id,
+      plan_type: m.plan_type,
+      state: m.state,
+      unsupported_hccs: result.unsupported.map((h) => ({
+        hcc: h.hcc,
+        condition: h.condition,
+        reason_code: h.reason_code,
+        support_score: h.support_score,
+        reasons: h.reasons,
+        raf_at_risk: h.raf_at_risk,
+      })),
+      raf_at_risk: result.raf_at_risk,
+      revenue_at_risk: result.revenue_at_risk,
+    });
+  });
+
+  return {
+    payment_year: year,
+    members_evaluated: members.length,
+    totals: {
+      ...totals,
+      unsupported_rate: totals.coded_hccs > 0 ? round3(totals.unsupported / totals.coded_hccs) : null,
+      raf_at_risk: round3(totals.raf_at_risk),
+      revenue_at_risk: round2(totals.revenue_at_risk),
+    },
+    by_hcc: Object.values(byHCC)
+      .map((r) => ({
+        ...r,
+        unsupported_rate: r.coded > 0 ? round3(r.unsupported / r.coded) : null,
+        revenue_at_risk: round2(r.revenue_at_risk),
+      }))
+      .sort((a, b) => b.revenue_at_risk - a.revenue_at_risk),
+    by_reason: byReason,
+    members: rows.sort((a, b) => b.revenue_at_risk - a.revenue_at_risk).slice(0, limit),
+  };
+}
@@ -0,0 +1,205 @@
+/**
+ * Claims Lag Triangles & IBNR
+ * A claim is incurred in its service month and reported in its paid_date month. At a valuation month
+ * (as_of) only claims paid by then are known; the rest of the incurred cost is incurred but not
+ * reported (IBNR). Per claim type, chain ladder:
+ *   triangle           cumulative paid by incurred month × development month (0 = paid in the service
+ *                      month), known cells only; payments later than max_lag fall in the last column
+ *   age-to-age factor  f(k) = Σ C(i, k+1) / Σ C(i, k) over incurred months with both cells known
+ *   completion factor  CF(k) = 1 / Π f(j ≥ k), the share of ultimate cost paid by development month k
+ *   completed cost     paid to date / CF(latest development month);  IBNR = completed − paid
+ * Claims without a paid_date (older uploads) count as paid on the service date. When the data also
+ * holds claims paid after as_of, their cost is returned as actual_runout, so the estimate can be
+ * checked against what was later paid.
+ */
+
+import { isValidMonth } from './eligibility.js';
+
+export const IBNR_CLAIM_TYPES = ['IP', 'OP', 'RX'];
+export const DEFAULT_MAX_LAG = 12;
+
+function round2(v) {
+  return Math.round(v * 100) / 100;
+}
+
+function round4(v) {
+  return Math.round(v * 10000) / 10000;
+}
+
+function monthIndex(month) {
+  return Number(month.slice(0, 4)) * 12 + Number(month.slice(5, 7)) - 1;
+}
+
+function monthLabel(index) {
+  return `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, '0')}`;
+}
+
+/** Reported month of a claim: paid_date, else service_date. */
+function paidMonth(claim) {
+  return (claim.paid_date || claim.service_date).slice(0, 7);
+}
+
+/**
+ * Validates IBNR options. Returns error strings (empty when valid).
+ */
+export function validateIbnrOptions({ as_of, claim_type } = {}) {
+  const errors = [];
+  if (as_of !== undefined && !isValidMonth(as_of)) errors.push('as_of must be YYYY-MM');
+  if (claim_type !== undefined && !IBNR_CLAIM_TYPES.includes(claim_type)) errors.push(`claim_type must be one of ${IBNR_CLAIM_TYPES.join(', ')}`);
+  return errors;
+}
+
+/**
+ * Enrolled member months per calendar month. Members without spans count in every month, matching
+ * the scalar member_months fallback.
+ */
+export function memberMonthsByMonth(members, eligibilityByMember, months) {
+  const counts = Object.fromEntries(months.map((m) => [m, 0]));
+  members.forEach((member) => {
+    const segments = eligibilityByMember[member.member_id];
+    if (!segments || segments.length === 0) {
+      months.forEach((m) => {
+        counts[m] += 1;
+      });
+      return;
+    }
+    segments.forEach((s) => {
+      months.forEach((m) => {
+        if (m >= s.start_month && m <= s.end_month) counts[m] += 1;
+      });
+    });
+  });
+  return counts;
+}
+
+/** Chain ladder for one claim type. incurred: incurred month indexes, oldest first. */
+function chainLadder(claims, incurred, asOfIndex, maxLag) {
+  const rows = new Map(incurred.map((i) => [i, { incremental: new Array(maxLag + 1).fill(0), runout: 0 }]));
+  claims.forEach((c) => {
+    const row = rows.get(monthIndex(c.service_date));
+    if (!row) return;
+    const reported = monthIndex(paidMonth(c));
+    if (reported > asOfIndex) {
+      row.runout += c.allowed_amount;
+      return;
+    }
+    row.incremental[Math.min(Math.max(reported - monthIndex(c.service_date), 0), maxLag)] += c.allowed_amount;
+  });
+
+  // Cumulative paid, known cells only (development months up to the valuation)
+  const triangle = incurred.map((i) => {
+    const known = Math.min(asOfIndex - i, maxLag);
+    let sum = 0;
+    return rows.get(i).incremental.slice(0, known + 1).map((v) => (sum += v));
+  });
+
+  const ageToAge = [];
+  for (let k = 0; k < maxLag; k++) {
+    let num = 0;
+    let den = 0;
+    triangle.forEach((cells) => {
+      if (cells.length > k + 1) {
+        num += cells[k + 1];
+        den += cells[k];
+      }
+    });
+    ageToAge.push(den > 0 ? num / den : 1);
+  }
+  // Development to ultimate from month k; nothing develops after max_lag
+  const toUltimate = new Array(maxLag + 1).fill(1);
+  for (let k = maxLag - 1; k >= 0; k--) toUltimate[k] = toUltimate[k + 1] * ageToAge[k];
+
+  const months = incurred.map((i, n) => {
+    const cells = triangle[n];
+    const lag = cells.length - 1;
+    const paid = cells[lag];
+    const completed = paid * toUltimate[lag];
+    return { month: monthLabel(i), development_month: lag, paid, completed, runout: rows.get(i).runout };
+  });
+
+  return {
+    triangle: incurred.map((i, n) => ({ incurred_month: monthLabel(i), cumulative_paid: triangle[n].map(round2) })),
+    age_to_age: ageToAge.map(round4),
+    completion_factors: toUltimate.map((f) => round4(1 / f)),
+    months,
+  };
+}
+
+/**
+ * IBNR estimate. options: { asOf (YYYY-MM, default latest service month), claimType (one type, default
+ * all), maxLag, memberMonths ({ 'YYYY-MM': member months }) }. Returns { as_of, max_lag, by_type:
+ * { IP: { triangle, age_to_age, completion_factors, totals } }, months: [{ month, paid, ibnr,
+ * completed, completion_pct, actual_runout, member_months, paid_pmpm, completed_pmpm }], totals }.
+ */
+export function estimateIbnr(claims, { asOf, claimType, maxLag = DEFAULT_MAX_LAG, memberMonths = {} } = {}) {
+  const serviceMonths = claims.map((c) => c.service_date.slice(0, 7));
+  const valuation = asOf || serviceMonths.reduce((max, m) => (m > max ? m : max), '');
+  if (!valuation) {
+    return { as_of: null, max_lag: maxLag, claim_type: claimType || null, claims_without_paid_date: 0, by_type: {}, months: [], totals: null };
+  }
+
+  const asOfIndex = monthIndex(valuation);
+  const first = serviceMonths.reduce((min, m) => (m < min ? m : min), valuation);
+  const incurred = [];
+  for (let i = monthIndex(first); i <= asOfIndex; i++) incurred.push(i);
+
+  const types = claimType ? [claimType] : IBNR_CLAIM_TYPES.filter((t) => claims.some((c) => c.claim_type === t));
+  const byMonth = new Map(incurred.map((i) => [monthLabel(i), { paid: 0, completed: 0, runout: 0 }]));
+  const byType = {};
+  types.forEach((type) => {
+    const result = chainLadder(claims.filter((c) => c.claim_type === type), incurred, asOfIndex, maxLag);
+    const totals = { paid: 0, completed: 0 };
+    result.months.forEach((m) => {
+      const row = byMonth.get(m.month);
+      row.paid += m.paid;
+      row.completed += m.completed;
+      row.runout += m.runout;
+      totals.paid += m.paid;
+      totals.completed += m.completed;
+    });
+    byType[type] = {
+      triangle: result.triangle,
+      age_to_age: result.age_to_age,
+      completion_factors: result.completion_factors,
+      totals: { paid: round2(totals.paid), ibnr: round2(totals.completed - totals.paid), completed: round2(totals.completed) },
+    };
+  });
+
+  const totals = { paid: 0, completed: 0, runout: 0, member_months: 0 };
+  const months = [...byMonth.entries()].map(([month, row]) => {
+    const mm = memberMonths[month] ?? 0;
+    totals.paid += row.paid;
+    totals.completed += row.completed;
+    totals.runout += row.runout;
+    totals.member_months += mm;
+    return {
+      month,
+      paid: round2(row.paid),
+      ibnr: round2(row.completed - row.paid),
+      completed: round2(row.completed),
+      completion_pct: row.completed > 0 ? round4(row.paid / row.completed) : null,
+      actual_runout: round2(row.runout),
+      member_months: mm,
+      paid_pmpm: mm > 0 ? round2(row.paid / mm) : null,
+      completed_pmpm: mm > 0 ? round2(row.completed / mm) : null,
+    };
+  });
+
+  return {
+    as_of: valuation,
+    max_lag: maxLag,
+    claim_type: claimType || null,
+    claims_without_paid_date: claims.filter((c) => !c.paid_date).length,
+    by_type: byType,
+    months,
+    totals: {
+      paid: round2(totals.paid),
+      ibnr: round2(totals.completed - totals.paid),
+      completed: round2(totals.completed),
+      actual_runout: round2(totals.runout),
+      member_months: totals.member_months,
+      paid_pmpm: totals.member_months > 0 ? round2(totals.paid / totals.member_months) : null,
+      completed_pmpm: totals.member_months > 0 ? round2(totals.completed / totals.member_months) : null,
+    },
+  };
+}
@@ -11,17 +11,77 @@ import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
 import {
   computeRAF,
-  computeSuspectHCCs,
+  computeRAFBreakdown,
+  getCodedHCCs,
+  getHCCSupport,
   computeRiskAdjRevenue,
-  HCC_WEIGHTS,
-  BASE_RATE_PMPM,
-  getDemographicRAF,
+  resolveModel,
+  CURRENT_PAYMENT_YEAR,
 } from './risk-adjustment.js';
+import { DEFAULT_MODEL_ID, hasModel, listModels } from './model-registry.js';
 import { runAgent, runAgentBatch } from './risk-adjustment-agent.js';
+import { getSuspectRules, validateSuspectRules, dryRunSuspectRules } from './suspect-rules.js';
+import { buildSuspectMap, summarizeSuspects, reconcileSuspectEngines } from './suspect-pipeline.js';
+import { getSuspectCalibration, setSuspectCalibration, resetSuspectCalibration } from './suspect-calibration.js';
+import { runSuspectBacktest } from './suspect-backtest.js';
+import { computeUnsupportedReport } from './hcc-support.js';
+import {
+  loadWorklist,
+  isWorklistSynced,
+  syncWorklist,
+  listWorklist,
+  getWorklistItem,
+  getWorklistSummary,
+  assignWorklistItem,
+  transitionWorklistItem,
+  WORKLIST_SORTS,
+} from './worklist.js';
 import { runOrchestrator } from './orchestrator.js';
-import { runChatQuery } from './chat-orchestrator.js';
+import { getCompliancePolicy, setCompliancePolicy, resetCompliancePolicy } from './compliance-agent.js';
+import { runRadvSimulation, validateRadvOptions } from './radv-audit.js';
+import { projectFinancials, validateProjectionAssumptions } from './finance-impact-agent.js';
+import { optimizeChartReviews, validateOptimizerOptions } from './review-optimizer.js';
+import { detectClaimAnomalies, summarizeClaimAnomalies, ANOMALY_FLAGS } from './claim-anomalies.js';
+import { computeUtilization } from './utilization.js';
+import { estimateIbnr, memberMonthsByMonth, validateIbnrOptions } from './ibnr.js';
+import { computePnL, listPnLMembers, DEFAULT_ADMIN_PCT, PNL_GROUPINGS, PNL_GROUPING_ALIASES, PNL_MEMBER_SORTS } from './pnl.js';
+import { AUDIT_SCOPES, loadAuditLog, queryAuditLog, recordPopulationDecision, verifyAuditLog } from './audit-log.js';
+import { runChatQuery, screenChatResponse } from './chat-orchestrator.js';
+import { computeRiskTransfer } from './risk-transfer.js';
+import { computeRecapture } from './recapture.js';
+import {
+  buildProviderIndex,
+  attributeMembers,
+  groupByProvider,
+  buildProviderScorecards,
+  buildScorecard,
+  scorePanelMembers,
+} from './providers.js';
+import {
+  buildEligibilityByMember,
+  applyEligibility,
+  filterEnrolled,
+  getPaymentYearClaims,
+  isValidMonth,
+  memberMonthsInRange,
+} from './eligibility.js';
+import {
+  buildPremiumMap,
+  getPremiumRates,
+  resetPremiumRates,
+  resolveRates,
+  setPremiumRates,
+  sumPremium,
+  validatePremiumRates,
+} from './premium-rating.js';
 import { buildDataContextSummary, runChatWithLLM } from './chat-llm.js';
-import { validateUpload, runUploadAnalysis, parseMembersCsv, parseClaimsCsv } from './upload-analyzer.js';
+import {
+  validateUpload,
+  runUploadAnalysis,
+  parseMembersCsv,
+  parseClaimsCsv,
+  parseEligibilityCsv,
+} from './upload-analyzer.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -35,34 +95,137 @@ function loadData() {
   for (const dir of dirsToTry) {
     const membersPath = join(dir, 'members.json');
     const claimsPath = join(dir, 'claims.json');
+    // Eligibility spans and the provider roster are optional
+    const eligibilityPath = join(dir, 'eligibility.json');
+    const providersPath = join(dir, 'providers.json');
     if (existsSync(membersPath) && existsSync(claimsPath)) {
       return {
         members: JSON.parse(readFileSync(membersPath, 'utf-8')),
         claims: JSON.parse(readFileSync(claimsPath, 'utf-8')),
+        eligibility: existsSync(eligibilityPath) ? JSON.parse(readFileSync(eligibilityPath, 'utf-8')) : [],
+        providers: existsSync(providersPath) ? JSON.parse(readFileSync(providersPath, 'utf-8')) : [],
       };
     }
   }
   if (process.env.VERCEL) {
     console.warn('Missing data on Vercel. Ensure buildCommand includes: npm run generate-data');
-    return { members: [], claims: [] };
+    return { members: [], claims: [], eligibility: [], providers: [] };
   }
   console.error('Missing data files. Run: npm run generate-data');
   process.exit(1);
 }
 
-const { members, claims } = loadData();
+const data = loadData();
+const eligibilityByMember = buildEligibilityByMember(data.eligibility);
+const members = applyEligibility(data.members, eligibilityByMember, CURRENT_PAYMENT_YEAR);
+const { claims } = data;
 const claimByMember = {};
 claims.forEach((c) => {
   if (!claimByMember[c.member_id]) claimByMember[c.member_id] = [];
   claimByMember[c.member_id].push(c);
 });
-
-const memberRAF = {};
-const memberSuspects = {};
+// Claims cost against payment-year premium and risk revenue: payment-year claims in enrolled months
+const paymentYearClaimByMember = {};
 members.forEach((m) => {
-  memberRAF[m.member_id] = computeRAF(m, claimByMember);
-  memberSuspects[m.member_id] = computeSuspectHCCs(m, claimByMember);
+  paymentYearClaimByMember[m.member_id] = getPaymentYearClaims(claimByMember[m.member_id], eligibilityByMember[m.member_id], CURRENT_PAYMENT_YEAR);
 });
+const paymentYearClaims = Object.values(paymentYearClaimByMember).flat();
+
+// RAF and pipeline suspects (Risk Agent) per risk model, computed on first use
+const modelScores = {};
+function getModelScores(modelId = DEFAULT_MODEL_ID) {
+  if (!modelScores[modelId]) {
+    const rafMap = {};
+    members.forEach((m) => {
+      rafMap[m.member_id] = computeRAF(m, claimByMember, modelId);
+    });
+    modelScores[modelId] = { memberRAF: rafMap, memberSuspects: buildSuspectMap(members, claimByMember, modelId) };
+  }
+  return modelScores[modelId];
+}
+
+getModelScores(DEFAULT_MODEL_ID);
+
+// PCP attribution from OP visit patterns; provider scorecards per risk model, computed on first use
+const providersById = buildProviderIndex(data.providers);
+const memberAttribution = attributeMembers(members, claimByMember, providersById);
+const providerScores = {};
+function getProviderScores(modelId = DEFAULT_MODEL_ID) {
+  if (!providerScores[modelId]) {
+    const { memberRAF: rafMap, memberSuspects: suspectMap } = getModelScores(modelId);
+    const context = {
+      attribution: memberAttribution,
+      suspectsByMember: suspectMap,
+      memberRAF: rafMap,
+      claimsByMember: claimByMember,
+      modelId,
+      eligibilityByMember,
+    };
+    providerScores[modelId] = { context, scorecards: buildProviderScorecards(members, providersById, context) };
+  }
+  return providerScores[modelId];
+}
+
+// Suspect confidences change with the active calibration (counts and uplift do not); maps are
+// updated in place so references held elsewhere stay current. Provider scorecards are rebuilt on
+// next use and a synced worklist is re-synced so open items carry the new confidences.
+function refreshSuspectScores(audit) {
+  Object.entries(modelScores).forEach(([modelId, scores]) => {
+    Object.assign(scores.memberSuspects, buildSuspectMap(members, claimByMember, modelId));
+  });
+  Object.keys(providerScores).forEach((modelId) => delete providerScores[modelId]);
+  if (isWorklistSynced()) {
+    syncWorklist(members, claimByMember, {
+      modelId: getWorklistSummary().model_id || DEFAULT_MODEL_ID,
+      premiumMap: getMemberPremiums(),
+      costClaimsByMember: paymentYearClaimByMember,
+      audit,
+    });
+  }
+}
+
+// Coder worklist file; on Vercel only /tmp is writable (items then last as long as the instance)
+loadWorklist(process.env.WORKLIST_PATH || (process.env.VERCEL ? '/tmp/worklist.json' : join(DATA_DIR, 'worklist.json')));
+
+// Agent decision audit log (append-only, hash-chained); /tmp on Vercel like the worklist
+loadAuditLog(process.env.AUDIT_LOG_PATH || (process.env.VERCEL ? '/tmp/audit-log.jsonl' : join(DATA_DIR, 'audit-log.jsonl')));
+
+// Rated premium per member; rebuilt when POST / DELETE /api/premium-rates swaps the table
+let premiumCache = { rates: null, map: {} };
+function getMemberPremiums() {
+  const rates = getPremiumRates();
+  if (premiumCache.rates !== rates) {
+    premiumCache = { rates, map: buildPremiumMap(members, eligibilityByMember, rates, CURRENT_PAYMENT_YEAR) };
+  }
+  return premiumCache.map;
+}
+
+// Claims are loaded once, so anomaly scoring runs on first use and is reused
+let claimAnomalies = null;
+function getClaimAnomalies() {
+  if (!claimAnomalies) claimAnomalies = detectClaimAnomalies(claims);
+  return claimAnomalies;
+}
+
+/** Audit context for member-level orchestrator calls: the route plus the X-Actor header. */
+function getAuditContext(req, caller) {
+  return { caller, actor: req.get('X-Actor') || null };
+}
+
+/** Logs a population roll-up built from orchestrator decisions as one audit entry. */
+function auditRollup(req, caller, summary, modelId = DEFAULT_MODEL_ID, params = {}) {
+  recordPopulationDecision(summary, { memberIds: members.map((m) => m.member_id), modelId, params }, getAuditContext(req, caller));
+}
+
+/** Reads ?model=, defaulting to the registry default. Sends 400 and returns null for unknown ids. */
+function getRequestedModel(req, res) {
+  const modelId = req.query.model || DEFAULT_MODEL_ID;
+  if (!hasModel(modelId)) {
+    res.status(400).json({ error: 'Unknown model', model: modelId });
+    return null;
+  }
+  return modelId;
+}
 
 const app = express();
 app.use(cors());
@@ -95,12 +258,19 @@ app.get('/api/health', (req, res) => {
   });
 });
 
+// --- RISK MODELS ---
+
+app.get('/api/models', (req, res) => {
+  res.json({ models: listModels(), default: DEFAULT_MODEL_ID });
+});
+
 // --- DASHBOARD ---
 
-function getExecutiveSummary() {
+function getExecutiveSummary(modelId) {
+  const premiumMap = getMemberPremiums();
   const results = members.map((m) => {
-    const claimsForMember = claimByMember[m.member_id] || [];
-    return runOrchestrator(m, claimByMember, claimsForMember);
+    const claimsForMember = paymentYearClaimByMember[m.member_id] || [];
+    return runOrchestrator(m, claimByMember, claimsForMember, modelId, premiumMap[m.member_id]);
   });
   const withSuspects = results.filter((r) => r.suspect_hccs.length > 0);
   const totalRafLeakage = withSuspects.reduce((s, r) => s + r.suspect_hccs.reduce((u, h) => u + (h.raf_uplift || 0), 0), 0);
@@ -126,22 +296,46 @@ function getExecutiveSummary() {
   };
 }
 
-function getRiskRevenueByPlan(membersList) {
+function getRiskRevenueByPlan(membersList, rafMap, modelId) {
   const byPlan = {};
   membersList.forEach((m) => {
     const plan = m.plan_type || 'Unknown';
-    const rev = computeRiskAdjRevenue(memberRAF[m.member_id] ?? 0.5, m.member_months || 12);
+    const rev = computeRiskAdjRevenue(rafMap[m.member_id] ?? 0.5, m.member_months ?? 12, modelId);
     byPlan[plan] = (byPlan[plan] || 0) + rev;
   });
   return Object.entries(byPlan).map(([plan_type, total]) => ({ plan_type, total: Math.round(total * 100) / 100 }));
 }
 
-function getRAFByPlanType(membersList) {
+/** Premium, claims, risk revenue and raw / risk-adjusted MLR per plan. */
+function getMLRByPlan(membersList, premiumMap, rafMap, modelId) {
+  const byPlan = {};
+  membersList.forEach((m) => {
+    const plan = m.plan_type || 'Unknown';
+    if (!byPlan[plan]) byPlan[plan] = { premium: 0, claims: 0, riskRev: 0, members: 0 };
+    byPlan[plan].premium += premiumMap[m.member_id] ?? 0;
+    byPlan[plan].claims += (paymentYearClaimByMember[m.member_id] || []).reduce((s, c) => s + c.allowed_amount, 0);
+    byPlan[plan].riskRev += computeRiskAdjRevenue(rafMap[m.member_id] ?? 0.5, m.member_months ?? 12, modelId);
+    byPlan[plan].members += 1;
+  });
+  return Object.entries(byPlan)
+    .map(([plan_type, d]) => ({
+      plan_type,
+      members: d.members,
+      premium: Math.round(d.premium * 100) / 100,
+      claims: Math.round(d.claims * 100) / 100,
+      riskAdjRevenue: Math.round(d.riskRev * 100) / 100,
+      mlr: d.premium > 0 ? Math.round((d.claims / d.premium) * 1000) / 1000 : 0,
+      riskAdjustedMLR: d.premium + d.riskRev > 0 ? Math.round((d.claims / (d.premium + d.riskRev)) * 1000) / 1000 : 0,
+    }))
+    .sort((a, b) => a.plan_type.localeCompare(b.plan_type));
+}
+
+function getRAFByPlanType(membersList, rafMap) {
   const byPlan = {};
   membersList.forEach((m) => {
     const plan = m.plan_type || 'Unknown';
     if (!byPlan[plan]) byPlan[plan] = { sum: 0, count: 0 };
-    byPlan[plan].sum += memberRAF[m.member_id] ?? 0.5;
+    byPlan[plan].sum += rafMap[m.member_id] ?? 0.5;
     byPlan[plan].count += 1;
   });
   return Object.entries(byPlan).map(([plan_type, { sum, count }]) => ({
@@ -151,12 +345,12 @@ function getRAFByPlanType(membersList) {
   }));
 }
 
-function getRAFByState(membersList) {
+function getRAFByState(membersList, rafMap) {
   const byState = {};
   membersList.forEach((m) => {
     const state = m.state || 'Unknown';
     if (!byState[state]) byState[state] = { sum: 0, count: 0 };
-    byState[state].sum += memberRAF[m.member_id] ?? 0.5;
+    byState[state].sum += rafMap[m.member_id] ?? 0.5;
     byState[state].count += 1;
   });
   return Object.entries(byState)
@@ -201,12 +395,17 @@ function getRiskDistribution(membersList) {
 }
 
 app.get('/api/dashboard', (req, res) => {
+  const modelId = getRequestedModel(req, res);
+  if (!modelId) return;
+  const model = resolveModel(modelId);
+  const { memberRAF, memberSuspects } = getModelScores(modelId);
   const totalMembers = members.length;
   const activeClaims = claims.filter(
     (c) => new Date(c.service_date) >= new Date(Date.now() - 90 * 24 * 60 * 60 * 1000)
   ).length;
-  const totalAllowed = claims.reduce((s, c) => s + c.allowed_amount, 0);
-  const totalPremium = totalMembers * 15000;
+  const totalAllowed = paymentYearClaims.reduce((s, c) => s + c.allowed_amount, 0);
+  const premiumMap = getMemberPremiums();
+  const totalPremium = sumPremium(members, premiumMap);
   const rawMLR = totalPremium > 0 ? totalAllowed / totalPremium : 0;
   const highRiskThreshold = 0.7;
   const highRiskCount = members.filter((m) => m.risk_score >= highRiskThreshold).length;
@@ -215,62 +414,136 @@ app.get('/api/dashboard', (req, res) => {
   const avgRAF = rafValues.reduce((a, b) => a + b, 0) / totalMembers;
   const highRAFCount = members.filter((m) => (memberRAF[m.member_id] ?? 0) > 1.2).length;
   const totalRiskAdjRevenue = members.reduce(
-    (s, m) => s + computeRiskAdjRevenue(memberRAF[m.member_id] ?? 0.5, m.member_months || 12),
+    (s, m) => s + computeRiskAdjRevenue(memberRAF[m.member_id] ?? 0.5, m.member_months ?? 12, modelId),
     0
   );
-  const totalSuspectUplift = members.reduce((s, m) => {
-    const suspects = memberSuspects[m.member_id] || [];
-    const uplift = suspects.reduce((u, x) => u + x.weight, 0);
-    return s + uplift * BASE_RATE_PMPM * (m.member_months || 12);
-  }, 0);
-  const suspectHCCCount = members.reduce((s, m) => s + (memberSuspects[m.member_id] || []).length, 0);
-  const agentResults = runAgentBatch(members, claimByMember, members.length);
-  const agentSuspectCount = agentResults.reduce((s, r) => s + r.suspect_hccs.length, 0);
-  let agentRafUplift = 0;
-  let agentRevenueUplift = 0;
-  agentResults.forEach((r) => {
-    r.suspect_hccs.forEach((h) => {
-      agentRafUplift += h.raf_uplift;
-      agentRevenueUplift += h.revenue_uplift_estimate;
-    });
-  });
+  const suspectTotals = summarizeSuspects(members, memberSuspects);
   const adjustedPremium = totalPremium + totalRiskAdjRevenue;
   const riskAdjustedMLR = adjustedPremium > 0 ? totalAllowed / adjustedPremium : rawMLR;
   const mlrImprovementBps = Math.round((riskAdjustedMLR - rawMLR) * 10000);
+  const executive = getExecutiveSummary(modelId);
+  auditRollup(req, 'GET /api/dashboard', executive, modelId);
 
   res.json({
+    model: { id: model.id, version: model.version },
     kpis: {
       totalMembers,
       activeClaims,
+      totalPremium: Math.round(totalPremium * 100) / 100,
       mlr: Math.round(rawMLR * 1000) / 1000,
       highRiskPct: ((highRiskCount / totalMembers) * 100).toFixed(1),
       avgCostPerMember: Math.round(avgCostPerMember * 100) / 100,
       avgRAF: Math.round(avgRAF * 1000) / 1000,
       highRAFPct: ((highRAFCount / totalMembers) * 100).toFixed(1),
       riskAdjRevenue: Math.round(totalRiskAdjRevenue * 100) / 100,
-      suspectRAFUplift: Math.round(totalSuspectUplift * 100) / 100,
-      suspectHCCCount,
-      agentSuspectHCCCount: agentSuspectCount,
-      agentPotentialRafUplift: Math.round(agentRafUplift * 1000) / 1000,
-      agentPotentialRevenueUplift: Math.round(agentRevenueUplift * 100) / 100,
+      ...suspectTotals,
       riskAdjustedMLR: Math.round(riskAdjustedMLR * 1000) / 1000,
       mlrImprovementBps,
     },
     claimsOverTime: getClaimsOverTime(claims),
     costByPlanType: getCostByPlanType(members, claims),
     riskDistribution: getRiskDistribution(members),
-    rafByPlanType: getRAFByPlanType(members),
-    rafByState: getRAFByState(members),
-    riskRevenueByPlan: getRiskRevenueByPlan(members),
-    executive: getExecutiveSummary(),
+    rafByPlanType: getRAFByPlanType(members, memberRAF),
+    rafByState: getRAFByState(members, memberRAF),
+    riskRevenueByPlan: getRiskRevenueByPlan(members, memberRAF, modelId),
+    mlrByPlan: getMLRByPlan(members, premiumMap, memberRAF, modelId),
+    premiumRatesVersion: getPremiumRates().version,
+    executive,
+  });
+});
+
+// --- RISK TRANSFER (ACA) ---
+
+app.get('/api/risk-transfer', (req, res) => {
+  const modelId = getRequestedModel(req, res);
+  if (!modelId) return;
+  const { memberRAF } = getModelScores(modelId);
+  const { state, plan_type } = req.query;
+  // Transfers depend on every plan in the state market, so filter markets, not members within them
+  const marketMembers = state ? members.filter((m) => m.state === state) : members;
+  const result = computeRiskTransfer(marketMembers, memberRAF, eligibilityByMember);
+  if (plan_type) {
+    result.states = result.states.map((s) => ({ ...s, plans: s.plans.filter((p) => p.plan_type === plan_type) }));
+    result.plans = result.plans.filter((p) => p.plan_type === plan_type);
+  }
+  res.json({ model: { id: modelId }, ...result });
+});
+
+// --- HCC RECAPTURE ---
+
+app.get('/api/recapture', (req, res) => {
+  const modelId = getRequestedModel(req, res);
+  if (!modelId) return;
+  const currentYear = req.query.year ? parseInt(req.query.year) : CURRENT_PAYMENT_YEAR;
+  if (!Number.isInteger(currentYear) || currentYear < 1900 || currentYear > 2100) {
+    return res.status(400).json({ error: 'year must be a 4-digit year between 1900 and 2100' });
+  }
+  const { state, plan_type } = req.query;
+  let result = members;
+  if (state) result = result.filter((m) => m.state === state);
+  if (plan_type) result = result.filter((m) => m.plan_type === plan_type);
+  res.json({ model: { id: modelId }, ...computeRecapture(result, claimByMember, { currentYear, modelId, eligibilityByMember }) });
+});
+
+// --- PROVIDER SCORECARDS ---
+
+const PROVIDER_SORTS = ['revenue_at_risk', 'suspect_hccs', 'attributed_members', 'recapture_rate'];
+
+app.get('/api/providers', (req, res) => {
+  const modelId = getRequestedModel(req, res);
+  if (!modelId) return;
+  const { state, specialty } = req.query;
+  const sort = req.query.sort || 'revenue_at_risk';
+  if (!PROVIDER_SORTS.includes(sort)) return res.status(400).json({ error: `sort must be one of ${PROVIDER_SORTS.join(', ')}` });
+  let result = getProviderScores(modelId).scorecards;
+  if (state) result = result.filter((p) => p.state === state);
+  if (specialty) result = result.filter((p) => p.specialty === specialty);
+  // Lowest recapture rate first (worst performers); other metrics highest first
+  result = [...result].sort((a, b) =>
+    sort === 'recapture_rate' ? (a.recapture_rate ?? 2) - (b.recapture_rate ?? 2) : b[sort] - a[sort]
+  );
+  const limit = Math.min(parseInt(req.query.limit) || 100, 500);
+  res.json({
+    model: { id: modelId },
+    providers: result.slice(0, limit),
+    total: result.length,
+    attributed_members: Object.keys(memberAttribution).length,
+    unattributed_members: members.length - Object.keys(memberAttribution).length,
+  });
+});
+
+app.get('/api/providers/:id', (req, res) => {
+  const modelId = getRequestedModel(req, res);
+  if (!modelId) return;
+  const provider = providersById[req.params.id];
+  if (!provider) return res.status(404).json({ error: 'Provider not found' });
+  const { context } = getProviderScores(modelId);
+  const panel = groupByProvider(members, memberAttribution)[provider.provider_id] || [];
+  const panelMembers = scorePanelMembers(panel, context).sort((a, b) => b.revenue_at_risk - a.revenue_at_risk);
+  res.json({
+    model: { id: modelId },
+    provider,
+    scorecard: buildScorecard(provider, panel, context),
+    members: panelMembers,
   });
 });
 
 // --- MEMBER EXPLORER ---
 
+/** Validates optional enrolled_from / enrolled_to (YYYY-MM) query params. */
+function getEnrollmentRangeError(from, to) {
+  if (from && !isValidMonth(from)) return 'enrolled_from must be YYYY-MM';
+  if (to && !isValidMonth(to)) return 'enrolled_to must be YYYY-MM';
+  if (from && to && to < from) return 'enrolled_to must not precede enrolled_from';
+  return null;
+}
+
 app.get('/api/members', (req, res) => {
   let result = [...members];
-  const { state, plan_type, risk_min, risk_max, chronic } = req.query;
+  const { state, plan_type, risk_min, risk_max, chronic, enrolled_from, enrolled_to } = req.query;
+  const rangeError = getEnrollmentRangeError(enrolled_from, enrolled_to);
+  if (rangeError) return res.status(400).json({ error: rangeError });
+  result = filterEnrolled(result, eligibilityByMember, enrolled_from, enrolled_to);
   if (state) result = result.filter((m) => m.state === state);
   if (plan_type) result = result.filter((m) => m.plan_type === plan_type);
   if (risk_min != null) result = result.filter((m) => m.risk_score >= parseFloat(risk_min));
@@ -287,49 +560,87 @@ app.get('/api/members/:id', (req, res) => {
   if (process.env.VERCEL && members.length === 0) {
     return res.status(503).json({ error: 'Data not loaded', code: 'DATA_NOT_LOADED' });
   }
+  const modelId = getRequestedModel(req, res);
+  if (!modelId) return;
+  const model = resolveModel(modelId);
+  const { memberRAF, memberSuspects } = getModelScores(modelId);
   const member = members.find((m) => m.member_id === req.params.id);
   if (!member) return res.status(404).json({ error: 'Member not found' });
   const memberClaims = (claimByMember[member.member_id] || [])
     .sort((a, b) => new Date(b.service_date) - new Date(a.service_date))
     .slice(0, 20);
   const totalCost = memberClaims.reduce((s, c) => s + c.allowed_amount, 0);
-  const raf = memberRAF[member.member_id] ?? computeRAF(member, claimByMember);
-  const demographicRAF = getDemographicRAF(member.age, member.gender);
-  const hccRAF = (member.hcc_codes || []).reduce((s, code) => s + (HCC_WEIGHTS[code] || 0), 0);
-  const hccList = (member.hcc_codes || []).map((code) => ({ code, weight: HCC_WEIGHTS[code] || 0 }));
+  const breakdown = computeRAFBreakdown(member, claimByMember, modelId);
+  const raf = memberRAF[member.member_id] ?? breakdown.total;
+  const droppedBy = Object.fromEntries(breakdown.dropped_hccs.map((d) => [d.code, d.dropped_by]));
+  const hccSupport = getHCCSupport(member, claimByMember);
+  const codedHCCs = getCodedHCCs(member, claimByMember);
+  const hccList = codedHCCs.map((code) => ({
+    code,
+    weight: model.hcc_weights[code] || 0,
+    dropped_by: droppedBy[code] ?? null,
+    supporting_claims: hccSupport?.[code] ?? [],
+  }));
   const suspects = memberSuspects[member.member_id] || [];
-  const memberMonths = member.member_months || 12;
-  const riskAdjRevenueMember = computeRiskAdjRevenue(raf, memberMonths);
-  const agentOutput = runAgent(member, claimByMember);
-  const allMemberClaims = claimByMember[member.member_id] || [];
-  const orchestrated = runOrchestrator(member, claimByMember, allMemberClaims);
+  const memberMonths = member.member_months ?? 12;
+  const riskAdjRevenueMember = computeRiskAdjRevenue(raf, memberMonths, modelId);
+  const agentOutput = runAgent(member, claimByMember, modelId);
+  const premium = getMemberPremiums()[member.member_id];
+  const orchestrated = runOrchestrator(member, claimByMember, paymentYearClaimByMember[member.member_id] || [], modelId, premium, getAuditContext(req, 'GET /api/members/:id'));
 
   res.json({
     ...member,
+    hcc_codes: codedHCCs,
+    eligibility: eligibilityByMember[member.member_id] || [],
+    attributed_provider: memberAttribution[member.member_id]
+      ? { ...memberAttribution[member.member_id], name: providersById[memberAttribution[member.member_id].provider_id]?.name ?? null }
+      : null,
+    model: { id: model.id, version: model.version },
     recent_claims: memberClaims,
     total_claim_cost: Math.round(totalCost * 100) / 100,
     raf,
-    rafBreakdown: { demographic: demographicRAF, hcc: hccRAF, total: raf },
+    rafBreakdown: {
+      demographic: breakdown.demographic,
+      hcc: breakdown.hcc,
+      interaction: breakdown.interaction,
+      count: breakdown.count,
+      total: raf,
+      dropped_hccs: breakdown.dropped_hccs,
+      interactions: breakdown.interactions,
+      hcc_count: breakdown.hcc_count,
+    },
     hccList,
     suspectedHCCs: suspects,
     agent_output: agentOutput,
     orchestrated_output: orchestrated,
     risk_adj_revenue: Math.round(riskAdjRevenueMember * 100) / 100,
+    premium,
   });
 });
 
 app.get('/api/orchestrator/member/:id', (req, res) => {
   const member = members.find((m) => m.member_id === req.params.id);
   if (!member) return res.status(404).json({ error: 'Member not found' });
-  const memberClaims = claimByMember[member.member_id] || [];
-  const output = runOrchestrator(member, claimByMember, memberClaims);
+  const modelId = getRequestedModel(req, res);
+  if (!modelId) return;
+  const output = runOrchestrator(
+    member,
+    claimByMember,
+    paymentYearClaimByMember[member.member_id] || [],
+    modelId,
+    getMemberPremiums()[member.member_id],
+    getAuditContext(req, 'GET /api/orchestrator/member/:id')
+  );
   res.json(output);
 });
 
 app.get('/api/orchestrator/summary', (req, res) => {
+  const modelId = getRequestedModel(req, res);
+  if (!modelId) return;
+  const premiumMap = getMemberPremiums();
   const results = members.map((m) => {
-    const claimsForMember = claimByMember[m.member_id] || [];
-    return runOrchestrator(m, claimByMember, claimsForMember);
+    const claimsForMember = paymentYearClaimByMember[m.member_id] || [];
+    return runOrchestrator(m, claimByMember, claimsForMember, modelId, premiumMap[m.member_id]);
   });
   const withSuspects = results.filter((r) => r.suspect_hccs.length > 0);
   const totalRafLeakage = withSuspects.reduce((s, r) => s + r.suspect_hccs.reduce((u, h) => u + (h.raf_uplift || 0), 0), 0);
@@ -347,65 +658,142 @@ app.get('/api/orchestrator/summary', (req, res) => {
     .map(([state, rev]) => ({ state, revenue_at_risk: Math.round(rev * 100) / 100 }))
     .sort((a, b) => b.revenue_at_risk - a.revenue_at_risk)
     .slice(0, 10);
-  res.json({
+  const summary = {
     totalSuspectRafLeakage: Math.round(totalRafLeakage * 1000) / 1000,
     revenueAtRisk: Math.round(revenueAtRisk * 100) / 100,
     complianceClearedPct: Math.round(complianceClearedPct * 10) / 10,
     top10RiskLeakageStates: top10States,
     membersWithSuspects: withSuspects.length,
-  });
+  };
+  auditRollup(req, 'GET /api/orchestrator/summary', summary, modelId);
+  res.json({ model: { id: modelId }, ...summary });
 });
 
 // --- CLAIMS ---
 
 app.get('/api/claims', (req, res) => {
   let result = [...claims];
-  const { date_from, date_to, claim_type, cost_min, state } = req.query;
+  const { date_from, date_to, claim_type, cost_min, state, enrolled_from, enrolled_to, flagged, flag } = req.query;
+  const rangeError = getEnrollmentRangeError(enrolled_from, enrolled_to);
+  if (rangeError) return res.status(400).json({ error: rangeError });
+  if (flag && !ANOMALY_FLAGS.includes(flag)) return res.status(400).json({ error: `flag must be one of ${ANOMALY_FLAGS.join(', ')}` });
+  let population = filterEnrolled(members, eligibilityByMember, enrolled_from, enrolled_to);
+  if (state) population = population.filter((m) => m.state === state);
   if (date_from) result = result.filter((c) => c.service_date >= date_from);
   if (date_to) result = result.filter((c) => c.service_date <= date_to);
   if (claim_type) result = result.filter((c) => c.claim_type === claim_type);
   if (cost_min != null) result = result.filter((c) => c.allowed_amount >= parseFloat(cost_min));
-  if (state) {
-    const memberIds = new Set(members.filter((m) => m.state === state).map((m) => m.member_id));
+  if (state || enrolled_from || enrolled_to) {
+    const memberIds = new Set(population.map((m) => m.member_id));
     result = result.filter((c) => memberIds.has(c.member_id));
   }
   const totalAllowed = result.reduce((s, c) => s + c.allowed_amount, 0);
-  const memberCount = new Set(result.map((c) => c.member_id)).size;
-  const pmpm = memberCount > 0 ? totalAllowed / memberCount : 0;
+  // PMPM: allowed and enrolled months of the population inside both the date and enrollment ranges
+  const monthFrom = [date_from?.slice(0, 7), enrolled_from].filter(Boolean).sort().pop();
+  const monthTo = [date_to?.slice(0, 7), enrolled_to].filter(Boolean).sort()[0];
+  const windowAllowed = result
+    .filter((c) => (!monthFrom || c.service_date.slice(0, 7) >= monthFrom) && (!monthTo || c.service_date.slice(0, 7) <= monthTo))
+    .reduce((s, c) => s + c.allowed_amount, 0);
+  const memberMonths = population.reduce(
+    (s, m) => s + memberMonthsInRange(m, eligibilityByMember[m.member_id], monthFrom, monthTo),
+    0
+  );
+  const pmpm = memberMonths > 0 ? windowAllowed / memberMonths : 0;
   const amounts = result.map((c) => c.allowed_amount).sort((a, b) => a - b);
   const p95 = amounts.length > 0 ? amounts[Math.floor(amounts.length * 0.95)] : 0;
   const outliers = result.filter((c) => c.allowed_amount >= p95);
+  const detection = getClaimAnomalies();
+  const anomalies = summarizeClaimAnomalies(result, detection);
+  // Flagged view: only claims with an anomaly flag (of the given type), highest score first
+  let listed = result;
+  if (flagged === 'true' || flag) {
+    listed = result
+      .filter((c) => detection.flagged.get(c.claim_id)?.flags.some((f) => !flag || f.type === flag))
+      .sort((a, b) => detection.flagged.get(b.claim_id).anomaly_score - detection.flagged.get(a.claim_id).anomaly_score);
+  }
   const page = parseInt(req.query.page) || 1;
   const limit = Math.min(parseInt(req.query.limit) || 50, 100);
   const start = (page - 1) * limit;
-  const paginated = result.slice(start, start + limit);
+  const paginated = listed.slice(start, start + limit).map((c) => {
+    const entry = detection.flagged.get(c.claim_id);
+    return entry ? { ...c, anomaly: entry } : c;
+  });
   res.json({
     claims: paginated,
-    total: result.length,
+    total: listed.length,
     page,
     limit,
     metrics: {
       totalAllowed: Math.round(totalAllowed * 100) / 100,
       pmpm: Math.round(pmpm * 100) / 100,
+      memberMonths,
       outlierCount: outliers.length,
       p95Threshold: Math.round(p95 * 100) / 100,
     },
+    anomalies,
   });
 });
 
+/**
+ * Utilization per 1,000 members, ALOS and cost per unit, by month, plan and state. Query: date_from /
+ * date_to (YYYY-MM or YYYY-MM-DD; whole service months), state, plan_type.
+ */
+app.get('/api/claims/utilization', (req, res) => {
+  const { date_from, date_to, state, plan_type } = req.query;
+  const from = date_from ? String(date_from).slice(0, 7) : undefined;
+  const to = date_to ? String(date_to).slice(0, 7) : undefined;
+  if (from && !isValidMonth(from)) return res.status(400).json({ error: 'date_from must be YYYY-MM or YYYY-MM-DD' });
+  if (to && !isValidMonth(to)) return res.status(400).json({ error: 'date_to must be YYYY-MM or YYYY-MM-DD' });
+  if (from && to && to < from) return res.status(400).json({ error: 'date_to must not precede date_from' });
+  res.json({
+    filters: { state: state || null, plan_type: plan_type || null },
+    ...computeUtilization(members, claims, eligibilityByMember, { from, to, state, plan_type }),
+  });
+});
+
+/**
+ * Lag triangles and chain-ladder IBNR by incurred month. Query: as_of (YYYY-MM valuation month,
+ * default latest service month), claim_type, state, plan_type.
+ */
+app.get('/api/claims/ibnr', (req, res) => {
+  const { as_of, claim_type, state, plan_type } = req.query;
+  const errors = validateIbnrOptions({ as_of, claim_type });
+  if (errors.length) return res.status(400).json({ error: 'Invalid IBNR options', details: errors });
+  let population = members;
+  if (state) population = population.filter((m) => m.state === state);
+  if (plan_type) population = population.filter((m) => m.plan_type === plan_type);
+  let result = claims;
+  if (state || plan_type) {
+    const memberIds = new Set(population.map((m) => m.member_id));
+    result = result.filter((c) => memberIds.has(c.member_id));
+  }
+  if (claim_type) result = result.filter((c) => c.claim_type === claim_type);
+  const months = [...new Set(claims.map((c) => c.service_date.slice(0, 7)))].sort();
+  const estimate = estimateIbnr(result, {
+    asOf: as_of,
+    claimType: claim_type,
+    memberMonths: memberMonthsByMonth(population, eligibilityByMember, months),
+  });
+  res.json({ filters: { state: state || null, plan_type: plan_type || null }, ...estimate });
+});
+
 // --- AGENT ---
 
 app.get('/api/agent/member/:id', (req, res) => {
   const member = members.find((m) => m.member_id === req.params.id);
   if (!member) return res.status(404).json({ error: 'Member not found' });
-  const output = runAgent(member, claimByMember);
+  const modelId = getRequestedModel(req, res);
+  if (!modelId) return;
+  const output = runAgent(member, claimByMember, modelId);
   res.json(output);
 });
 
 app.get('/api/agent/batch', (req, res) => {
+  const modelId = getRequestedModel(req, res);
+  if (!modelId) return;
   const limit = Math.min(parseInt(req.query.limit) || 1000, 1000);
   const sortBy = req.query.sort || 'risk';
-  let results = runAgentBatch(members, claimByMember, limit);
+  let results = runAgentBatch(members, claimByMember, limit, modelId);
   if (sortBy === 'leakage') {
     results = results
       .map((r) => ({ ...r, leakage_risk: r.suspect_hccs.reduce((s, h) => s + h.revenue_uplift_estimate, 0) }))
@@ -414,60 +802,311 @@ app.get('/api/agent/batch', (req, res) => {
   res.json({ results, count: results.length });
 });
 
+/**
+ * Budget-constrained chart review selection. Body: { budget, cost_per_chart, confirmation_rates,
+ * limit, state, plan_type }, all optional.
+ */
+app.post('/api/agent/review-optimizer', (req, res) => {
+  const modelId = getRequestedModel(req, res);
+  if (!modelId) return;
+  const { state, plan_type, budget, cost_per_chart, confirmation_rates, limit } = req.body || {};
+  const options = { budget, cost_per_chart, confirmation_rates, limit };
+  const errors = validateOptimizerOptions(options);
+  if (errors.length) return res.status(400).json({ error: 'Invalid optimizer options', details: errors });
+  let list = members;
+  if (state) list = list.filter((m) => m.state === state);
+  if (plan_type) list = list.filter((m) => m.plan_type === plan_type);
+  res.json({ model: { id: modelId }, filters: { state: state || null, plan_type: plan_type || null }, ...optimizeChartReviews(list, getModelScores(modelId).memberSuspects, options, { claimsByMember: claimByMember, modelId }) });
+});
+
 app.get('/api/agent/summary', (req, res) => {
-  const results = runAgentBatch(members, claimByMember, members.length);
-  const totalSuspectHCCs = results.reduce((s, r) => s + r.suspect_hccs.length, 0);
-  let potentialRafUplift = 0;
-  let potentialRevenueUplift = 0;
-  results.forEach((r) => {
-    r.suspect_hccs.forEach((h) => {
-      potentialRafUplift += h.raf_uplift;
-      potentialRevenueUplift += h.revenue_uplift_estimate;
-    });
-  });
-  const byLeakage = [...results]
-    .map((r) => ({
-      member_id: r.member_id,
-      leakage_risk: r.suspect_hccs.reduce((s, h) => s + h.revenue_uplift_estimate, 0),
-      suspect_count: r.suspect_hccs.length,
+  const modelId = getRequestedModel(req, res);
+  if (!modelId) return;
+  const { memberSuspects } = getModelScores(modelId);
+  const totals = summarizeSuspects(members, memberSuspects);
+  const byLeakage = members
+    .map((m) => ({
+      member_id: m.member_id,
+      leakage_risk: (memberSuspects[m.member_id] || []).reduce((s, h) => s + h.revenue_uplift_estimate, 0),
+      suspect_count: (memberSuspects[m.member_id] || []).length,
     }))
     .filter((r) => r.leakage_risk > 0)
     .sort((a, b) => b.leakage_risk - a.leakage_risk)
     .slice(0, 20);
   res.json({
-    totalSuspectHCCs,
-    potentialRafUplift: Math.round(potentialRafUplift * 1000) / 1000,
-    potentialRevenueUplift: Math.round(potentialRevenueUplift * 100) / 100,
-    membersWithSuspects: results.filter((r) => r.suspect_hccs.length > 0).length,
+    totalSuspectHCCs: totals.suspectHCCCount,
+    potentialRafUplift: totals.suspectRafUplift,
+    potentialRevenueUplift: totals.suspectRevenueUplift,
+    membersWithSuspects: totals.membersWithSuspects,
     topLeakageRisk: byLeakage,
   });
 });
 
+/**
+ * Migration sign-off: members the legacy rule set (computeSuspectHCCs) and the suspect
+ * pipeline disagree on, with per-HCC agreement and totals from each engine.
+ */
+app.get('/api/suspects/reconciliation', (req, res) => {
+  const modelId = getRequestedModel(req, res);
+  if (!modelId) return;
+  const { state, plan_type } = req.query;
+  let result = members;
+  if (state) result = result.filter((m) => m.state === state);
+  if (plan_type) result = result.filter((m) => m.plan_type === plan_type);
+  const limit = Math.min(parseInt(req.query.limit) || 100, 500);
+  const report = reconcileSuspectEngines(result, claimByMember, getModelScores(modelId).memberSuspects, {
+    modelId,
+    baseRatePmpm: resolveModel(modelId).base_rate_pmpm,
+    limit,
+  });
+  res.json({ model: { id: modelId }, ...report });
+});
+
+// --- UNSUPPORTED HCCS ---
+
+/**
+ * Deletion risk: submitted HCCs without payment-year face-to-face documentation, with the RAF and
+ * revenue a validation audit would remove.
+ */
+app.get('/api/unsupported-hccs', (req, res) => {
+  const modelId = getRequestedModel(req, res);
+  if (!modelId) return;
+  const { state, plan_type } = req.query;
+  let result = members;
+  if (state) result = result.filter((m) => m.state === state);
+  if (plan_type) result = result.filter((m) => m.plan_type === plan_type);
+  const limit = Math.min(parseInt(req.query.limit) || 100, 500);
+  res.json({ model: { id: modelId }, ...computeUnsupportedReport(result, claimByMember, { modelId, limit }) });
+});
+
+// --- SUSPECT RULES ---
+
+app.get('/api/agent/rules', (req, res) => {
+  res.json(getSuspectRules());
+});
+
+/** Evaluates a draft rule set (request body, same shape as suspect-rules.json) against the population without activating it. */
+app.post('/api/agent/rules/dry-run', (req, res) => {
+  const modelId = getRequestedModel(req, res);
+  if (!modelId) return;
+  const draft = req.body;
+  const errors = validateSuspectRules(draft);
+  if (errors.length) return res.status(400).json({ error: 'Invalid suspect rules', details: errors });
+  res.json({ model: { id: modelId }, ...dryRunSuspectRules(members, claimByMember, draft, resolveModel(modelId)) });
+});
+
+// --- SUSPECT BACK-TEST & CALIBRATION ---
+
+/**
+ * Back-test: rules run on claims before ?cutoff= (YYYY-MM-DD, default start of the current
+ * payment year) and are scored against HCCs coded afterwards. ?fit=1 adds a fitted calibration.
+ */
+app.get('/api/agent/backtest', (req, res) => {
+  const modelId = getRequestedModel(req, res);
+  if (!modelId) return;
+  const cutoff = req.query.cutoff || `${CURRENT_PAYMENT_YEAR}-01-01`;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(cutoff) || Number.isNaN(Date.parse(cutoff))) {
+    return res.status(400).json({ error: 'Invalid cutoff', details: ['cutoff must be a date (YYYY-MM-DD)'] });
+  }
+  const fit = req.query.fit === '1' || req.query.fit === 'true';
+  res.json({ model: { id: modelId }, ...runSuspectBacktest(members, claimByMember, { cutoff, modelId, fit }) });
+});
+
+app.get('/api/agent/calibration', (req, res) => {
+  res.json({ calibration: getSuspectCalibration() });
+});
+
+/** Activates a calibration (e.g. the one returned by the back-test with ?fit=1); the agent uses it from then on. */
+app.post('/api/agent/calibration', (req, res) => {
+  const { errors } = setSuspectCalibration(req.body);
+  if (errors.length) return res.status(400).json({ error: 'Invalid suspect calibration', details: errors });
+  refreshSuspectScores(getAuditContext(req, 'POST /api/agent/calibration'));
+  res.json({ calibration: getSuspectCalibration() });
+});
+
+/** Back to the hand-set rule confidences. */
+app.delete('/api/agent/calibration', (req, res) => {
+  resetSuspectCalibration();
+  refreshSuspectScores(getAuditContext(req, 'DELETE /api/agent/calibration'));
+  res.json({ calibration: null });
+});
+
+// --- COMPLIANCE POLICY ---
+
+app.get('/api/compliance/rules', (req, res) => {
+  res.json(getCompliancePolicy());
+});
+
+/** Replaces the compliance rule packs in memory (no persistence); DELETE reverts to the config file. */
+app.post('/api/compliance/rules', (req, res) => {
+  const { errors } = setCompliancePolicy(req.body);
+  if (errors.length) return res.status(400).json({ error: 'Invalid compliance policy', details: errors });
+  res.json(getCompliancePolicy());
+});
+
+app.delete('/api/compliance/rules', (req, res) => {
+  resetCompliancePolicy();
+  res.json(getCompliancePolicy());
+});
+
+// --- AUDIT LOG ---
+
+function isValidDate(value) {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value));
+}
+
+/** Logged orchestrator decisions, newest first: ?member_id=&caller=&scope=&from=&to= (YYYY-MM-DD, inclusive)&page=&limit= */
+app.get('/api/audit/log', (req, res) => {
+  const { member_id, caller, scope, from, to } = req.query;
+  const errors = [];
+  if (scope && !AUDIT_SCOPES.includes(scope)) errors.push(`scope must be one of ${AUDIT_SCOPES.join(', ')}`);
+  if (from && !isValidDate(from)) errors.push('from must be a date (YYYY-MM-DD)');
+  if (to && !isValidDate(to)) errors.push('to must be a date (YYYY-MM-DD)');
+  if (errors.length === 0 && from && to && from > to) errors.push('from must not be after to');
+  if (errors.length) return res.status(400).json({ error: 'Invalid audit log query', details: errors });
+  const page = parseInt(req.query.page) || 1;
+  const limit = Math.min(parseInt(req.query.limit) || 50, 500);
+  const { entries, total } = queryAuditLog({ member_id, caller, scope, from, to }, { page, limit });
+  res.json({ entries, total, page, limit });
+});
+
+/** Re-walks the hash chain; valid is false with the first broken entry when the file was altered. */
+app.get('/api/audit/log/verify', (req, res) => {
+  res.json(verifyAuditLog());
+});
+
+// --- RADV AUDIT SIMULATION ---
+
+/**
+ * Body: { sample_size (per stratum), strata, seed, confidence_level, audit_year }, all optional.
+ * Same seed and options → same sample.
+ */
+app.post('/api/audit/radv-simulation', (req, res) => {
+  const modelId = getRequestedModel(req, res);
+  if (!modelId) return;
+  const { sample_size, strata, seed, confidence_level, audit_year } = req.body || {};
+  const options = { sample_size, strata, seed, confidence_level, audit_year };
+  const errors = validateRadvOptions(options);
+  if (errors.length) return res.status(400).json({ error: 'Invalid RADV simulation options', details: errors });
+  res.json(runRadvSimulation(members, claimByMember, { ...options, modelId }, getModelScores(modelId).memberRAF));
+});
+
+// --- CODER WORKLIST ---
+
+function ensureWorklist() {
+  if (!isWorklistSynced()) {
+    syncWorklist(members, claimByMember, {
+      modelId: DEFAULT_MODEL_ID,
+      premiumMap: getMemberPremiums(),
+      costClaimsByMember: paymentYearClaimByMember,
+      audit: { caller: 'worklist sync (initial)', actor: 'system' },
+    });
+  }
+}
+
+app.get('/api/worklist', (req, res) => {
+  const sort = req.query.sort || 'priority';
+  if (!WORKLIST_SORTS.includes(sort)) return res.status(400).json({ error: `sort must be one of ${WORKLIST_SORTS.join(', ')}` });
+  ensureWorklist();
+  const result = listWorklist({ ...req.query, sort });
+  const page = parseInt(req.query.page) || 1;
+  const limit = Math.min(parseInt(req.query.limit) || 50, 200);
+  const start = (page - 1) * limit;
+  res.json({ items: result.slice(start, start + limit), total: result.length, page, limit, summary: getWorklistSummary() });
+});
+
+app.get('/api/worklist/summary', (req, res) => {
+  ensureWorklist();
+  res.json(getWorklistSummary());
+});
+
+/** Re-runs the orchestrator and upserts suspects; reviewed items keep their status and notes. */
+app.post('/api/worklist/sync', (req, res) => {
+  const modelId = getRequestedModel(req, res);
+  if (!modelId) return;
+  const counts = syncWorklist(members, claimByMember, {
+    modelId,
+    premiumMap: getMemberPremiums(),
+    costClaimsByMember: paymentYearClaimByMember,
+    audit: getAuditContext(req, 'POST /api/worklist/sync'),
+  });
+  res.json({ ...counts, summary: getWorklistSummary() });
+});
+
+app.get('/api/worklist/:id', (req, res) => {
+  ensureWorklist();
+  const item = getWorklistItem(req.params.id);
+  if (!item) return res.status(404).json({ error: 'Worklist item not found' });
+  res.json(item);
+});
+
+app.post('/api/worklist/:id/assign', (req, res) => {
+  const { assignee = null, actor, note } = req.body || {};
+  const { item, errors } = assignWorklistItem(req.params.id, { assignee, actor, note });
+  if (!item) return res.status(404).json({ error: 'Worklist item not found' });
+  if (errors.length) return res.status(400).json({ error: 'Invalid assignment', details: errors });
+  res.json(item);
+});
+
+app.post('/api/worklist/:id/transition', (req, res) => {
+  const { status, actor, note } = req.body || {};
+  const { item, errors } = transitionWorklistItem(req.params.id, { status, actor, note });
+  if (!item) return res.status(404).json({ error: 'Worklist item not found' });
+  if (errors.length) return res.status(400).json({ error: 'Invalid transition', details: errors });
+  res.json(item);
+});
+
+// --- PREMIUM RATES ---
+
+app.get('/api/premium-rates', (req, res) => {
+  res.json(getPremiumRates());
+});
+
+app.post('/api/premium-rates', (req, res) => {
+  const { errors } = setPremiumRates(req.body);
+  if (errors.length) return res.status(400).json({ error: 'Invalid premium rates', details: errors });
+  res.json(getPremiumRates());
+});
+
+app.delete('/api/premium-rates', (req, res) => {
+  resetPremiumRates();
+  res.json(getPremiumRates());
+});
+
 // --- UPLOAD & ANALYZE ---
 
 app.post('/api/upload/analyze', (req, res) => {
   const body = req.body || {};
   let uploadMembers = [];
   let uploadClaims = [];
+  let uploadEligibility = [];
 
   if (body.format === 'csv' && body.membersCsv != null && body.claimsCsv != null) {
     try {
       uploadMembers = parseMembersCsv(body.membersCsv);
       uploadClaims = parseClaimsCsv(body.claimsCsv);
+      if (body.eligibilityCsv) uploadEligibility = parseEligibilityCsv(body.eligibilityCsv);
     } catch (err) {
       return res.status(400).json({ error: 'Invalid CSV', message: err.message });
     }
   } else {
     uploadMembers = Array.isArray(body.members) ? body.members : [];
     uploadClaims = Array.isArray(body.claims) ? body.claims : [];
+    uploadEligibility = body.eligibility ?? [];
+  }
+
+  // Optional rating table for this analysis only; the server-wide table is unchanged
+  if (body.premiumRates != null) {
+    const rateErrors = validatePremiumRates(body.premiumRates);
+    if (rateErrors.length) return res.status(400).json({ error: 'Invalid premium rates', details: rateErrors });
   }
 
-  const validation = validateUpload(uploadMembers, uploadClaims);
+  const validation = validateUpload(uploadMembers, uploadClaims, uploadEligibility);
   if (!validation.valid) {
     return res.status(400).json({ error: 'Invalid upload', details: validation.errors });
   }
   try {
-    const result = runUploadAnalysis(uploadMembers, uploadClaims);
+    const result = runUploadAnalysis(uploadMembers, uploadClaims, uploadEligibility, resolveRates(body.premiumRates));
     res.json(result);
   } catch (err) {
     console.error('Upload analysis error:', err);
@@ -482,18 +1121,15 @@ app.post('/api/chat/query', async (req, res) => {
   if (!question || typeof question !== 'string') {
     return res.status(400).json({ error: 'Missing question' });
   }
+  const modelId = getRequestedModel(req, res);
+  if (!modelId) return;
+  const { memberRAF, memberSuspects } = getModelScores(modelId);
   const runSim = (body) => {
     const { close_suspect_pct = 0 } = body || {};
-    const agentResults = runAgentBatch(members, claimByMember, members.length);
-    let uplift = 0;
-    agentResults.forEach((r) => {
-      r.suspect_hccs.forEach((h) => {
-        uplift += (h.revenue_uplift_estimate || 0) * (close_suspect_pct / 100);
-      });
-    });
-    const totalPremium = members.length * 15000;
-    const totalAllowed = claims.reduce((s, c) => s + c.allowed_amount, 0);
-    const baseRev = members.reduce((s, m) => s + computeRiskAdjRevenue(memberRAF[m.member_id] ?? 0.5, m.member_months || 12), 0);
+    const uplift = summarizeSuspects(members, memberSuspects).suspectRevenueUplift * (close_suspect_pct / 100);
+    const totalPremium = sumPremium(members, getMemberPremiums());
+    const totalAllowed = paymentYearClaims.reduce((s, c) => s + c.allowed_amount, 0);
+    const baseRev = members.reduce((s, m) => s + computeRiskAdjRevenue(memberRAF[m.member_id] ?? 0.5, m.member_months ?? 12, modelId), 0);
     const newRev = baseRev + uplift;
     return {
       total_risk_revenue: newRev,
@@ -501,36 +1137,48 @@ app.post('/api/chat/query', async (req, res) => {
       mlr_improvement_bps: Math.round((totalAllowed / (totalPremium + baseRev) - totalAllowed / (totalPremium + newRev)) * 10000),
     };
   };
-  const structuredResponse = runChatQuery(question, members, claimByMember, memberRAF, runSim);
+  const structuredResponse = runChatQuery(question, members, claimByMember, memberRAF, runSim, getMemberPremiums(), paymentYearClaimByMember, modelId);
   const dataSummary = buildDataContextSummary(members, claims, claimByMember, memberRAF);
+  const respond = (response) => {
+    const { intent, shortAnswer, evidence, recommendedAction, compliance } = response;
+    auditRollup(req, 'POST /api/chat/query', { question, intent, shortAnswer, evidence, recommendedAction, compliance_status: compliance.compliance_status }, modelId, { question });
+    res.json(response);
+  };
 
   if (process.env.OPENAI_API_KEY) {
     try {
       const llmResponse = await runChatWithLLM(question, dataSummary, structuredResponse);
-      return res.json({
-        ...structuredResponse,
-        shortAnswer: llmResponse.shortAnswer,
-        evidence: llmResponse.evidence,
-        whyItMatters: llmResponse.whyItMatters,
-        recommendedAction: llmResponse.recommendedAction,
-        followUpSuggestions: llmResponse.followUpSuggestions.length ? llmResponse.followUpSuggestions : structuredResponse.followUpSuggestions,
-      });
+      return respond(
+        screenChatResponse({
+          ...structuredResponse,
+          shortAnswer: llmResponse.shortAnswer,
+          evidence: llmResponse.evidence,
+          whyItMatters: llmResponse.whyItMatters,
+          recommendedAction: llmResponse.recommendedAction,
+          followUpSuggestions: llmResponse.followUpSuggestions.length ? llmResponse.followUpSuggestions : structuredResponse.followUpSuggestions,
+        })
+      );
     } catch (err) {
       console.error('Chat LLM error:', err.message);
       // Fall through to structured-only response
     }
   }
-  res.json(structuredResponse);
+  respond(screenChatResponse(structuredResponse));
 });
 
 // --- RISK EXPLORER ---
 
 app.get('/api/risk-explorer', (req, res) => {
+  const modelId = getRequestedModel(req, res);
+  if (!modelId) return;
+  const model = resolveModel(modelId);
+  const { memberRAF, memberSuspects } = getModelScores(modelId);
   let result = members.map((m) => ({
     ...m,
+    hcc_codes: getCodedHCCs(m, claimByMember),
     raf: memberRAF[m.member_id] ?? 0.5,
     suspectCount: (memberSuspects[m.member_id] || []).length,
-    riskAdjRevenue: computeRiskAdjRevenue(memberRAF[m.member_id] ?? 0.5, m.member_months || 12),
+    riskAdjRevenue: computeRiskAdjRevenue(memberRAF[m.member_id] ?? 0.5, m.member_months ?? 12, modelId),
   }));
   const { state, plan_type, raf_min, raf_max, hcc } = req.query;
   if (state) result = result.filter((m) => m.state === state);
@@ -548,7 +1196,7 @@ app.get('/api/risk-explorer', (req, res) => {
     else rafBuckets['1.5-3.0']++;
   });
   const hccPrevalence = {};
-  ['HCC_18', 'HCC_85', 'HCC_96', 'HCC_108', 'HCC_19'].forEach((code) => {
+  Object.keys(model.hcc_weights).forEach((code) => {
     hccPrevalence[code] = result.filter((m) => (m.hcc_codes || []).includes(code)).length;
   });
   const sortedByRAF = [...result].sort((a, b) => b.raf - a.raf);
@@ -565,6 +1213,7 @@ app.get('/api/risk-explorer', (req, res) => {
   const start = (page - 1) * limit;
   const paginated = result.slice(start, start + limit);
   res.json({
+    model: { id: model.id, version: model.version },
     members: paginated,
     total: result.length,
     page,
@@ -581,6 +1230,9 @@ app.get('/api/risk-explorer', (req, res) => {
 // --- SIMULATION ---
 
 app.post('/api/simulation', (req, res) => {
+  const modelId = getRequestedModel(req, res);
+  if (!modelId) return;
+  const { memberRAF, memberSuspects } = getModelScores(modelId);
   const {
     risk_threshold = 0.7,
     bronze_pct = 0.4,
@@ -600,35 +1252,38 @@ app.post('/api/simulation', (req, res) => {
     highRiskCount += m.risk_score >= risk_threshold ? 1 : 0;
     const planCost = baseCostByPlan[m.plan_type] || 1;
     const riskMultiplier = m.risk_score >= risk_threshold ? 2 : 1;
-    projectedCost += 1200 * planCost * riskMultiplier * (0.9 + m.risk_score * 0.2);
+    // 1200 is an annual per-member cost; scale to the member's enrolled months
+    projectedCost += 1200 * planCost * riskMultiplier * (0.9 + m.risk_score * 0.2) * ((m.member_months ?? 12) / 12);
   });
   const baseAvgRAF = members.reduce((s, m) => s + (memberRAF[m.member_id] ?? 0.5), 0) / members.length;
   let simulatedRiskRevenue = members.reduce(
-    (s, m) => s + computeRiskAdjRevenue(memberRAF[m.member_id] ?? 0.5, m.member_months || 12),
+    (s, m) => s + computeRiskAdjRevenue(memberRAF[m.member_id] ?? 0.5, m.member_months ?? 12, modelId),
     0
   );
   if (close_suspect_pct > 0 || coding_improvement_pct > 0) {
     const upliftPerMember = members.reduce((s, m) => {
       const suspects = memberSuspects[m.member_id] || [];
-      const uplift = suspects.reduce((u, x) => u + x.weight, 0);
+      const uplift = suspects.reduce((u, x) => u + x.raf_uplift, 0);
       const closedUplift = uplift * (close_suspect_pct / 100);
-      const codingUplift = (m.hcc_codes || []).length > 0 ? 0.05 * (coding_improvement_pct / 100) : 0;
-      return s + (closedUplift + codingUplift) * BASE_RATE_PMPM * (m.member_months || 12);
+      const codingUplift = getCodedHCCs(m, claimByMember).length > 0 ? 0.05 * (coding_improvement_pct / 100) : 0;
+      return s + computeRiskAdjRevenue(closedUplift + codingUplift, m.member_months ?? 12, modelId);
     }, 0);
     simulatedRiskRevenue += upliftPerMember;
   }
-  const totalPremium = members.length * 15000;
+  const totalPremium = sumPremium(members, getMemberPremiums());
   const expectedMLR = totalPremium > 0 ? projectedCost / totalPremium : 0.82;
   const adjustedMLR =
     totalPremium + simulatedRiskRevenue > 0
       ? projectedCost / (totalPremium + simulatedRiskRevenue)
       : expectedMLR;
   res.json({
+    model: { id: modelId },
     risk_threshold,
     high_risk_count: highRiskCount,
     high_risk_pct: ((highRiskCount / members.length) * 100).toFixed(1),
     expected_mlr: Math.min(0.95, Math.round(expectedMLR * 1000) / 1000),
     total_projected_cost: Math.round(projectedCost * 100) / 100,
+    total_premium: Math.round(totalPremium * 100) / 100,
     plan_mix: { bronze: b, silver: s, gold: g },
     avgRAF: Math.round(baseAvgRAF * 1000) / 1000,
     total_risk_revenue: Math.round(simulatedRiskRevenue * 100) / 100,
@@ -639,6 +1294,85 @@ app.post('/api/simulation', (req, res) => {
   });
 });
 
+// --- FINANCE PROJECTION ---
+
+/**
+ * Body: { years, membership_growth, cost_trend, premium_trend, raf_drift, close_suspect_pct,
+ * recapture_rate, discount_rate, state, plan_type }, all optional. Baseline is the payment year
+ * (CURRENT_PAYMENT_YEAR) for the filtered population under the requested model: its claims incurred
+ * in enrolled months, premium and risk revenue over its enrolled months.
+ */
+app.post('/api/finance/projection', (req, res) => {
+  const modelId = getRequestedModel(req, res);
+  if (!modelId) return;
+  const { state, plan_type, ...assumptions } = req.body || {};
+  const errors = validateProjectionAssumptions(assumptions);
+  if (errors.length) return res.status(400).json({ error: 'Invalid projection assumptions', details: errors });
+  const { memberRAF: rafMap, memberSuspects: suspectMap } = getModelScores(modelId);
+  let list = members;
+  if (state) list = list.filter((m) => m.state === state);
+  if (plan_type) list = list.filter((m) => m.plan_type === plan_type);
+  const baseline = {
+    members: list.length,
+    claims_cost: list.reduce((s, m) => s + (paymentYearClaimByMember[m.member_id] || []).reduce((c, x) => c + x.allowed_amount, 0), 0),
+    premium: sumPremium(list, getMemberPremiums()),
+    risk_revenue: list.reduce((s, m) => s + computeRiskAdjRevenue(rafMap[m.member_id] ?? 0.5, m.member_months ?? 12, modelId), 0),
+    suspect_revenue_uplift: summarizeSuspects(list, suspectMap).suspectRevenueUplift,
+  };
+  const { years, membership_growth, cost_trend, premium_trend, raf_drift, close_suspect_pct, recapture_rate, discount_rate } = assumptions;
+  res.json({
+    model: { id: modelId },
+    filters: { state: state || null, plan_type: plan_type || null },
+    ...projectFinancials(baseline, { years, membership_growth, cost_trend, premium_trend, raf_drift, close_suspect_pct, recapture_rate, discount_rate }),
+  });
+});
+
+// --- P&L ---
+
+/** Shared P&L inputs from the query: filtered members plus the model's maps and admin_pct (0–0.5). */
+function getPnLContext(req, res) {
+  const modelId = getRequestedModel(req, res);
+  if (!modelId) return null;
+  const adminPct = req.query.admin_pct != null ? parseFloat(req.query.admin_pct) : DEFAULT_ADMIN_PCT;
+  if (!(Number.isFinite(adminPct) && adminPct >= 0 && adminPct <= 0.5)) {
+    res.status(400).json({ error: 'admin_pct must be a number between 0 and 0.5' });
+    return null;
+  }
+  const { state, plan_type } = req.query;
+  let list = members;
+  if (state) list = list.filter((m) => m.state === state);
+  if (plan_type) list = list.filter((m) => m.plan_type === plan_type);
+  const { memberRAF: rafMap, memberSuspects: suspectMap } = getModelScores(modelId);
+  const options = { rafMap, suspectMap, premiumMap: getMemberPremiums(), costClaimsByMember: paymentYearClaimByMember, modelId, adminPct };
+  return { list, modelId, options, filters: { state: state || null, plan_type: plan_type || null } };
+}
+
+/** ?group_by=plan|state|plan_state (alias both)&state=&plan_type=&admin_pct=&model= */
+app.get('/api/finance/pnl', (req, res) => {
+  const requested = req.query.group_by || 'plan';
+  const groupBy = PNL_GROUPING_ALIASES[requested] || requested;
+  if (!PNL_GROUPINGS.includes(groupBy)) {
+    const accepted = [...PNL_GROUPINGS, ...Object.keys(PNL_GROUPING_ALIASES)];
+    return res.status(400).json({ error: `group_by must be one of ${accepted.join(', ')}` });
+  }
+  const ctx = getPnLContext(req, res);
+  if (!ctx) return;
+  res.json({ model: { id: ctx.modelId }, filters: ctx.filters, ...computePnL(ctx.list, claimByMember, { ...ctx.options, groupBy }) });
+});
+
+/** Drill-down: members behind a P&L row. ?state=&plan_type=&sort=margin|claims|revenue_at_risk&page=&limit= */
+app.get('/api/finance/pnl/members', (req, res) => {
+  const sort = req.query.sort || 'margin';
+  if (!PNL_MEMBER_SORTS.includes(sort)) return res.status(400).json({ error: `sort must be one of ${PNL_MEMBER_SORTS.join(', ')}` });
+  const ctx = getPnLContext(req, res);
+  if (!ctx) return;
+  const rows = listPnLMembers(ctx.list, claimByMember, { ...ctx.options, sort });
+  const page = parseInt(req.query.page) || 1;
+  const limit = Math.min(parseInt(req.query.limit) || 50, 100);
+  const start = (page - 1) * limit;
+  res.json({ model: { id: ctx.modelId }, filters: ctx.filters, members: rows.slice(start, start + limit), total: rows.length, page, limit });
+});
+
 // --- STATIC & CATCH-ALL ---
 
 const PORT = process.env.PORT || 3001;
@@ -0,0 +1,100 @@
+/**
+ * Risk Model Registry
+ * Loads named, versioned risk model definitions from server/config/models/*.json.
+ * Each model carries its own HCC weights, demographic bands, base rate and
+ * normalization bounds, so a model-year change is a config change, not a redeploy.
+ *
+ * Model file shape:
+ *   { id, name, version, payment_year, base_rate_pmpm,
+ *     normalization: { min, max }, default_demographic_factor,
+ *     demographic_bands: [{ band, min_age, M, F }], hcc_weights: { HCC_xx: weight },
+ *     hierarchies?: [{ family, hcc, drops: [HCC_xx] }],
+ *     interactions?: [{ id, label, hccs: [HCC_xx, HCC_yy], weight }],
+ *     hcc_count_terms?: [{ min_count, weight }] }
+ */
+
+import { readFileSync, readdirSync, existsSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const MODELS_DIR = join(__dirname, 'config', 'models');
+
+// Model used when a caller does not ask for one (override with RISK_MODEL_ID)
+export const DEFAULT_MODEL_ID = process.env.RISK_MODEL_ID || 'demo-2024';
+
+const REQUIRED_FIELDS = ['id', 'version', 'base_rate_pmpm', 'normalization', 'demographic_bands', 'hcc_weights'];
+
+function validateModel(model) {
+  const errors = REQUIRED_FIELDS.filter((key) => model[key] === undefined).map((key) => `${key} is required`);
+  if (!Array.isArray(model.demographic_bands) || model.demographic_bands.length === 0) {
+    errors.push('demographic_bands must be a non-empty array');
+  }
+  const { min, max } = model.normalization || {};
+  if (!(Number.isFinite(min) && Number.isFinite(max) && min < max)) {
+    errors.push('normalization must have numeric min < max');
+  }
+  return errors;
+}
+
+function loadModels() {
+  const registry = {};
+  if (!existsSync(MODELS_DIR)) return registry;
+  for (const file of readdirSync(MODELS_DIR).filter((f) => f.endsWith('.json')).sort()) {
+    try {
+      const model = JSON.parse(readFileSync(join(MODELS_DIR, file), 'utf-8'));
+      const errors = validateModel(model);
+      if (errors.length) {
+        console.warn(`Skipping risk model ${file}: ${errors.join('; ')}`);
+        continue;
+      }
+      // Bands are matched from the highest min_age down
+      model.demographic_bands = [...model.demographic_bands].sort((a, b) => a.min_age - b.min_age);
+      model.default_demographic_factor = model.default_demographic_factor ?? 0.5;
+      model.hierarchies = model.hierarchies ?? [];
+      model.interactions = model.interactions ?? [];
+      model.hcc_count_terms = [...(model.hcc_count_terms ?? [])].sort((a, b) => a.min_count - b.min_count);
+      registry[model.id] = model;
+    } catch (err) {
+      console.warn(`Skipping risk model ${file}: ${err.message}`);
+    }
+  }
+  return registry;
+}
+
+const MODELS = loadModels();
+
+if (!MODELS[DEFAULT_MODEL_ID]) {
+  console.error(`Default risk model "${DEFAULT_MODEL_ID}" not found in ${MODELS_DIR}`);
+}
+
+export function hasModel(id) {
+  return Object.prototype.hasOwnProperty.call(MODELS, id);
+}
+
+/**
+ * Returns the model definition for id, falling back to the default model
+ * when id is empty. Unknown ids return null so callers can reject them.
+ */
+export function getModel(id) {
+  if (!id) return MODELS[DEFAULT_MODEL_ID] ?? null;
+  return MODELS[id] ?? null;
+}
+
+/** Model metadata for GET /api/models (weights included for side-by-side comparison). */
+export function listModels() {
+  return Object.values(MODELS).map((m) => ({
+    id: m.id,
+    name: m.name ?? m.id,
+    version: m.version,
+    payment_year: m.payment_year ?? null,
+    description: m.description ?? '',
+    base_rate_pmpm: m.base_rate_pmpm,
+    normalization: m.normalization,
+    hcc_weights: m.hcc_weights,
+    hierarchies: m.hierarchies,
+    interactions: m.interactions,
+    hcc_count_terms: m.hcc_count_terms,
+    is_default: m.id === DEFAULT_MODEL_ID,
+  }));
+}
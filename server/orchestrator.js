@@ -8,6 +8,8 @@ import { runAgent } from './risk-adjustment-agent.js';
 import { runFinanceAgent } from './finance-impact-agent.js';
 import { runComplianceAgent } from './compliance-agent.js';
 import { computeRAF } from './risk-adjustment.js';
+import { computeMemberPremium } from './premium-rating.js';
+import { recordAgentDecision } from './audit-log.js';
 
 /**
  * Normalize Risk Agent output to use "hcc" (per spec)
@@ -17,34 +19,42 @@ function normalizeSuspectHCCs(suspect_hccs) {
     hcc: h.hcc_code || h.hcc,
     condition: h.condition,
     confidence: h.confidence,
+    ...(h.raw_confidence !== undefined ? { raw_confidence: h.raw_confidence } : {}),
     evidence: h.evidence,
     raf_uplift: h.raf_uplift,
     revenue_uplift_estimate: h.revenue_uplift_estimate,
+    source: h.source,
   }));
 }
 
 /**
  * Main orchestration: Risk → Finance (if suspects) → Compliance → synthesize
+ * Output carries the agent's unsupported coded HCCs and their total RAF / revenue at risk (deletion_risk).
+ * premium is the member's rated premium; when omitted it is rated from the active table.
+ * With audit ({ caller, actor }) the decision is appended to the audit log (audit-log.js); population
+ * roll-ups leave it out and log their summary once (recordPopulationDecision).
  */
-export function runOrchestrator(member, claimsByMember = {}, claims = []) {
-  const riskOutput = runAgent(member, claimsByMember);
+export function runOrchestrator(member, claimsByMember = {}, claims = [], modelId, premium, audit) {
+  const riskOutput = runAgent(member, claimsByMember, modelId);
 
   let financeOutput = null;
   if (riskOutput.suspect_hccs.length > 0) {
-    const currentRaf = computeRAF(member, claimsByMember);
+    const currentRaf = computeRAF(member, claimsByMember, riskOutput.model_id);
     const claimsCost = claims.reduce((s, c) => s + c.allowed_amount, 0);
     financeOutput = runFinanceAgent(riskOutput, {
       plan_type: member.plan_type,
-      member_months: member.member_months || 12,
+      member_months: member.member_months ?? 12,
       claims_cost: claimsCost,
-      premium: 15000,
+      premium: premium ?? computeMemberPremium(member),
       current_raf: currentRaf,
+      model_id: riskOutput.model_id,
     });
   }
 
   const complianceOutput = runComplianceAgent(riskOutput, financeOutput || {});
 
-  if (complianceOutput.compliance_status === 'REVIEW_REQUIRED' && riskOutput.suspect_hccs.length > 0) {
+  // Weak suspect evidence lowers suspect confidence; unsupported coded HCCs do not
+  if (complianceOutput.checks.suspect_evidence === 'FAIL' && riskOutput.suspect_hccs.length > 0) {
     riskOutput.suspect_hccs = riskOutput.suspect_hccs.map((h) => ({
       ...h,
       confidence: Math.min(h.confidence, 0.85),
@@ -59,11 +69,21 @@ export function runOrchestrator(member, claimsByMember = {}, claims = []) {
     executive_summary = riskOutput.overall_commentary;
   }
 
-  return {
+  const output = {
     member_id: member.member_id,
+    model_id: riskOutput.model_id,
     suspect_hccs: normalizeSuspectHCCs(riskOutput.suspect_hccs),
+    unsupported_hccs: riskOutput.unsupported_hccs.map(({ hcc_code, ...h }) => ({ hcc: hcc_code, ...h })),
+    deletion_risk:
+      riskOutput.unsupported_hccs.length > 0
+        ? { raf_at_risk: riskOutput.unsupported_raf_at_risk, revenue_at_risk: riskOutput.unsupported_revenue_at_risk }
+        : null,
     financial_impact: financeOutput?.financial_impact ?? null,
     compliance: complianceOutput,
     executive_summary,
   };
+  if (audit) {
+    recordAgentDecision(output, { member, claims: claimsByMember[member.member_id] || [], premium: premium ?? null, modelId: riskOutput.model_id }, audit);
+  }
+  return output;
 }
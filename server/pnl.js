@@ -0,0 +1,189 @@
+/**
+ * Plan / State P&L
+ * Rolls member-level premium, risk revenue and claims into a profit-and-loss view per plan, state
+ * or plan × state:
+ *   revenue        premium + risk adjustment revenue (RAF × base rate × member months)
+ *   admin cost     admin_pct × premium (assumption, default 12%)
+ *   margin         revenue − claims − admin cost
+ *   raw MLR        claims / premium;  adjusted MLR = claims / revenue
+ * Premium, risk revenue and claims are for the payment year: member_months counts enrolled months in
+ * it and costClaimsByMember holds the claims incurred in them (all claims when omitted).
+ * revenue_at_risk has two sides: suspect uplift not yet captured (open suspect HCCs) and deletion
+ * risk (coded HCCs without payment-year support, see hcc-support.js).
+ */
+
+import { computeRiskAdjRevenue } from './risk-adjustment.js';
+import { scoreHCCSupport } from './hcc-support.js';
+
+export const DEFAULT_ADMIN_PCT = 0.12;
+export const PNL_GROUPINGS = ['plan', 'state', 'plan_state'];
+// Accepted spellings of a grouping (?group_by=both means plan × state)
+export const PNL_GROUPING_ALIASES = { both: 'plan_state' };
+export const PNL_MEMBER_SORTS = ['margin', 'claims', 'revenue_at_risk'];
+
+function round2(v) {
+  return Math.round(v * 100) / 100;
+}
+
+function round3(v) {
+  return Math.round(v * 1000) / 1000;
+}
+
+function groupKey(member, groupBy) {
+  if (groupBy === 'plan') return { plan_type: member.plan_type || 'Unknown' };
+  if (groupBy === 'state') return { state: member.state || 'Unknown' };
+  return { plan_type: member.plan_type || 'Unknown', state: member.state || 'Unknown' };
+}
+
+/**
+ * One member's P&L. ctx: { claimsByMember, costClaimsByMember, rafMap, suspectMap, premiumMap, modelId,
+ * adminPct }. Cost claims are split by claim_type (IP / OP / RX); support scoring uses all claims.
+ */
+function memberPnL(member, ctx) {
+  const months = member.member_months ?? 12;
+  const premium = ctx.premiumMap[member.member_id] ?? 0;
+  const riskRevenue = computeRiskAdjRevenue(ctx.rafMap[member.member_id] ?? 0.5, months, ctx.modelId);
+  const claimsByType = {};
+  let claimsTotal = 0;
+  (ctx.costClaimsByMember[member.member_id] || []).forEach((c) => {
+    const type = c.claim_type || 'Other';
+    claimsByType[type] = (claimsByType[type] || 0) + c.allowed_amount;
+    claimsTotal += c.allowed_amount;
+  });
+  const adminCost = premium * ctx.adminPct;
+  const suspectUplift = (ctx.suspectMap[member.member_id] || []).reduce((s, h) => s + (h.revenue_uplift_estimate || 0), 0);
+  const deletion = scoreHCCSupport(member, ctx.claimsByMember, ctx.modelId).revenue_at_risk;
+  return {
+    member_id: member.member_id,
+    plan_type: member.plan_type,
+    state: member.state,
+    member_months: months,
+    premium,
+    risk_revenue: riskRevenue,
+    claims_by_type: claimsByType,
+    claims: claimsTotal,
+    admin_cost: adminCost,
+    margin: premium + riskRevenue - claimsTotal - adminCost,
+    suspect_revenue_at_risk: suspectUplift,
+    deletion_revenue_at_risk: deletion,
+  };
+}
+
+function emptyTotals() {
+  return {
+    members: 0,
+    member_months: 0,
+    premium: 0,
+    risk_revenue: 0,
+    claims_by_type: {},
+    claims: 0,
+    admin_cost: 0,
+    suspect_revenue_at_risk: 0,
+    deletion_revenue_at_risk: 0,
+  };
+}
+
+function addRow(totals, row) {
+  totals.members += 1;
+  totals.member_months += row.member_months;
+  totals.premium += row.premium;
+  totals.risk_revenue += row.risk_revenue;
+  totals.claims += row.claims;
+  totals.admin_cost += row.admin_cost;
+  totals.suspect_revenue_at_risk += row.suspect_revenue_at_risk;
+  totals.deletion_revenue_at_risk += row.deletion_revenue_at_risk;
+  Object.entries(row.claims_by_type).forEach(([type, amount]) => {
+    totals.claims_by_type[type] = (totals.claims_by_type[type] || 0) + amount;
+  });
+}
+
+/** Rounded P&L line with revenue, margin and MLRs derived from the summed totals. */
+function finishTotals(t) {
+  const revenue = t.premium + t.risk_revenue;
+  const margin = revenue - t.claims - t.admin_cost;
+  return {
+    members: t.members,
+    member_months: t.member_months,
+    premium: round2(t.premium),
+    risk_revenue: round2(t.risk_revenue),
+    revenue: round2(revenue),
+    claims_by_type: Object.fromEntries(Object.entries(t.claims_by_type).map(([type, amount]) => [type, round2(amount)])),
+    claims: round2(t.claims),
+    admin_cost: round2(t.admin_cost),
+    margin: round2(margin),
+    margin_pct: revenue > 0 ? round3(margin / revenue) : null,
+    raw_mlr: t.premium > 0 ? round3(t.claims / t.premium) : null,
+    adjusted_mlr: revenue > 0 ? round3(t.claims / revenue) : null,
+    pmpm: {
+      revenue: t.member_months > 0 ? round2(revenue / t.member_months) : null,
+      claims: t.member_months > 0 ? round2(t.claims / t.member_months) : null,
+      margin: t.member_months > 0 ? round2(margin / t.member_months) : null,
+    },
+    revenue_at_risk: {
+      suspect_uplift: round2(t.suspect_revenue_at_risk),
+      deletion: round2(t.deletion_revenue_at_risk),
+      total: round2(t.suspect_revenue_at_risk + t.deletion_revenue_at_risk),
+    },
+  };
+}
+
+/**
+ * P&L grouped by plan, state or plan_state. options: { groupBy, rafMap, suspectMap, premiumMap,
+ * costClaimsByMember, modelId, adminPct }. Groups are sorted by revenue, largest first.
+ */
+export function computePnL(
+  members,
+  claimsByMember,
+  { groupBy = 'plan', rafMap = {}, suspectMap = {}, premiumMap = {}, costClaimsByMember = claimsByMember, modelId, adminPct = DEFAULT_ADMIN_PCT } = {}
+) {
+  const ctx = { claimsByMember, costClaimsByMember, rafMap, suspectMap, premiumMap, modelId, adminPct };
+  const totals = emptyTotals();
+  const groups = {};
+  members.forEach((m) => {
+    const row = memberPnL(m, ctx);
+    const key = groupKey(m, groupBy);
+    const id = Object.values(key).join('|');
+    if (!groups[id]) groups[id] = { key, totals: emptyTotals() };
+    addRow(groups[id].totals, row);
+    addRow(totals, row);
+  });
+  return {
+    group_by: groupBy,
+    admin_pct: adminPct,
+    totals: finishTotals(totals),
+    groups: Object.values(groups)
+      .map((g) => ({ ...g.key, ...finishTotals(g.totals) }))
+      .sort((a, b) => b.revenue - a.revenue),
+  };
+}
+
+/**
+ * Member rows behind a P&L line (drill-down). sort: margin (lowest first), claims or
+ * revenue_at_risk (highest first).
+ */
+export function listPnLMembers(
+  members,
+  claimsByMember,
+  { sort = 'margin', rafMap = {}, suspectMap = {}, premiumMap = {}, costClaimsByMember = claimsByMember, modelId, adminPct = DEFAULT_ADMIN_PCT } = {}
+) {
+  const ctx = { claimsByMember, costClaimsByMember, rafMap, suspectMap, premiumMap, modelId, adminPct };
+  const rows = members.map((m) => {
+    const row = memberPnL(m, ctx);
+    const revenue = row.premium + row.risk_revenue;
+    return {
+      member_id: row.member_id,
+      plan_type: row.plan_type,
+      state: row.state,
+      member_months: row.member_months,
+      premium: round2(row.premium),
+      risk_revenue: round2(row.risk_revenue),
+      claims_by_type: Object.fromEntries(Object.entries(row.claims_by_type).map(([type, amount]) => [type, round2(amount)])),
+      claims: round2(row.claims),
+      admin_cost: round2(row.admin_cost),
+      margin: round2(row.margin),
+      adjusted_mlr: revenue > 0 ? round3(row.claims / revenue) : null,
+      revenue_at_risk: round2(row.suspect_revenue_at_risk + row.deletion_revenue_at_risk),
+    };
+  });
+  return rows.sort((a, b) => (sort === 'margin' ? a.margin - b.margin : b[sort] - a[sort]));
+}
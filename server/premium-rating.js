@@ -0,0 +1,162 @@
+/**
+ * Premium Rating
+ * Monthly premium = base_pmpm[plan] × state factor × rating-area factor × age-band factor.
+ * Default table in server/config/premium-rates.json; POST /api/premium-rates replaces it
+ * in memory (no persistence), DELETE reverts to the file, and uploads can pass their own table for one analysis.
+ *
+ * Premium is billed per enrolled month, so with eligibility spans each segment is rated
+ * at its own plan/state (plan switches change the rate mid-year).
+ */
+
+import { readFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { countMemberMonths, monthsBetween } from './eligibility.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const DEFAULT_RATES = normalizeRates(JSON.parse(readFileSync(join(__dirname, 'config', 'premium-rates.json'), 'utf-8')));
+
+let activeRates = DEFAULT_RATES;
+
+function normalizeRates(rates) {
+  return {
+    ...rates,
+    age_bands: [...rates.age_bands].sort((a, b) => a.min_age - b.min_age),
+    state_factors: rates.state_factors ?? {},
+    default_state_factor: rates.default_state_factor ?? 1.0,
+    rating_area_factors: rates.rating_area_factors ?? {},
+    default_rating_area_factors: rates.default_rating_area_factors ?? {},
+    default_rating_area: String(rates.default_rating_area ?? '1'),
+  };
+}
+
+function isPositive(v) {
+  return Number.isFinite(v) && v > 0;
+}
+
+function isPlainObject(v) {
+  return v !== null && typeof v === 'object' && !Array.isArray(v);
+}
+
+/** Optional { key: factor } map; every factor must be a positive number. */
+function checkFactors(factors, path, errors) {
+  if (factors === undefined) return;
+  if (!isPlainObject(factors)) {
+    errors.push(`${path} must be an object of factors`);
+    return;
+  }
+  Object.entries(factors).forEach(([key, v]) => {
+    if (!isPositive(v)) errors.push(`${path}.${key} must be a positive number`);
+  });
+}
+
+/**
+ * Validates a rating table. Returns error strings (empty when valid).
+ */
+export function validatePremiumRates(rates) {
+  const errors = [];
+  if (!rates || typeof rates !== 'object') return ['rates must be an object'];
+  if (!rates.version) errors.push('version is required');
+  const base = rates.base_pmpm;
+  if (!base || typeof base !== 'object' || Object.keys(base).length === 0) {
+    errors.push('base_pmpm must map plan_type to a monthly rate');
+  } else {
+    Object.entries(base).forEach(([plan, v]) => {
+      if (!(Number.isFinite(v) && v > 0)) errors.push(`base_pmpm.${plan} must be a positive number`);
+    });
+  }
+  if (!Array.isArray(rates.age_bands) || rates.age_bands.length === 0) {
+    errors.push('age_bands must be a non-empty array');
+  } else {
+    rates.age_bands.forEach((b, i) => {
+      if (!isPlainObject(b)) {
+        errors.push(`age_bands[${i}] must be an object`);
+        return;
+      }
+      if (!Number.isFinite(b.min_age)) errors.push(`age_bands[${i}].min_age must be a number`);
+      if (!(Number.isFinite(b.factor) && b.factor > 0)) errors.push(`age_bands[${i}].factor must be a positive number`);
+    });
+  }
+  checkFactors(rates.state_factors, 'state_factors', errors);
+  if (rates.default_state_factor !== undefined && !isPositive(rates.default_state_factor)) {
+    errors.push('default_state_factor must be a positive number');
+  }
+  if (rates.rating_area_factors !== undefined) {
+    if (!isPlainObject(rates.rating_area_factors)) errors.push('rating_area_factors must map state to { rating_area: factor }');
+    else Object.entries(rates.rating_area_factors).forEach(([st, areas]) => checkFactors(areas, `rating_area_factors.${st}`, errors));
+  }
+  checkFactors(rates.default_rating_area_factors, 'default_rating_area_factors', errors);
+  return errors.slice(0, 20);
+}
+
+export function getPremiumRates() {
+  return activeRates;
+}
+
+/** Replaces the active table; returns { errors } and leaves the table unchanged when invalid. */
+export function setPremiumRates(rates) {
+  const errors = validatePremiumRates(rates);
+  if (errors.length === 0) activeRates = normalizeRates(rates);
+  return { errors };
+}
+
+/** Back to the config-file table. */
+export function resetPremiumRates() {
+  activeRates = DEFAULT_RATES;
+}
+
+/** Accepts an uploaded table (validated by caller) or falls back to the active one. */
+export function resolveRates(rates) {
+  return rates ? normalizeRates(rates) : activeRates;
+}
+
+export function getRatingAgeBand(age, rates = activeRates) {
+  let match = rates.age_bands[0];
+  for (const band of rates.age_bands) {
+    if (age >= band.min_age) match = band;
+  }
+  return match;
+}
+
+/**
+ * Monthly premium for a member rated at the given plan/state/rating area.
+ * Unknown plans rate at the average base PMPM.
+ */
+export function getPremiumPmpm(member, { plan_type, state, rating_area } = {}, rates = activeRates) {
+  const plan = plan_type ?? member.plan_type;
+  const st = state ?? member.state;
+  const area = String(rating_area ?? member.rating_area ?? rates.default_rating_area);
+  const bases = Object.values(rates.base_pmpm);
+  const base = rates.base_pmpm[plan] ?? bases.reduce((s, v) => s + v, 0) / bases.length;
+  const stateFactor = rates.state_factors[st] ?? rates.default_state_factor;
+  const areaFactor = rates.rating_area_factors[st]?.[area] ?? rates.default_rating_area_factors[area] ?? 1.0;
+  const ageFactor = getRatingAgeBand(member.age ?? 0, rates)?.factor ?? 1.0;
+  return base * stateFactor * areaFactor * ageFactor;
+}
+
+/**
+ * Premium over the member's enrolled months (spans if present, else scalar member_months).
+ * With year, only segment months in that year are rated.
+ */
+export function computeMemberPremium(member, segments, rates = activeRates, year) {
+  if (!segments || segments.length === 0) {
+    return getPremiumPmpm(member, {}, rates) * (member.member_months ?? 12);
+  }
+  return segments.reduce((s, seg) => {
+    const months = year ? countMemberMonths([seg], `${year}-01`, `${year}-12`) : monthsBetween(seg.start_month, seg.end_month);
+    return s + getPremiumPmpm(member, seg, rates) * months;
+  }, 0);
+}
+
+/** member_id → premium for a member list (payment-year premium when year is given). */
+export function buildPremiumMap(members, eligibilityByMember = {}, rates = activeRates, year) {
+  const out = {};
+  members.forEach((m) => {
+    out[m.member_id] = Math.round(computeMemberPremium(m, eligibilityByMember[m.member_id], rates, year) * 100) / 100;
+  });
+  return out;
+}
+
+export function sumPremium(membersList, premiumMap) {
+  return membersList.reduce((s, m) => s + (premiumMap[m.member_id] ?? 0), 0);
+}
@@ -0,0 +1,67 @@
+/**
+ * Procedure Code → Procedure Group → Condition
+ * Maps claim procedure_codes (CPT-style, including lab tests) to procedure groups and groups
+ * to the HCCs they are typically used to monitor (server/config/procedure-codes.json).
+ * A group counts as a pattern once it appears on min_claims distinct claims.
+ * Like drug classes, a procedure pattern is supporting evidence for a suspect, never a diagnosis.
+ */
+
+import { readFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const PROCEDURES = JSON.parse(readFileSync(join(__dirname, 'config', 'procedure-codes.json'), 'utf-8'));
+
+const GROUP_BY_CODE = {};
+Object.entries(PROCEDURES.groups).forEach(([groupId, g]) => {
+  g.codes.forEach((c) => {
+    GROUP_BY_CODE[c.code] = groupId;
+  });
+});
+
+export function getProcedureGroup(code) {
+  return GROUP_BY_CODE[String(code).trim()] ?? null;
+}
+
+export function getProcedureGroupLabel(groupId) {
+  return PROCEDURES.groups[groupId]?.label ?? groupId;
+}
+
+/** Groups whose mapping includes the given HCC. */
+export function getProcedureGroupsForHCC(hcc) {
+  return Object.entries(PROCEDURES.groups)
+    .filter(([, g]) => g.conditions.includes(hcc))
+    .map(([groupId]) => groupId);
+}
+
+export function getCodesForGroup(groupId) {
+  return PROCEDURES.groups[groupId]?.codes.map((c) => c.code) ?? [];
+}
+
+/**
+ * Procedure groups on a member's claims: { groupId: { claims, codes: [code...] } },
+ * where claims counts distinct claims carrying a code in the group.
+ */
+export function getProcedurePatterns(claims) {
+  const out = {};
+  claims.forEach((c) => {
+    const groups = new Set();
+    (c.procedure_codes || []).forEach((code) => {
+      const groupId = getProcedureGroup(code);
+      if (!groupId) return;
+      if (!out[groupId]) out[groupId] = { claims: 0, codes: [] };
+      if (!out[groupId].codes.includes(code)) out[groupId].codes.push(code);
+      groups.add(groupId);
+    });
+    groups.forEach((groupId) => {
+      out[groupId].claims += 1;
+    });
+  });
+  return out;
+}
+
+/** Condition-related groups that meet their min_claims threshold in the given patterns. */
+export function getConditionProcedureMatches(patterns, hcc) {
+  return getProcedureGroupsForHCC(hcc).filter((groupId) => (patterns[groupId]?.claims ?? 0) >= PROCEDURES.groups[groupId].min_claims);
+}
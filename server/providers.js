@@ -0,0 +1,139 @@
+/**
+ * Provider Attribution & Coding Gap Scorecards
+ * Claims carry a rendering provider_id (IP/OP); providers.json is the roster.
+ *
+ * Attribution (one provider per member, from outpatient visit patterns):
+ *   1. Plurality of OP visits with a primary care provider (is_pcp)
+ *   2. Otherwise, plurality of OP visits with any other provider
+ *   Ties go to the most recent visit, then the lower provider_id. No OP visits → unattributed.
+ *
+ * Scorecard per provider, over attributed members:
+ *   suspects / revenue_at_risk = Risk Agent suspect HCCs (claims-pattern + recapture) and their revenue uplift
+ *   recapture_rate = prior-year HCCs recaptured in the current payment year (see recapture.js)
+ */
+
+import { computeRecapture } from './recapture.js';
+
+function round2(v) {
+  return Math.round(v * 100) / 100;
+}
+
+export function buildProviderIndex(providers = []) {
+  const out = {};
+  providers.forEach((p) => {
+    out[p.provider_id] = p;
+  });
+  return out;
+}
+
+function pickPlurality(visits) {
+  const ranked = Object.entries(visits).sort(
+    ([idA, a], [idB, b]) => b.count - a.count || b.last.localeCompare(a.last) || idA.localeCompare(idB)
+  );
+  return ranked.length > 0 ? { provider_id: ranked[0][0], visits: ranked[0][1].count } : null;
+}
+
+/**
+ * member_id → { provider_id, basis: 'pcp_visits' | 'other_visits', visits } for attributed members.
+ */
+export function attributeMembers(members, claimsByMember = {}, providersById = {}) {
+  const out = {};
+  members.forEach((m) => {
+    const pcpVisits = {};
+    const otherVisits = {};
+    (claimsByMember[m.member_id] || []).forEach((c) => {
+      if (c.claim_type !== 'OP' || !c.provider_id) return;
+      const bucket = providersById[c.provider_id]?.is_pcp ? pcpVisits : otherVisits;
+      if (!bucket[c.provider_id]) bucket[c.provider_id] = { count: 0, last: '' };
+      bucket[c.provider_id].count += 1;
+      if (c.service_date > bucket[c.provider_id].last) bucket[c.provider_id].last = c.service_date;
+    });
+    const pcp = pickPlurality(pcpVisits);
+    if (pcp) {
+      out[m.member_id] = { ...pcp, basis: 'pcp_visits' };
+      return;
+    }
+    const other = pickPlurality(otherVisits);
+    if (other) out[m.member_id] = { ...other, basis: 'other_visits' };
+  });
+  return out;
+}
+
+/** provider_id → attributed members. */
+export function groupByProvider(members, attribution) {
+  const out = {};
+  members.forEach((m) => {
+    const a = attribution[m.member_id];
+    if (!a) return;
+    if (!out[a.provider_id]) out[a.provider_id] = [];
+    out[a.provider_id].push(m);
+  });
+  return out;
+}
+
+/**
+ * Member-level rows for a provider panel.
+ * suspectsByMember: member_id → pipeline suspects (suspect-pipeline.js); memberRAF: member_id → RAF.
+ */
+export function scorePanelMembers(panel, { attribution, suspectsByMember, memberRAF = {}, claimsByMember = {}, modelId, eligibilityByMember = {} }) {
+  const recapture = computeRecapture(panel, claimsByMember, { modelId, eligibilityByMember });
+  const gapsByMember = Object.fromEntries(recapture.members.map((r) => [r.member_id, r.gaps.map((g) => g.hcc)]));
+  return panel.map((m) => {
+    const suspects = suspectsByMember[m.member_id] ?? [];
+    return {
+      member_id: m.member_id,
+      plan_type: m.plan_type,
+      state: m.state,
+      raf: memberRAF[m.member_id] ?? null,
+      visits: attribution[m.member_id]?.visits ?? 0,
+      basis: attribution[m.member_id]?.basis ?? null,
+      suspect_hccs: suspects.map((h) => h.hcc_code),
+      revenue_at_risk: round2(suspects.reduce((s, h) => s + h.revenue_uplift_estimate, 0)),
+      open_recapture_gaps: gapsByMember[m.member_id] ?? [],
+    };
+  });
+}
+
+/** Scorecard for one provider from its attributed panel. */
+export function buildScorecard(provider, panel, context) {
+  const recapture = computeRecapture(panel, context.claimsByMember, {
+    modelId: context.modelId,
+    eligibilityByMember: context.eligibilityByMember,
+  });
+  let suspectCount = 0;
+  let membersWithSuspects = 0;
+  let revenueAtRisk = 0;
+  let rafSum = 0;
+  panel.forEach((m) => {
+    const suspects = context.suspectsByMember[m.member_id] ?? [];
+    suspectCount += suspects.length;
+    if (suspects.length > 0) membersWithSuspects += 1;
+    revenueAtRisk += suspects.reduce((s, h) => s + h.revenue_uplift_estimate, 0);
+    rafSum += context.memberRAF?.[m.member_id] ?? 0;
+  });
+  return {
+    provider_id: provider.provider_id,
+    name: provider.name ?? provider.provider_id,
+    specialty: provider.specialty ?? 'Unknown',
+    is_pcp: provider.is_pcp === true,
+    state: provider.state ?? null,
+    attributed_members: panel.length,
+    avg_raf: panel.length > 0 ? Math.round((rafSum / panel.length) * 1000) / 1000 : 0,
+    suspect_hccs: suspectCount,
+    members_with_suspects: membersWithSuspects,
+    revenue_at_risk: round2(revenueAtRisk),
+    recapture_rate: recapture.totals.recapture_rate,
+    open_recapture_gaps: recapture.totals.open,
+  };
+}
+
+/**
+ * Scorecards for every provider with at least one attributed member.
+ * Providers missing from the roster (claims-only ids) still get a row.
+ */
+export function buildProviderScorecards(members, providersById, context) {
+  const panels = groupByProvider(members, context.attribution);
+  return Object.entries(panels).map(([providerId, panel]) =>
+    buildScorecard(providersById[providerId] ?? { provider_id: providerId }, panel, context)
+  );
+}
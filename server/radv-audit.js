@@ -0,0 +1,195 @@
+/**
+ * RADV Audit Simulator
+ * Estimates payment error if coded HCCs were audited, RADV style:
+ *   1. Frame: members with at least one coded HCC, split into RAF strata (equal-count bands of coded RAF)
+ *   2. Seeded random sample of n members per stratum (same seed → same sample)
+ *   3. Each sampled HCC is validated against claim-level support: an eligible face-to-face claim
+ *      (see crosswalk.js) in the audit year carrying a diagnosis that maps to the HCC
+ *   4. Member overpayment = (coded RAF − RAF from supported HCCs only) × base rate × member months
+ *   5. Stratified extrapolation: total = Σ N_h × mean_h, with a normal-approximation confidence
+ *      interval (finite population correction). As in RADV, recovery is taken at the lower bound.
+ * Coded HCCs and coded RAF are the audit year's (getCodedHCCs), so every claim-derived code carries its
+ * own support and errors come from HCCs coded from the member record without claim-level diagnoses.
+ * Underpayments (supported HCCs that were not coded) are not netted.
+ */
+
+import { computeRAF, computeRiskAdjRevenue, getCodedHCCs, getHCCSupport, resolveModel, CURRENT_PAYMENT_YEAR } from './risk-adjustment.js';
+
+const DEFAULTS = { sample_size: 67, strata: 3, seed: 1, confidence_level: 0.9 };
+// Two-sided normal critical values for the supported confidence levels
+const Z_VALUES = { 0.8: 1.2816, 0.9: 1.6449, 0.95: 1.96, 0.99: 2.5758 };
+
+function round2(v) {
+  return Math.round(v * 100) / 100;
+}
+
+function seededRandom(seed) {
+  const x = Math.sin(seed) * 10000;
+  return x - Math.floor(x);
+}
+
+/** Seeded Fisher–Yates: first n items of a reproducible shuffle. */
+function sampleSeeded(items, n, seed) {
+  const arr = [...items];
+  for (let i = arr.length - 1; i > 0; i--) {
+    const j = Math.floor(seededRandom(seed * 7919 + i) * (i + 1));
+    [arr[i], arr[j]] = [arr[j], arr[i]];
+  }
+  return arr.slice(0, n);
+}
+
+/**
+ * Validates simulator options. Returns error strings (empty when valid).
+ */
+export function validateRadvOptions(options = {}) {
+  const errors = [];
+  const { sample_size, strata, seed, confidence_level, audit_year } = options;
+  if (sample_size !== undefined && !(Number.isInteger(sample_size) && sample_size >= 2 && sample_size <= 2000)) {
+    errors.push('sample_size (members per stratum) must be an integer between 2 and 2000');
+  }
+  if (strata !== undefined && !(Number.isInteger(strata) && strata >= 1 && strata <= 10)) {
+    errors.push('strata must be an integer between 1 and 10');
+  }
+  if (seed !== undefined && !Number.isInteger(seed)) errors.push('seed must be an integer');
+  if (confidence_level !== undefined && !Z_VALUES[confidence_level]) {
+    errors.push(`confidence_level must be one of ${Object.keys(Z_VALUES).join(', ')}`);
+  }
+  if (audit_year !== undefined && !(Number.isInteger(audit_year) && audit_year >= 2000 && audit_year <= 2100)) {
+    errors.push('audit_year must be a four-digit year');
+  }
+  return errors;
+}
+
+/** Coded vs. audit-year-supported HCCs and the resulting overpayment for one member. */
+function auditMember(member, claimsByMember, auditYear, model) {
+  const coded = getCodedHCCs(member, claimsByMember, auditYear);
+  const yearClaims = (claimsByMember[member.member_id] || []).filter((c) => String(c.service_date).startsWith(String(auditYear)));
+  const support = getHCCSupport(member, { [member.member_id]: yearClaims }) ?? {};
+  const unsupported = coded.filter((hcc) => !support[hcc]);
+  const months = member.member_months ?? 12;
+  const rafCoded = computeRAF(member, claimsByMember, model.id, auditYear);
+  // Claims restricted to the audit year; the static hcc_codes fallback never counts as support
+  const rafSupported = unsupported.length
+    ? computeRAF({ ...member, hcc_codes: [] }, { [member.member_id]: yearClaims }, model.id, auditYear)
+    : rafCoded;
+  return {
+    coded,
+    unsupported,
+    raf_coded: rafCoded,
+    raf_supported: rafSupported,
+    payment: computeRiskAdjRevenue(rafCoded, months, model.id),
+    overpayment: round2(Math.max(0, rafCoded - rafSupported) * model.base_rate_pmpm * months),
+  };
+}
+
+/** Equal-count RAF bands over the frame: [{ min, max, members }], lowest first. */
+function buildStrata(frame, count) {
+  const sorted = [...frame].sort((a, b) => a.raf - b.raf || a.member.member_id.localeCompare(b.member.member_id));
+  const strata = [];
+  for (let h = 0; h < count; h++) {
+    const slice = sorted.slice(Math.floor((h * sorted.length) / count), Math.floor(((h + 1) * sorted.length) / count));
+    if (slice.length === 0) continue;
+    strata.push({ min: slice[0].raf, max: slice[slice.length - 1].raf, members: slice });
+  }
+  return strata;
+}
+
+/**
+ * Runs the simulation. rafMap (member_id → payment-year coded RAF) is optional and only saves
+ * recomputation; it is ignored when the audit year is not CURRENT_PAYMENT_YEAR.
+ * Options: sample_size (per stratum), strata, seed, confidence_level, audit_year, modelId.
+ */
+export function runRadvSimulation(members, claimsByMember, options = {}, rafMap = {}) {
+  const sampleSize = options.sample_size ?? DEFAULTS.sample_size;
+  const strataCount = options.strata ?? DEFAULTS.strata;
+  const seed = options.seed ?? DEFAULTS.seed;
+  const confidenceLevel = options.confidence_level ?? DEFAULTS.confidence_level;
+  const auditYear = options.audit_year ?? CURRENT_PAYMENT_YEAR;
+  const model = resolveModel(options.modelId);
+  const z = Z_VALUES[confidenceLevel];
+
+  const knownRAF = auditYear === CURRENT_PAYMENT_YEAR ? rafMap : {};
+  const frame = members
+    .filter((m) => getCodedHCCs(m, claimsByMember, auditYear).length > 0)
+    .map((m) => ({ member: m, raf: knownRAF[m.member_id] ?? computeRAF(m, claimsByMember, model.id, auditYear) }));
+  const strata = buildStrata(frame, strataCount);
+
+  let total = 0;
+  let variance = 0;
+  let sampledHCCs = 0;
+  let unsupportedHCCs = 0;
+  let sampledPayment = 0;
+  let sampledOverpayment = 0;
+  const sample = [];
+  const byStratum = strata.map((s, h) => {
+    const N = s.members.length;
+    const drawn = sampleSeeded(s.members, Math.min(sampleSize, N), seed + h);
+    const results = drawn.map(({ member }) => ({ member, ...auditMember(member, claimsByMember, auditYear, model) }));
+    const n = results.length;
+    const mean = results.reduce((sum, r) => sum + r.overpayment, 0) / n;
+    const s2 = n > 1 ? results.reduce((sum, r) => sum + (r.overpayment - mean) ** 2, 0) / (n - 1) : 0;
+    const stratumVariance = N * N * (1 - n / N) * (s2 / n);
+    total += N * mean;
+    variance += stratumVariance;
+
+    const hccs = results.reduce((sum, r) => sum + r.coded.length, 0);
+    const unsupported = results.reduce((sum, r) => sum + r.unsupported.length, 0);
+    const payment = results.reduce((sum, r) => sum + r.payment, 0);
+    const overpayment = results.reduce((sum, r) => sum + r.overpayment, 0);
+    sampledHCCs += hccs;
+    unsupportedHCCs += unsupported;
+    sampledPayment += payment;
+    sampledOverpayment += overpayment;
+    results.forEach((r) => {
+      sample.push({
+        member_id: r.member.member_id,
+        stratum: h + 1,
+        plan_type: r.member.plan_type,
+        state: r.member.state,
+        coded_hccs: r.coded,
+        unsupported_hccs: r.unsupported,
+        raf_coded: r.raf_coded,
+        raf_supported: r.raf_supported,
+        overpayment: r.overpayment,
+      });
+    });
+    return {
+      stratum: h + 1,
+      raf_min: s.min,
+      raf_max: s.max,
+      population: N,
+      sampled: n,
+      hccs_reviewed: hccs,
+      hccs_unsupported: unsupported,
+      hcc_error_rate: hccs > 0 ? Math.round((unsupported / hccs) * 1000) / 1000 : null,
+      payment_error_rate: payment > 0 ? Math.round((overpayment / payment) * 1000) / 1000 : null,
+      mean_overpayment: round2(mean),
+      extrapolated_overpayment: round2(N * mean),
+      standard_error: round2(Math.sqrt(stratumVariance)),
+    };
+  });
+
+  const se = Math.sqrt(variance);
+  const populationPayment = frame.reduce((sum, f) => sum + computeRiskAdjRevenue(f.raf, f.member.member_months ?? 12, model.id), 0);
+  return {
+    model: { id: model.id },
+    audit_year: auditYear,
+    seed,
+    confidence_level: confidenceLevel,
+    frame_members: frame.length,
+    sampled_members: sample.length,
+    sample_hcc_error_rate: sampledHCCs > 0 ? Math.round((unsupportedHCCs / sampledHCCs) * 1000) / 1000 : null,
+    sample_payment_error_rate: sampledPayment > 0 ? Math.round((sampledOverpayment / sampledPayment) * 1000) / 1000 : null,
+    population_payment: round2(populationPayment),
+    extrapolation: {
+      estimated_overpayment: round2(total),
+      standard_error: round2(se),
+      // RADV-style recovery amount: the lower bound
+      ci_lower: round2(Math.max(0, total - z * se)),
+      ci_upper: round2(total + z * se),
+      payment_error_rate: populationPayment > 0 ? Math.round((total / populationPayment) * 1000) / 1000 : null,
+    },
+    by_stratum: byStratum,
+    sample,
+  };
+}
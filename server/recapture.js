@@ -0,0 +1,149 @@
+/**
+ * HCC Recapture
+ * Chronic HCCs must be documented every payment year to count toward the risk score.
+ * Splits claim-derived HCC support by service year and flags HCCs documented in the
+ * prior year but not (yet) in the current year — "open" recapture gaps.
+ *
+ * recapture_rate = recaptured / prior-year HCCs, for members enrolled in the current year.
+ * Members whose claims carry no diagnosis codes have no year-level support and are skipped.
+ */
+
+import { computeMarginalRAF, getCodedHCCs, getHCCSupport, resolveModel, CURRENT_PAYMENT_YEAR } from './risk-adjustment.js';
+import { countMemberMonths } from './eligibility.js';
+
+function round2(v) {
+  return Math.round(v * 100) / 100;
+}
+
+/**
+ * HCC support grouped by service year: { 2024: { HCC_xx: [support...] }, ... },
+ * or null when the member has no diagnosis-coded claims.
+ */
+export function getHCCsByYear(member, claimsByMember = {}) {
+  const support = getHCCSupport(member, claimsByMember);
+  if (!support) return null;
+  const byYear = {};
+  Object.entries(support).forEach(([hcc, claims]) => {
+    claims.forEach((c) => {
+      const year = Number(String(c.service_date).slice(0, 4));
+      if (!byYear[year]) byYear[year] = {};
+      if (!byYear[year][hcc]) byYear[year][hcc] = [];
+      byYear[year][hcc].push(c);
+    });
+  });
+  return byYear;
+}
+
+/**
+ * Per-member recapture status for currentYear vs. the year before.
+ * Returns { prior: [HCC], recaptured: [HCC], gaps: [{ hcc, prior_year, prior_claims, last_documented }] },
+ * or null when the member has no diagnosis-coded claims.
+ */
+export function getRecaptureStatus(member, claimsByMember = {}, currentYear = CURRENT_PAYMENT_YEAR) {
+  const byYear = getHCCsByYear(member, claimsByMember);
+  if (!byYear) return null;
+  const priorYear = currentYear - 1;
+  const prior = byYear[priorYear] || {};
+  const current = byYear[currentYear] || {};
+  const priorCodes = Object.keys(prior);
+  const gaps = priorCodes
+    .filter((hcc) => !current[hcc])
+    .map((hcc) => {
+      const claims = prior[hcc];
+      const last = claims.reduce((d, c) => (c.service_date > d ? c.service_date : d), '');
+      return { hcc, prior_year: priorYear, prior_claims: new Set(claims.map((c) => c.claim_id)).size, last_documented: last };
+    });
+  return { prior: priorCodes, recaptured: priorCodes.filter((hcc) => current[hcc]), gaps };
+}
+
+/** basis: member_joint (members' gaps recaptured together) or gap_marginal (each gap on its own). */
+function emptyRow(key, basis) {
+  return { key, basis, prior_hccs: 0, recaptured: 0, open: 0, open_raf: 0, open_revenue: 0 };
+}
+
+function finishRow(row) {
+  return {
+    ...row,
+    recapture_rate: row.prior_hccs > 0 ? Math.round((row.recaptured / row.prior_hccs) * 1000) / 1000 : null,
+    open_raf: Math.round(row.open_raf * 1000) / 1000,
+    open_revenue: round2(row.open_revenue),
+  };
+}
+
+/**
+ * Population recapture analysis. Only members enrolled in currentYear count (a termed member
+ * cannot be recaptured). A member's open_raf is the marginal RAF of recapturing all of their gaps
+ * together on top of the current-year coded HCCs, so hierarchies are not double-counted; totals,
+ * by_plan and by_state add up these member values (basis member_joint). by_hcc rows price each gap
+ * on its own (basis gap_marginal) and so need not sum to the totals.
+ * open_revenue = open RAF × base rate × current-year enrolled months.
+ */
+export function computeRecapture(members, claimsByMember = {}, { currentYear = CURRENT_PAYMENT_YEAR, modelId, eligibilityByMember = {} } = {}) {
+  const model = resolveModel(modelId);
+  const from = `${currentYear}-01`;
+  const to = `${currentYear}-12`;
+  const totals = emptyRow('all', 'member_joint');
+  const byPlan = {};
+  const byState = {};
+  const byHCC = {};
+  const openMembers = [];
+
+  members.forEach((m) => {
+    const segments = eligibilityByMember[m.member_id];
+    const months = segments && segments.length > 0 ? countMemberMonths(segments, from, to) : m.member_months ?? 12;
+    if (months === 0) return;
+    const status = getRecaptureStatus(m, claimsByMember, currentYear);
+    if (!status || status.prior.length === 0) return;
+
+    const plan = m.plan_type || 'Unknown';
+    const state = m.state || 'Unknown';
+    if (!byPlan[plan]) byPlan[plan] = emptyRow(plan, 'member_joint');
+    if (!byState[state]) byState[state] = emptyRow(state, 'member_joint');
+    const rows = [totals, byPlan[plan], byState[state]];
+
+    status.prior.forEach((hcc) => {
+      if (!byHCC[hcc]) byHCC[hcc] = emptyRow(hcc, 'gap_marginal');
+      [...rows, byHCC[hcc]].forEach((r) => {
+        r.prior_hccs += 1;
+        if (status.recaptured.includes(hcc)) r.recaptured += 1;
+      });
+    });
+    const coded = getCodedHCCs(m, claimsByMember, currentYear);
+    status.gaps.forEach((g) => {
+      const uplift = computeMarginalRAF(m, coded, [g.hcc], model.id);
+      const row = byHCC[g.hcc];
+      row.open += 1;
+      row.open_raf += uplift;
+      row.open_revenue += uplift * model.base_rate_pmpm * months;
+    });
+    if (status.gaps.length > 0) {
+      const openRaf = computeMarginalRAF(m, coded, status.gaps.map((g) => g.hcc), model.id);
+      const openRevenue = round2(openRaf * model.base_rate_pmpm * months);
+      rows.forEach((r) => {
+        r.open += status.gaps.length;
+        r.open_raf += openRaf;
+        r.open_revenue += openRevenue;
+      });
+      openMembers.push({
+        member_id: m.member_id,
+        plan_type: plan,
+        state,
+        gaps: status.gaps,
+        open_raf: Math.round(openRaf * 1000) / 1000,
+        open_revenue: openRevenue,
+      });
+    }
+  });
+
+  const sortRows = (rows) => Object.values(rows).map(finishRow).sort((a, b) => b.open_revenue - a.open_revenue);
+  return {
+    current_year: currentYear,
+    prior_year: currentYear - 1,
+    totals: finishRow(totals),
+    by_plan: sortRows(byPlan),
+    by_state: sortRows(byState),
+    by_hcc: sortRows(byHCC),
+    members: openMembers.sort((a, b) => b.open_revenue - a.open_revenue).slice(0, 50),
+    members_with_gaps: openMembers.length,
+  };
+}
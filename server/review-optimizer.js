@@ -0,0 +1,183 @@
+/**
+ * Chart Review Optimizer
+ * Chooses which members' charts to pull under a review budget. One review covers all of a member's
+ * suspect HCCs:
+ *   expected revenue  = Σ over confirmation outcomes of P(outcome) × revenue of the confirmed HCCs
+ *   net               = expected revenue − cost per chart
+ * Suspects confirm independently, each at the per-HCC rate given in confirmation_rates, else the
+ * suspect's own confidence (calibrated when a calibration is active). The revenue of a set of
+ * confirmed HCCs is their joint marginal RAF on top of the payment-year coded HCCs × base rate ×
+ * member months, so suspects in one hierarchy (CHF and hypertension) are not both paid and
+ * interactions between suspects count. potential_revenue is the revenue if every suspect confirms.
+ * Every review costs the same, so taking
+ * members in order of net value until the budget runs out is the optimal selection; members whose
+ * expected revenue does not cover the review cost are never selected.
+ *
+ * The frontier walks the same ranking past the budget: cumulative spend vs. captured revenue, so the
+ * point where another chart stops paying for itself is visible.
+ */
+
+import { computeMarginalRAF, getCodedHCCs, resolveModel } from './risk-adjustment.js';
+
+const DEFAULTS = { budget: 50000, cost_per_chart: 150, limit: 100 };
+const FRONTIER_POINTS = 25;
+// Outcomes are enumerated exactly up to this many suspects per member (2^n sets)
+const MAX_JOINT_SUSPECTS = 8;
+
+function round2(v) {
+  return Math.round(v * 100) / 100;
+}
+
+function round3(v) {
+  return Math.round(v * 1000) / 1000;
+}
+
+/**
+ * Validates optimizer options. Returns error strings (empty when valid).
+ */
+export function validateOptimizerOptions(options = {}) {
+  const errors = [];
+  const { budget, cost_per_chart, confirmation_rates, limit } = options;
+  if (budget !== undefined && !(Number.isFinite(budget) && budget >= 0)) errors.push('budget must be a non-negative number');
+  if (cost_per_chart !== undefined && !(Number.isFinite(cost_per_chart) && cost_per_chart > 0)) {
+    errors.push('cost_per_chart must be a positive number');
+  }
+  if (confirmation_rates !== undefined) {
+    if (!confirmation_rates || typeof confirmation_rates !== 'object' || Array.isArray(confirmation_rates)) {
+      errors.push('confirmation_rates must map HCC codes to rates');
+    } else {
+      Object.entries(confirmation_rates).forEach(([hcc, rate]) => {
+        if (!(Number.isFinite(rate) && rate >= 0 && rate <= 1)) errors.push(`confirmation_rates.${hcc} must be between 0 and 1`);
+      });
+    }
+  }
+  if (limit !== undefined && !(Number.isInteger(limit) && limit >= 1 && limit <= 1000)) errors.push('limit must be an integer between 1 and 1000');
+  return errors;
+}
+
+/**
+ * Expected revenue over every confirmed / not-confirmed outcome of the suspects, and the revenue
+ * when all confirm. Beyond MAX_JOINT_SUSPECTS the per-suspect uplifts are summed instead.
+ */
+function jointRevenue(member, suspects, probabilities, ctx) {
+  if (suspects.length > MAX_JOINT_SUSPECTS) {
+    return {
+      expected: suspects.reduce((s, h, i) => s + probabilities[i] * h.revenue_uplift_estimate, 0),
+      potential: suspects.reduce((s, h) => s + h.revenue_uplift_estimate, 0),
+    };
+  }
+  const coded = getCodedHCCs(member, ctx.claimsByMember);
+  const revenueOf = (hccs) => computeMarginalRAF(member, coded, hccs, ctx.model.id) * ctx.model.base_rate_pmpm * (member.member_months ?? 12);
+  let expected = 0;
+  for (let mask = 1; mask < 1 << suspects.length; mask++) {
+    let p = 1;
+    const confirmed = [];
+    suspects.forEach((h, i) => {
+      const hit = (mask >> i) & 1;
+      p *= hit ? probabilities[i] : 1 - probabilities[i];
+      if (hit) confirmed.push(h.hcc_code);
+    });
+    if (p > 0) expected += p * revenueOf(confirmed);
+  }
+  return { expected, potential: revenueOf(suspects.map((h) => h.hcc_code)) };
+}
+
+/** Expected value of reviewing one member's chart. */
+function scoreMember(member, suspects, rates, costPerChart, ctx) {
+  const probabilities = suspects.map((h) => rates[h.hcc_code] ?? h.confidence ?? 0);
+  const { expected, potential } = jointRevenue(member, suspects, probabilities, ctx);
+  const scored = suspects.map((h, i) => {
+    const rate = probabilities[i];
+    return {
+      hcc: h.hcc_code,
+      condition: h.condition,
+      confirmation_rate: round3(rate),
+      revenue_uplift: h.revenue_uplift_estimate,
+      expected_revenue: round2(rate * h.revenue_uplift_estimate),
+    };
+  });
+  return {
+    member_id: member.member_id,
+    plan_type: member.plan_type,
+    state: member.state,
+    suspects: scored,
+    potential_revenue: round2(potential),
+    expected_revenue: round2(expected),
+    expected_net: round2(expected - costPerChart),
+  };
+}
+
+function frontierPoint(charts, spend, revenue) {
+  return {
+    charts,
+    spend: round2(spend),
+    expected_revenue: round2(revenue),
+    expected_net: round2(revenue - spend),
+    roi: spend > 0 ? round3((revenue - spend) / spend) : null,
+  };
+}
+
+/**
+ * Runs the optimizer. suspectMap: member_id → suspects (pipeline output) under modelId; claimsByMember
+ * gives the coded HCCs the suspects add to. Options: budget, cost_per_chart, confirmation_rates
+ * ({ HCC: rate }), limit (selected members returned).
+ * Returns { assumptions, summary, members: ranked selection with cumulative spend / revenue / ROI,
+ * frontier: [{ charts, spend, expected_revenue, expected_net, roi }] }.
+ */
+export function optimizeChartReviews(members, suspectMap, options = {}, { claimsByMember = {}, modelId } = {}) {
+  const ctx = { claimsByMember, model: resolveModel(modelId) };
+  const budget = options.budget ?? DEFAULTS.budget;
+  const costPerChart = options.cost_per_chart ?? DEFAULTS.cost_per_chart;
+  const rates = options.confirmation_rates ?? {};
+  const limit = options.limit ?? DEFAULTS.limit;
+
+  const candidates = members
+    .filter((m) => (suspectMap[m.member_id] || []).length > 0)
+    .map((m) => scoreMember(m, suspectMap[m.member_id], rates, costPerChart, ctx));
+  const ranked = candidates.filter((c) => c.expected_net > 0).sort((a, b) => b.expected_net - a.expected_net || a.member_id.localeCompare(b.member_id));
+  const affordable = Math.floor(budget / costPerChart);
+  const selected = ranked.slice(0, affordable);
+
+  let spend = 0;
+  let revenue = 0;
+  const rows = selected.map((c, i) => {
+    spend += costPerChart;
+    revenue += c.expected_revenue;
+    return {
+      rank: i + 1,
+      ...c,
+      cumulative_spend: round2(spend),
+      cumulative_expected_revenue: round2(revenue),
+      cumulative_roi: round3((revenue - spend) / spend),
+    };
+  });
+
+  // Evenly spaced points along the full ranking, plus the budget point
+  const frontier = [frontierPoint(0, 0, 0)];
+  const step = Math.max(1, Math.ceil(ranked.length / FRONTIER_POINTS));
+  let frontierRevenue = 0;
+  ranked.forEach((c, i) => {
+    frontierRevenue += c.expected_revenue;
+    const charts = i + 1;
+    if (charts % step === 0 || charts === ranked.length || charts === selected.length) {
+      frontier.push(frontierPoint(charts, charts * costPerChart, frontierRevenue));
+    }
+  });
+
+  return {
+    assumptions: { budget, cost_per_chart: costPerChart, confirmation_rates: rates },
+    summary: {
+      members_with_suspects: candidates.length,
+      members_worth_reviewing: ranked.length,
+      charts_affordable: affordable,
+      charts_selected: selected.length,
+      spend: round2(spend),
+      unspent_budget: round2(budget - spend),
+      expected_revenue: round2(revenue),
+      expected_net: round2(revenue - spend),
+      roi: spend > 0 ? round3((revenue - spend) / spend) : null,
+    },
+    members: rows.slice(0, limit),
+    frontier,
+  };
+}
@@ -8,96 +8,181 @@
  * what we're missing, and how closing gaps moves MLR."
  */
 
-// Base rate for risk adjustment revenue (configurable, $ PMPM)
-// Assumption: $900 PMPM aligns with typical MA/ACA risk adj. base rates
-export const BASE_RATE_PMPM = 900;
+import { getModel } from './model-registry.js';
+import { mapDiagnosisToHCC, isEligibleClaim } from './crosswalk.js';
+import { getProcedurePatterns, getConditionProcedureMatches } from './procedure-codes.js';
+
+const DEFAULT_MODEL = getModel();
+
+// Payment year whose risk score is being built (override with CURRENT_PAYMENT_YEAR)
+export const CURRENT_PAYMENT_YEAR = Number(process.env.CURRENT_PAYMENT_YEAR) || 2025;
 
 /**
- * HCC Weights (simplified, illustrative only)
- * Not from actual CMS model. Used for demo math.
+ * Resolves a model id to its definition; unknown or empty ids use the default model.
  */
-export const HCC_WEIGHTS = {
-  HCC_18: 0.32,  // Diabetes
-  HCC_85: 0.45,  // CHF
-  HCC_96: 0.29,  // COPD
-  HCC_108: 0.38, // CKD
-  HCC_19: 0.14,  // Hypertension
-};
+export function resolveModel(modelId) {
+  return getModel(modelId) ?? DEFAULT_MODEL;
+}
 
 /**
- * Suspect HCC mapping: claims pattern → suspected HCC if not coded
- * e.g. High RX spend without Diabetes HCC → suspect Diabetes
+ * Demographic RAF factors come from the model's age bands × gender.
+ * Assumption: Simplified 5 bands; real CMS uses finer lookup.
  */
-export const SUSPECT_RULES = {
-  HCC_18: { pattern: 'high_rx_no_diabetes', weight: 0.32 },
-  HCC_85: { pattern: 'high_ip_no_chf', weight: 0.45 },
-  HCC_96: { pattern: 'respiratory_claims_no_copd', weight: 0.29 },
-  HCC_108: { pattern: 'lab_pattern_no_ckd', weight: 0.38 },
-  HCC_19: { pattern: 'multiple_rx_no_htn', weight: 0.14 },
-};
+function findAgeBand(age, model) {
+  const bands = model.demographic_bands;
+  for (let i = bands.length - 1; i >= 0; i--) {
+    if (age >= bands[i].min_age) return bands[i];
+  }
+  return bands[0];
+}
+
+export function getDemographicRAF(age, gender, modelId) {
+  const model = resolveModel(modelId);
+  return findAgeBand(age, model)?.[gender] ?? model.default_demographic_factor;
+}
 
 /**
- * Demographic RAF factors by age band and gender
- * Assumption: Simplified 5 bands; real CMS uses finer lookup.
- * Values illustrative for demo.
+ * HCC support from claims: diagnosis codes on eligible claims, mapped through the crosswalk.
+ * Returns { HCC_xx: [{ claim_id, service_date, claim_type, diagnosis_code }] }, or null when
+ * none of the member's claims carry diagnosis codes (legacy data without dx).
+ */
+export function getHCCSupport(member, claimsByMember = {}) {
+  const claims = claimsByMember[member.member_id] || [];
+  if (!claims.some((c) => (c.diagnosis_codes || []).length > 0)) return null;
+  const support = {};
+  for (const c of claims) {
+    if (!isEligibleClaim(c)) continue;
+    for (const dx of c.diagnosis_codes || []) {
+      const hcc = mapDiagnosisToHCC(dx);
+      if (!hcc) continue;
+      if (!support[hcc]) support[hcc] = [];
+      support[hcc].push({ claim_id: c.claim_id, service_date: c.service_date, claim_type: c.claim_type, diagnosis_code: dx });
+    }
+  }
+  return support;
+}
+
+/**
+ * Member's coded HCC set for a payment year: HCCs documented on claims with a service date in that
+ * year when the member has diagnosis-coded claims, otherwise the static member.hcc_codes field.
+ * Chronic HCCs documented only in earlier years do not count until recaptured (see recapture.js).
  */
-const DEMO_RAF_BY_AGE_GENDER = {
-  '18-34': { M: 0.35, F: 0.42 },
-  '35-44': { M: 0.45, F: 0.52 },
-  '45-54': { M: 0.62, F: 0.68 },
-  '55-64': { M: 0.88, F: 0.92 },
-  '65+': { M: 1.15, F: 1.22 },
-};
-
-export function getAgeBand(age) {
-  if (age < 35) return '18-34';
-  if (age < 45) return '35-44';
-  if (age < 55) return '45-54';
-  if (age < 65) return '55-64';
-  return '65+';
+export function getCodedHCCs(member, claimsByMember = {}, year = CURRENT_PAYMENT_YEAR) {
+  const support = getHCCSupport(member, claimsByMember);
+  if (!support) return member.hcc_codes || [];
+  return Object.keys(support).filter((hcc) => support[hcc].some((s) => String(s.service_date).startsWith(String(year))));
 }
 
-export function getDemographicRAF(age, gender) {
-  const band = getAgeBand(age);
-  const row = DEMO_RAF_BY_AGE_GENDER[band];
-  return row ? row[gender] ?? 0.5 : 0.5;
+/**
+ * Hierarchies: when a higher-severity HCC is coded, lower HCCs in the same
+ * family are dropped so related conditions are not double-counted.
+ */
+export function applyHierarchies(codes, modelId) {
+  const model = resolveModel(modelId);
+  const kept = new Set(codes);
+  const dropped = [];
+  for (const rule of model.hierarchies) {
+    if (!kept.has(rule.hcc)) continue;
+    for (const lower of rule.drops) {
+      if (!kept.has(lower)) continue;
+      kept.delete(lower);
+      dropped.push({ code: lower, dropped_by: rule.hcc, family: rule.family, weight: model.hcc_weights[lower] || 0 });
+    }
+  }
+  return { kept: codes.filter((c) => kept.has(c)), dropped };
+}
+
+/**
+ * Full RAF decomposition:
+ *   demographic + Σ(HCC weights after hierarchies) + Σ(interaction terms) + HCC count term
+ * Interaction terms apply when every HCC in the pair survives hierarchies;
+ * the count term uses the highest band whose min_count the payment HCC count reaches.
+ * HCCs are the ones coded in the payment year (default CURRENT_PAYMENT_YEAR).
+ */
+export function computeRAFBreakdown(member, claimsByMember = {}, modelId, year = CURRENT_PAYMENT_YEAR) {
+  const model = resolveModel(modelId);
+  const demographic = getDemographicRAF(member.age, member.gender, model.id);
+  const coded = [...new Set(getCodedHCCs(member, claimsByMember, year))];
+  const { kept, dropped } = applyHierarchies(coded, model.id);
+  const hccs = kept.map((code) => ({ code, weight: model.hcc_weights[code] || 0 }));
+  const hcc = hccs.reduce((s, h) => s + h.weight, 0);
+
+  const interactions = model.interactions
+    .filter((i) => i.hccs.every((code) => kept.includes(code)))
+    .map((i) => ({ id: i.id, label: i.label, hccs: i.hccs, weight: i.weight }));
+  const interaction = interactions.reduce((s, i) => s + i.weight, 0);
+
+  const countTerm = model.hcc_count_terms.filter((t) => kept.length >= t.min_count).pop();
+  const count = countTerm?.weight ?? 0;
+
+  const raw = demographic + hcc + interaction + count;
+  const total = Math.max(model.normalization.min, Math.min(model.normalization.max, raw));
+  return {
+    demographic,
+    hcc: Math.round(hcc * 1000) / 1000,
+    interaction: Math.round(interaction * 1000) / 1000,
+    count: Math.round(count * 1000) / 1000,
+    total: Math.round(total * 1000) / 1000,
+    hccs,
+    dropped_hccs: dropped,
+    interactions,
+    hcc_count: kept.length,
+  };
+}
+
+/**
+ * RAF = demographic_factor + Σ(HCC_weights) + interactions + count term
+ * Normalized to the model's [min, max] bounds
+ */
+export function computeRAF(member, claimsByMember = {}, modelId, year = CURRENT_PAYMENT_YEAR) {
+  return computeRAFBreakdown(member, claimsByMember, modelId, year).total;
 }
 
 /**
- * RAF = demographic_factor + Σ(HCC_weights)
- * Normalized to [0.3, 3.0]
+ * Marginal RAF of adding HCCs to a coded set: RAF(coded + added) − RAF(coded), so hierarchies,
+ * interactions, the count term and normalization all apply. An HCC already coded, or dropped by a
+ * coded higher-severity HCC, adds 0. Floored at 0.
  */
-export function computeRAF(member, claimsByMember = {}) {
-  const ageBand = getAgeBand(member.age);
-  const demo = DEMO_RAF_BY_AGE_GENDER[ageBand]?.[member.gender] ?? 0.5;
-  const hccSum = (member.hcc_codes || []).reduce((s, code) => s + (HCC_WEIGHTS[code] || 0), 0);
-  let raf = demo + hccSum;
-  raf = Math.max(0.3, Math.min(3.0, raf));
-  return Math.round(raf * 1000) / 1000;
+export function computeMarginalRAF(member, coded, added, modelId) {
+  // RAF from an explicit code list: no claims, so the hcc_codes field is the coded set
+  const rafFor = (codes) => computeRAF({ ...member, hcc_codes: [...new Set(codes)] }, {}, modelId);
+  return Math.round(Math.max(0, rafFor([...coded, ...added]) - rafFor(coded)) * 1000) / 1000;
 }
 
 /**
- * Suspected HCCs: based on claims patterns when HCC not coded
+ * Legacy suspected HCCs: single-signal claims patterns when HCC not coded.
+ * Superseded by the suspect pipeline (suspect-pipeline.js); kept only for the
+ * GET /api/suspects/reconciliation migration report.
  */
-export function computeSuspectHCCs(member, claimsByMember = {}) {
+export function computeSuspectHCCs(member, claimsByMember = {}, modelId) {
+  const weights = resolveModel(modelId).hcc_weights;
   const claims = claimsByMember[member.member_id] || [];
-  const hasHCC = (code) => (member.hcc_codes || []).includes(code);
+  const coded = getCodedHCCs(member, claimsByMember);
+  const hasHCC = (code) => coded.includes(code);
   const rxTotal = claims.filter((c) => c.claim_type === 'RX').reduce((s, c) => s + c.allowed_amount, 0);
   const ipTotal = claims.filter((c) => c.claim_type === 'IP').reduce((s, c) => s + c.allowed_amount, 0);
   const rxCount = claims.filter((c) => c.claim_type === 'RX').length;
 
   const suspects = [];
-  if (rxTotal > 2000 && !hasHCC('HCC_18')) suspects.push({ code: 'HCC_18', weight: 0.32, reason: 'High RX spend' });
-  if (ipTotal > 15000 && !hasHCC('HCC_85')) suspects.push({ code: 'HCC_85', weight: 0.45, reason: 'High IP utilization' });
-  if (rxCount >= 8 && !hasHCC('HCC_19')) suspects.push({ code: 'HCC_19', weight: 0.14, reason: 'Multiple RX scripts' });
-  if (member.risk_score > 0.75 && !hasHCC('HCC_108')) suspects.push({ code: 'HCC_108', weight: 0.38, reason: 'Elevated risk score' });
-  if (member.chronic_condition_flag && !hasHCC('HCC_96')) suspects.push({ code: 'HCC_96', weight: 0.29, reason: 'Chronic flag, no COPD' });
+  if (rxTotal > 2000 && !hasHCC('HCC_18')) suspects.push({ code: 'HCC_18', weight: weights.HCC_18, reason: 'High RX spend' });
+  if (ipTotal > 15000 && !hasHCC('HCC_85')) suspects.push({ code: 'HCC_85', weight: weights.HCC_85, reason: 'High IP utilization' });
+  if (rxCount >= 8 && !hasHCC('HCC_19')) suspects.push({ code: 'HCC_19', weight: weights.HCC_19, reason: 'Multiple RX scripts' });
+  if (!hasHCC('HCC_108')) {
+    // lab_pattern_no_ckd: repeated renal panels / dialysis; claims without procedure codes fall back to risk score
+    if (claims.some((c) => c.procedure_codes?.length > 0)) {
+      const renal = getConditionProcedureMatches(getProcedurePatterns(claims), 'HCC_108');
+      if (renal.length > 0) suspects.push({ code: 'HCC_108', weight: weights.HCC_108, reason: 'Renal lab / dialysis pattern' });
+    } else if (member.risk_score > 0.75) {
+      suspects.push({ code: 'HCC_108', weight: weights.HCC_108, reason: 'Elevated risk score' });
+    }
+  }
+  if (member.chronic_condition_flag && !hasHCC('HCC_96')) suspects.push({ code: 'HCC_96', weight: weights.HCC_96, reason: 'Chronic flag, no COPD' });
   return suspects;
 }
 
 /**
  * Risk Adjustment Revenue = RAF × Base Rate × Member Months
  */
-export function computeRiskAdjRevenue(raf, memberMonths = 12) {
-  return raf * BASE_RATE_PMPM * memberMonths;
+export function computeRiskAdjRevenue(raf, memberMonths = 12, modelId) {
+  return raf * resolveModel(modelId).base_rate_pmpm * memberMonths;
 }
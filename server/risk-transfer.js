@@ -0,0 +1,146 @@
+/**
+ * ACA HHS Risk Transfer (Simplified, Explainable)
+ * Estimates the transfer payment/charge for each metal-tier plan in each state market.
+ * Parameters (AV, induced demand, statewide average premium) in server/config/risk-transfer.json.
+ * NOT the official HHS-HCC methodology — no age rating or geographic cost factors (both = 1.0).
+ *
+ * Per state market s, for plan i with share s_i of billable member months:
+ *   premium_with_risk_i = PLRS_i × IDF_i / Σ_j s_j × PLRS_j × IDF_j
+ *   premium_without_risk_i = AV_i × IDF_i / Σ_j s_j × AV_j × IDF_j
+ *   transfer_pmpm_i = (premium_with_risk_i − premium_without_risk_i) × P̄_s × (1 − admin_cost_removal)
+ *   transfer_i = transfer_pmpm_i × member_months_i
+ * Positive = payment received from the state pool; negative = charge paid in.
+ * Transfers net to zero within each state.
+ */
+
+import { readFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { monthsBetween } from './eligibility.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const PARAMS = JSON.parse(readFileSync(join(__dirname, 'config', 'risk-transfer.json'), 'utf-8'));
+
+export const RISK_TRANSFER_VERSION = PARAMS.version;
+
+export function getStateAveragePremium(state) {
+  return PARAMS.state_average_premium_pmpm[state] ?? PARAMS.default_state_average_premium_pmpm;
+}
+
+function round2(v) {
+  return Math.round(v * 100) / 100;
+}
+
+/**
+ * Plan liability risk score = member-month-weighted average RAF of the plan's enrollees.
+ * With eligibility spans, each segment's months count toward the plan/state it was enrolled in.
+ */
+function groupByStatePlan(members, memberRAF, eligibilityByMember = {}) {
+  const markets = {};
+  const add = (state, plan, raf, mm) => {
+    if (!markets[state]) markets[state] = {};
+    if (!markets[state][plan]) markets[state][plan] = { member_months: 0, raf_months: 0, members: 0 };
+    markets[state][plan].member_months += mm;
+    markets[state][plan].raf_months += raf * mm;
+    markets[state][plan].members += 1;
+  };
+  members.forEach((m) => {
+    const raf = memberRAF[m.member_id] ?? 0.5;
+    const segments = eligibilityByMember[m.member_id];
+    if (segments && segments.length > 0) {
+      segments.forEach((s) => {
+        add(s.state || m.state || 'Unknown', s.plan_type || m.plan_type || 'Unknown', raf, monthsBetween(s.start_month, s.end_month));
+      });
+    } else {
+      add(m.state || 'Unknown', m.plan_type || 'Unknown', raf, m.member_months ?? 12);
+    }
+  });
+  return markets;
+}
+
+function computeStateMarket(state, plans) {
+  const avgPremium = getStateAveragePremium(state);
+  const totalMonths = Object.values(plans).reduce((s, p) => s + p.member_months, 0);
+  const rows = Object.entries(plans).map(([plan_type, p]) => {
+    const metal = PARAMS.metal_levels[plan_type] ?? { av: 0.7, idf: 1.0 };
+    return {
+      plan_type,
+      members: p.members,
+      member_months: p.member_months,
+      share: totalMonths > 0 ? p.member_months / totalMonths : 0,
+      plrs: p.member_months > 0 ? p.raf_months / p.member_months : 0,
+      av: metal.av,
+      idf: metal.idf,
+    };
+  });
+  const riskDenom = rows.reduce((s, r) => s + r.share * r.plrs * r.idf, 0);
+  const costDenom = rows.reduce((s, r) => s + r.share * r.av * r.idf, 0);
+  const adjustedPremium = avgPremium * (1 - PARAMS.admin_cost_removal);
+
+  const planRows = rows.map((r) => {
+    const withRisk = riskDenom > 0 ? (r.plrs * r.idf) / riskDenom : 0;
+    const withoutRisk = costDenom > 0 ? (r.av * r.idf) / costDenom : 0;
+    const transferPmpm = (withRisk - withoutRisk) * adjustedPremium;
+    return {
+      plan_type: r.plan_type,
+      members: r.members,
+      member_months: r.member_months,
+      plan_liability_risk_score: Math.round(r.plrs * 1000) / 1000,
+      actuarial_value: r.av,
+      induced_demand_factor: r.idf,
+      premium_with_risk_factor: Math.round(withRisk * 10000) / 10000,
+      premium_without_risk_factor: Math.round(withoutRisk * 10000) / 10000,
+      transfer_pmpm: round2(transferPmpm),
+      transfer_total: round2(transferPmpm * r.member_months),
+    };
+  });
+
+  return {
+    state,
+    statewide_average_premium_pmpm: avgPremium,
+    member_months: totalMonths,
+    plans: planRows.sort((a, b) => a.plan_type.localeCompare(b.plan_type)),
+    payments: round2(planRows.filter((p) => p.transfer_total > 0).reduce((s, p) => s + p.transfer_total, 0)),
+    charges: round2(planRows.filter((p) => p.transfer_total < 0).reduce((s, p) => s + p.transfer_total, 0)),
+  };
+}
+
+/**
+ * Runs the transfer calculation for every state market and rolls results up by plan.
+ * memberRAF supplies each member's risk score (from the selected risk model).
+ */
+export function computeRiskTransfer(members, memberRAF, eligibilityByMember) {
+  const markets = groupByStatePlan(members, memberRAF, eligibilityByMember);
+  const states = Object.entries(markets)
+    .map(([state, plans]) => computeStateMarket(state, plans))
+    .sort((a, b) => a.state.localeCompare(b.state));
+
+  const byPlan = {};
+  states.forEach((s) => {
+    s.plans.forEach((p) => {
+      if (!byPlan[p.plan_type]) byPlan[p.plan_type] = { plan_type: p.plan_type, members: 0, member_months: 0, transfer_total: 0, risk_months: 0 };
+      const row = byPlan[p.plan_type];
+      row.members += p.members;
+      row.member_months += p.member_months;
+      row.transfer_total += p.transfer_total;
+      row.risk_months += p.plan_liability_risk_score * p.member_months;
+    });
+  });
+  const plans = Object.values(byPlan).map(({ risk_months, ...p }) => ({
+    ...p,
+    transfer_total: round2(p.transfer_total),
+    transfer_pmpm: p.member_months > 0 ? round2(p.transfer_total / p.member_months) : 0,
+    plan_liability_risk_score: p.member_months > 0 ? Math.round((risk_months / p.member_months) * 1000) / 1000 : 0,
+  }));
+
+  return {
+    version: RISK_TRANSFER_VERSION,
+    admin_cost_removal: PARAMS.admin_cost_removal,
+    states,
+    plans: plans.sort((a, b) => a.plan_type.localeCompare(b.plan_type)),
+    totals: {
+      payments: round2(states.reduce((s, st) => s + st.payments, 0)),
+      charges: round2(states.reduce((s, st) => s + st.charges, 0)),
+    },
+  };
+}
@@ -0,0 +1,171 @@
+/**
+ * Suspect Back-test
+ * Runs the claims-pattern suspect rules on claims before a cutoff date and checks each
+ * suspect against what was coded afterwards:
+ *   confirmed  = the suspected HCC is first coded on a claim on/after the cutoff
+ *   precision  = confirmed / flagged
+ *   recall     = newly coded HCCs that were flagged / newly coded HCCs (with a rule)
+ * Confidences are the raw rule formula (no calibration), binned into a calibration curve.
+ *
+ * Members count only when their claims carry diagnosis codes and fall on both sides of the
+ * cutoff. Member attributes (risk_score, chronic flag) are used as-is, not as of the cutoff.
+ * Recapture suspects are not back-tested (their outcome is the recapture rate, see recapture.js).
+ */
+
+import { getHCCSupport, resolveModel } from './risk-adjustment.js';
+import { getClaimsSummary, evaluateSuspectRules, getSuspectRules } from './suspect-rules.js';
+
+// Calibration bins over raw confidence: [0, 0.5), [0.5, 0.6), … [0.9, 1.0)
+const BIN_EDGES = [0, 0.5, 0.6, 0.7, 0.8, 0.9, 1.0];
+
+function round3(v) {
+  return Math.round(v * 1000) / 1000;
+}
+
+function getBinIndex(confidence) {
+  for (let i = BIN_EDGES.length - 2; i >= 0; i--) {
+    if (confidence >= BIN_EDGES[i]) return i;
+  }
+  return 0;
+}
+
+function emptyStats() {
+  return { flagged: 0, confirmed: 0, newly_coded: 0, newly_coded_flagged: 0, confidence_sum: 0, brier_sum: 0, bins: [] };
+}
+
+function addOutcome(stats, confidence, confirmed) {
+  stats.flagged += 1;
+  if (confirmed) stats.confirmed += 1;
+  stats.confidence_sum += confidence;
+  stats.brier_sum += (confidence - (confirmed ? 1 : 0)) ** 2;
+  const i = getBinIndex(confidence);
+  if (!stats.bins[i]) stats.bins[i] = { n: 0, confirmed: 0, confidence_sum: 0 };
+  stats.bins[i].n += 1;
+  if (confirmed) stats.bins[i].confirmed += 1;
+  stats.bins[i].confidence_sum += confidence;
+}
+
+function getCurve(stats) {
+  return stats.bins
+    .map((b, i) =>
+      b
+        ? {
+            min: BIN_EDGES[i],
+            max: BIN_EDGES[i + 1],
+            n: b.n,
+            confirmed: b.confirmed,
+            mean_confidence: round3(b.confidence_sum / b.n),
+            observed_rate: round3(b.confirmed / b.n),
+          }
+        : null
+    )
+    .filter(Boolean);
+}
+
+function finishStats(stats) {
+  return {
+    flagged: stats.flagged,
+    confirmed: stats.confirmed,
+    precision: stats.flagged > 0 ? round3(stats.confirmed / stats.flagged) : null,
+    newly_coded: stats.newly_coded,
+    recall: stats.newly_coded > 0 ? round3(stats.newly_coded_flagged / stats.newly_coded) : null,
+    mean_confidence: stats.flagged > 0 ? round3(stats.confidence_sum / stats.flagged) : null,
+    brier_score: stats.flagged > 0 ? round3(stats.brier_sum / stats.flagged) : null,
+    calibration_curve: getCurve(stats),
+  };
+}
+
+/**
+ * Fits per-HCC calibrated confidences from curve bins: Laplace-smoothed confirmation rate
+ * per bin, then pooled so calibrated confidence never decreases as raw confidence rises.
+ */
+export function fitCalibration(curve) {
+  const blocks = curve.map((b) => ({ min: b.min, max: b.max, n: b.n, confirmed: b.confirmed }));
+  const rate = (b) => (b.confirmed + 1) / (b.n + 2);
+  // Pool adjacent violators
+  for (let i = 0; i < blocks.length - 1; ) {
+    if (rate(blocks[i]) > rate(blocks[i + 1])) {
+      const merged = {
+        min: blocks[i].min,
+        max: blocks[i + 1].max,
+        n: blocks[i].n + blocks[i + 1].n,
+        confirmed: blocks[i].confirmed + blocks[i + 1].confirmed,
+      };
+      blocks.splice(i, 2, merged);
+      if (i > 0) i -= 1;
+    } else {
+      i += 1;
+    }
+  }
+  return blocks.map((b) => ({ min: b.min, max: b.max, n: b.n, calibrated: Math.min(0.99, Math.max(0.01, round3(rate(b)))) }));
+}
+
+/** Splits each member's claims at the cutoff (service_date < cutoff is "before"). */
+function splitClaims(claims, cutoff) {
+  const before = [];
+  const after = [];
+  claims.forEach((c) => (c.service_date < cutoff ? before : after).push(c));
+  return { before, after };
+}
+
+/**
+ * Back-test over a population. Returns overall and per-HCC precision/recall/calibration and,
+ * when fit is set, a calibration (by_hcc bins) that POST /api/agent/calibration can activate.
+ */
+export function runSuspectBacktest(members, claimsByMember, { cutoff, modelId, fit = false } = {}) {
+  const model = resolveModel(modelId);
+  const { version: rulesVersion, rules } = getSuspectRules();
+  const ruleHCCs = rules.map((r) => r.hcc);
+  const overall = emptyStats();
+  const byHCC = {};
+  ruleHCCs.forEach((hcc) => {
+    byHCC[hcc] = emptyStats();
+  });
+  let evaluated = 0;
+
+  members.forEach((m) => {
+    const claims = claimsByMember[m.member_id] || [];
+    if (!claims.some((c) => (c.diagnosis_codes || []).length > 0)) return;
+    const { before, after } = splitClaims(claims, cutoff);
+    if (before.length === 0 || after.length === 0) return;
+    evaluated += 1;
+
+    const codedBefore = Object.keys(getHCCSupport(m, { [m.member_id]: before }) ?? {});
+    const codedAfter = Object.keys(getHCCSupport(m, { [m.member_id]: after }) ?? {});
+    const newlyCoded = codedAfter.filter((hcc) => !codedBefore.includes(hcc) && byHCC[hcc]);
+    const suspects = evaluateSuspectRules(m, getClaimsSummary(before), codedBefore, model, undefined, null);
+    const flagged = suspects.map((h) => h.hcc_code);
+
+    suspects.forEach((h) => {
+      const confirmed = newlyCoded.includes(h.hcc_code);
+      addOutcome(overall, h.confidence, confirmed);
+      addOutcome(byHCC[h.hcc_code], h.confidence, confirmed);
+    });
+    newlyCoded.forEach((hcc) => {
+      overall.newly_coded += 1;
+      byHCC[hcc].newly_coded += 1;
+      if (flagged.includes(hcc)) {
+        overall.newly_coded_flagged += 1;
+        byHCC[hcc].newly_coded_flagged += 1;
+      }
+    });
+  });
+
+  const conditions = Object.fromEntries(rules.map((r) => [r.hcc, r.condition || r.hcc]));
+  const rows = ruleHCCs.map((hcc) => ({ hcc, condition: conditions[hcc], ...finishStats(byHCC[hcc]) }));
+  const result = {
+    cutoff,
+    rules_version: rulesVersion,
+    members_evaluated: evaluated,
+    overall: finishStats(overall),
+    by_hcc: rows,
+  };
+  if (fit) {
+    const fitted = {};
+    rows.forEach((r) => {
+      if (r.calibration_curve.length > 0) fitted[r.hcc] = fitCalibration(r.calibration_curve);
+    });
+    result.calibration = { version: `backtest-${cutoff}`, cutoff, rules_version: rulesVersion, by_hcc: fitted };
+  }
+  return result;
+}
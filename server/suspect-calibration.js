@@ -0,0 +1,74 @@
+/**
+ * Suspect Confidence Calibration
+ * Maps the rule engine's raw (hand-set) confidence to an observed confirmation rate, per HCC,
+ * using bins fitted by the back-test (suspect-backtest.js).
+ *
+ * Calibration shape: { version, cutoff?, rules_version?, by_hcc: { HCC_xx: [{ min, max, calibrated, n }] } }
+ * Bins are [min, max); a raw confidence outside every bin uses the nearest one. HCCs without
+ * bins keep their raw confidence. No calibration is active by default; POST /api/agent/calibration
+ * activates one in memory (no persistence).
+ */
+
+// Calibrated confidence stays in [MIN, MAX] — never 0 and never 1.0
+const MIN_CALIBRATED = 0.01;
+const MAX_CALIBRATED = 0.99;
+
+let activeCalibration = null;
+
+/** Validates a calibration. Returns error strings (empty when valid). */
+export function validateSuspectCalibration(calibration) {
+  if (!calibration || typeof calibration !== 'object') return ['calibration must be an object'];
+  const errors = [];
+  if (!calibration.version) errors.push('version is required');
+  const byHCC = calibration.by_hcc;
+  if (!byHCC || typeof byHCC !== 'object' || Array.isArray(byHCC)) return [...errors, 'by_hcc must map HCC to an array of bins'];
+  Object.entries(byHCC).forEach(([hcc, bins]) => {
+    if (!Array.isArray(bins) || bins.length === 0) {
+      errors.push(`by_hcc.${hcc} must be a non-empty array of bins`);
+      return;
+    }
+    bins.forEach((b, i) => {
+      const path = `by_hcc.${hcc}[${i}]`;
+      if (!(Number.isFinite(b?.min) && Number.isFinite(b?.max) && b.min < b.max)) errors.push(`${path} needs numeric min < max`);
+      if (!(Number.isFinite(b?.calibrated) && b.calibrated > 0 && b.calibrated < 1)) {
+        errors.push(`${path}.calibrated must be in (0, 1) — confidence is never 1.0`);
+      }
+    });
+  });
+  return errors.slice(0, 30);
+}
+
+export function getSuspectCalibration() {
+  return activeCalibration;
+}
+
+/** Replaces the active calibration; returns { errors } and leaves it unchanged when invalid. */
+export function setSuspectCalibration(calibration) {
+  const errors = validateSuspectCalibration(calibration);
+  if (errors.length === 0) {
+    const byHCC = {};
+    Object.entries(calibration.by_hcc).forEach(([hcc, bins]) => {
+      byHCC[hcc] = [...bins].sort((a, b) => a.min - b.min);
+    });
+    activeCalibration = { ...calibration, by_hcc: byHCC };
+  }
+  return { errors };
+}
+
+export function resetSuspectCalibration() {
+  activeCalibration = null;
+}
+
+/** Calibrated confidence for a raw rule confidence, or the raw value when the HCC has no bins. */
+export function calibrateConfidence(hcc, raw, calibration = activeCalibration) {
+  const bins = calibration?.by_hcc?.[hcc];
+  if (!bins) return raw;
+  const bin =
+    bins.find((b) => raw >= b.min && raw < b.max) ??
+    bins.reduce((best, b) => {
+      const dist = raw < b.min ? b.min - raw : raw - b.max;
+      const bestDist = raw < best.min ? best.min - raw : raw - best.max;
+      return dist < bestDist ? b : best;
+    });
+  return Math.min(MAX_CALIBRATED, Math.max(MIN_CALIBRATED, bin.calibrated));
+}
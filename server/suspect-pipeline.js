@@ -0,0 +1,114 @@
+/**
+ * Suspect Pipeline
+ * Single source of suspect HCCs for dashboard, risk explorer, simulation, chat and providers:
+ * the Risk Adjustment Agent (declarative claims-pattern rules + recapture gaps).
+ *
+ * The legacy rule set in risk-adjustment.js (computeSuspectHCCs) is kept only so the
+ * reconciliation report can list members the two engines disagree on during migration.
+ */
+
+import { computeSuspectHCCs } from './risk-adjustment.js';
+import { runAgent } from './risk-adjustment-agent.js';
+
+/** member_id → pipeline suspects (agent suspect_hccs) for a member list. */
+export function buildSuspectMap(members, claimsByMember = {}, modelId) {
+  const out = {};
+  members.forEach((m) => {
+    out[m.member_id] = runAgent(m, claimsByMember, modelId).suspect_hccs;
+  });
+  return out;
+}
+
+/** Population totals: suspect count, members with suspects, RAF and revenue uplift. */
+export function summarizeSuspects(members, suspectMap) {
+  let count = 0;
+  let membersWithSuspects = 0;
+  let rafUplift = 0;
+  let revenueUplift = 0;
+  members.forEach((m) => {
+    const suspects = suspectMap[m.member_id] || [];
+    count += suspects.length;
+    if (suspects.length > 0) membersWithSuspects += 1;
+    suspects.forEach((h) => {
+      rafUplift += h.raf_uplift;
+      revenueUplift += h.revenue_uplift_estimate;
+    });
+  });
+  return {
+    suspectHCCCount: count,
+    membersWithSuspects,
+    suspectRafUplift: Math.round(rafUplift * 1000) / 1000,
+    suspectRevenueUplift: Math.round(revenueUplift * 100) / 100,
+  };
+}
+
+function emptyTotals() {
+  return { suspects: 0, members: 0, raf_uplift: 0, revenue_uplift: 0 };
+}
+
+function addTotals(totals, suspects, weightOf, revenueOf) {
+  totals.suspects += suspects.length;
+  if (suspects.length > 0) totals.members += 1;
+  suspects.forEach((h) => {
+    totals.raf_uplift += weightOf(h);
+    totals.revenue_uplift += revenueOf(h);
+  });
+}
+
+/**
+ * Legacy engine vs. pipeline, member by member. Lists members flagged for an HCC by one
+ * engine but not the other (up to limit), with per-HCC agreement counts and totals.
+ */
+export function reconcileSuspectEngines(members, claimsByMember, suspectMap, { modelId, baseRatePmpm, limit = 100 } = {}) {
+  const totals = { legacy: emptyTotals(), pipeline: emptyTotals() };
+  const byHCC = {};
+  const differences = [];
+  let membersWithDifferences = 0;
+
+  members.forEach((m) => {
+    const legacy = computeSuspectHCCs(m, claimsByMember, modelId);
+    const pipeline = suspectMap[m.member_id] || [];
+    const months = m.member_months ?? 12;
+    addTotals(totals.legacy, legacy, (h) => h.weight, (h) => Math.round(h.weight * baseRatePmpm * months));
+    addTotals(totals.pipeline, pipeline, (h) => h.raf_uplift, (h) => h.revenue_uplift_estimate);
+
+    const legacyCodes = legacy.map((h) => h.code);
+    const pipelineCodes = [...new Set(pipeline.map((h) => h.hcc_code))];
+    const legacyOnly = legacyCodes.filter((c) => !pipelineCodes.includes(c));
+    const pipelineOnly = pipelineCodes.filter((c) => !legacyCodes.includes(c));
+    const both = legacyCodes.filter((c) => pipelineCodes.includes(c));
+    [...new Set([...legacyCodes, ...pipelineCodes])].forEach((hcc) => {
+      if (!byHCC[hcc]) byHCC[hcc] = { hcc, both: 0, legacy_only: 0, pipeline_only: 0 };
+      if (both.includes(hcc)) byHCC[hcc].both += 1;
+      else if (legacyOnly.includes(hcc)) byHCC[hcc].legacy_only += 1;
+      else byHCC[hcc].pipeline_only += 1;
+    });
+    if (legacyOnly.length === 0 && pipelineOnly.length === 0) return;
+    membersWithDifferences += 1;
+    if (differences.length < limit) {
+      differences.push({
+        member_id: m.member_id,
+        plan_type: m.plan_type,
+        state: m.state,
+        both,
+        legacy_only: legacy.filter((h) => legacyOnly.includes(h.code)).map((h) => ({ hcc: h.code, reason: h.reason })),
+        pipeline_only: pipeline
+          .filter((h) => pipelineOnly.includes(h.hcc_code))
+          .map((h) => ({ hcc: h.hcc_code, source: h.source, confidence: h.confidence })),
+      });
+    }
+  });
+
+  const finish = (t) => ({ ...t, raf_uplift: Math.round(t.raf_uplift * 1000) / 1000, revenue_uplift: Math.round(t.revenue_uplift * 100) / 100 });
+  const rows = Object.values(byHCC).map((r) => {
+    const flagged = r.both + r.legacy_only + r.pipeline_only;
+    return { ...r, agreement_rate: flagged > 0 ? Math.round((r.both / flagged) * 1000) / 1000 : null };
+  });
+  return {
+    members_evaluated: members.length,
+    members_with_differences: membersWithDifferences,
+    totals: { legacy: finish(totals.legacy), pipeline: finish(totals.pipeline) },
+    by_hcc: rows.sort((a, b) => b.legacy_only + b.pipeline_only - (a.legacy_only + a.pipeline_only)),
+    members: differences,
+  };
+}
@@ -0,0 +1,351 @@
+/**
+ * Suspect Rule Engine
+ * Evaluates the declarative claims-pattern rules in server/config/suspect-rules.json
+ * (one rule per HCC: signals, min_signals, confidence formula, evidence wording).
+ *
+ * Signal types:
+ *   threshold          fact <op> value            (evidence: rule wording)
+ *   flag               fact is true               (evidence: rule wording)
+ *   drug_class         RX fills in a class mapped to the HCC (evidence lists classes and fill counts)
+ *   procedure_pattern  monitoring procedures mapped to the HCC (evidence lists groups and codes)
+ * A matched signal may carry a confidence boost.
+ *
+ * Load-time validation enforces the agent's hard constraints: at least 2 signals to flag
+ * an HCC and confidence < 1.0. Invalid rules are skipped with a warning.
+ *
+ * When a back-test calibration is active (suspect-calibration.js), the formula's result is
+ * reported as raw_confidence and confidence is the calibrated value.
+ */
+
+import { readFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { computeMarginalRAF, getCodedHCCs } from './risk-adjustment.js';
+import { resolveDrugClass, getDrugClassesForHCC, getDrugClassLabel } from './drug-classes.js';
+import { getProcedurePatterns, getConditionProcedureMatches, getProcedureGroupLabel } from './procedure-codes.js';
+import { hasDiagnosticLanguage } from './compliance-agent.js';
+import { calibrateConfidence, getSuspectCalibration } from './suspect-calibration.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+const SIGNAL_TYPES = ['threshold', 'flag', 'drug_class', 'procedure_pattern'];
+const OPS = {
+  '>': (a, b) => a > b,
+  '>=': (a, b) => a >= b,
+  '<': (a, b) => a < b,
+  '<=': (a, b) => a <= b,
+  '==': (a, b) => a === b,
+};
+// Facts a rule may test: member attributes and the member's claims summary
+export const RULE_FACTS = [
+  'risk_score',
+  'chronic_condition_flag',
+  'rx_spend',
+  'rx_count',
+  'ip_admissions',
+  'ip_spend',
+  'op_visits',
+  'high_cost_procedure',
+];
+const DEFAULT_MAX_CONFIDENCE = 0.99;
+
+/**
+ * Derives claims summary from claims array
+ */
+export function getClaimsSummary(claims) {
+  const rxClaims = claims.filter((c) => c.claim_type === 'RX');
+  const ipClaims = claims.filter((c) => c.claim_type === 'IP');
+  const opClaims = claims.filter((c) => c.claim_type === 'OP');
+  const rxSpend = rxClaims.reduce((s, c) => s + c.allowed_amount, 0);
+  const ipSpend = ipClaims.reduce((s, c) => s + c.allowed_amount, 0);
+  const highCostProcedure = ipSpend > 15000 || claims.some((c) => c.allowed_amount > 10000);
+  const drugClassFills = {};
+  rxClaims.forEach((c) => {
+    const cls = resolveDrugClass(c);
+    if (cls) drugClassFills[cls] = (drugClassFills[cls] || 0) + 1;
+  });
+
+  return {
+    rxSpend12m: rxSpend,
+    ipAdmissions: ipClaims.length,
+    ipSpend: ipSpend,
+    opVisits: opClaims.length,
+    highCostProcedure,
+    rxCount: rxClaims.length,
+    drugClassFills,
+    procedurePatterns: getProcedurePatterns(claims),
+  };
+}
+
+function getFacts(member, summary) {
+  return {
+    risk_score: member.risk_score,
+    chronic_condition_flag: member.chronic_condition_flag === true,
+    rx_spend: summary.rxSpend12m,
+    rx_count: summary.rxCount,
+    ip_admissions: summary.ipAdmissions,
+    ip_spend: summary.ipSpend,
+    op_visits: summary.opVisits,
+    high_cost_procedure: summary.highCostProcedure,
+  };
+}
+
+/**
+ * Drug classes filled by the member that map to the condition, as one evidence line:
+ * "Condition-related RX fills: Insulin (4), Metformin (biguanide) (2)". Null when none.
+ */
+export function getConditionDrugEvidence(summary, hcc) {
+  const matches = getDrugClassesForHCC(hcc)
+    .filter((cls) => summary.drugClassFills[cls] > 0)
+    .sort((a, b) => summary.drugClassFills[b] - summary.drugClassFills[a]);
+  if (matches.length === 0) return null;
+  return `Condition-related RX fills: ${matches.map((cls) => `${getDrugClassLabel(cls)} (${summary.drugClassFills[cls]})`).join(', ')}`;
+}
+
+/**
+ * Monitoring procedures on the member's claims that map to the condition, as one evidence line:
+ * "Condition-related procedures: Renal function panel on 3 claims (80069, 82565)". Null when none.
+ */
+export function getConditionProcedureEvidence(summary, hcc) {
+  const matches = getConditionProcedureMatches(summary.procedurePatterns, hcc);
+  if (matches.length === 0) return null;
+  const parts = matches.map((groupId) => {
+    const p = summary.procedurePatterns[groupId];
+    return `${getProcedureGroupLabel(groupId)} on ${p.claims} claim${p.claims === 1 ? '' : 's'} (${p.codes.join(', ')})`;
+  });
+  return `Condition-related procedures: ${parts.join('; ')}`;
+}
+
+/** Evidence line when the signal matches, else null. */
+function evaluateSignal(signal, hcc, facts, summary) {
+  switch (signal.type) {
+    case 'threshold':
+      return OPS[signal.op](facts[signal.fact], signal.value) ? signal.evidence : null;
+    case 'flag':
+      return facts[signal.fact] === true ? signal.evidence : null;
+    case 'drug_class':
+      return getConditionDrugEvidence(summary, hcc);
+    case 'procedure_pattern':
+      return getConditionProcedureEvidence(summary, hcc);
+    default:
+      return null;
+  }
+}
+
+function getMultiplier(multiplier, facts) {
+  if (typeof multiplier === 'number') return multiplier;
+  if (!multiplier) return 1;
+  return OPS[multiplier.op](facts[multiplier.fact], multiplier.value) ? multiplier.then : multiplier.else;
+}
+
+// --- VALIDATION ---
+
+function validateCondition(c, path, errors) {
+  if (!RULE_FACTS.includes(c.fact)) errors.push(`${path}.fact must be one of ${RULE_FACTS.join(', ')}`);
+  if (!OPS[c.op]) errors.push(`${path}.op must be one of ${Object.keys(OPS).join(' ')}`);
+  if (!Number.isFinite(c.value)) errors.push(`${path}.value must be a number`);
+}
+
+function validateSignal(signal, path, errors) {
+  if (!signal || typeof signal !== 'object') {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+  if (!signal.id) errors.push(`${path}.id is required`);
+  if (!SIGNAL_TYPES.includes(signal.type)) errors.push(`${path}.type must be one of ${SIGNAL_TYPES.join(', ')}`);
+  if (signal.type === 'threshold') validateCondition(signal, path, errors);
+  if (signal.type === 'flag' && !RULE_FACTS.includes(signal.fact)) errors.push(`${path}.fact must be one of ${RULE_FACTS.join(', ')}`);
+  if (signal.type === 'threshold' || signal.type === 'flag') {
+    if (typeof signal.evidence !== 'string' || !signal.evidence.trim()) errors.push(`${path}.evidence wording is required`);
+    else if (hasDiagnosticLanguage(signal.evidence)) errors.push(`${path}.evidence must not use diagnostic language`);
+  }
+  if (signal.boost !== undefined && !(Number.isFinite(signal.boost) && signal.boost > 0)) {
+    errors.push(`${path}.boost must be a positive number`);
+  }
+}
+
+/** Validates one rule. Returns error strings (empty when valid). */
+export function validateSuspectRule(rule, path = 'rule') {
+  const errors = [];
+  if (!rule || typeof rule !== 'object') return [`${path} must be an object`];
+  if (typeof rule.hcc !== 'string' || !rule.hcc) errors.push(`${path}.hcc is required`);
+  if (!Number.isInteger(rule.min_signals) || rule.min_signals < 2) errors.push(`${path}.min_signals must be an integer ≥ 2`);
+  if (!Array.isArray(rule.signals)) {
+    errors.push(`${path}.signals must be an array`);
+  } else {
+    if (Number.isInteger(rule.min_signals) && rule.signals.length < rule.min_signals) {
+      errors.push(`${path}.signals must define at least min_signals (${rule.min_signals}) signals`);
+    }
+    rule.signals.forEach((s, i) => validateSignal(s, `${path}.signals[${i}]`, errors));
+    const ids = rule.signals.map((s) => s?.id).filter(Boolean);
+    if (new Set(ids).size !== ids.length) errors.push(`${path}.signals ids must be unique`);
+  }
+  const strength = rule.confidence?.strength;
+  if (!strength || !(Number.isFinite(strength.base) && strength.base > 0 && strength.base <= 1)) {
+    errors.push(`${path}.confidence.strength.base must be in (0, 1]`);
+  }
+  if (strength && strength.per_extra_signal !== undefined && !(Number.isFinite(strength.per_extra_signal) && strength.per_extra_signal >= 0)) {
+    errors.push(`${path}.confidence.strength.per_extra_signal must be a non-negative number`);
+  }
+  if (strength && strength.max !== undefined && !(Number.isFinite(strength.max) && strength.max > 0 && strength.max <= 1)) {
+    errors.push(`${path}.confidence.strength.max must be in (0, 1]`);
+  }
+  const multiplier = rule.confidence?.multiplier;
+  if (typeof multiplier === 'object' && multiplier !== null) {
+    validateCondition(multiplier, `${path}.confidence.multiplier`, errors);
+    if (!(Number.isFinite(multiplier.then) && Number.isFinite(multiplier.else) && multiplier.then > 0 && multiplier.else > 0)) {
+      errors.push(`${path}.confidence.multiplier then/else must be positive numbers`);
+    }
+  } else if (multiplier !== undefined && !(Number.isFinite(multiplier) && multiplier > 0)) {
+    errors.push(`${path}.confidence.multiplier must be a positive number or a conditional`);
+  }
+  return errors;
+}
+
+/**
+ * Validates a whole rule set: { version, max_confidence?, rules: [...] }.
+ * Returns error strings (empty when valid).
+ */
+export function validateSuspectRules(ruleSet) {
+  if (!ruleSet || typeof ruleSet !== 'object') return ['rule set must be an object'];
+  const errors = [];
+  if (!ruleSet.version) errors.push('version is required');
+  const cap = ruleSet.max_confidence;
+  if (cap !== undefined && !(Number.isFinite(cap) && cap > 0 && cap < 1)) {
+    errors.push('max_confidence must be in (0, 1) — confidence is never 1.0');
+  }
+  if (!Array.isArray(ruleSet.rules)) return [...errors, 'rules must be an array'];
+  ruleSet.rules.forEach((r, i) => errors.push(...validateSuspectRule(r, `rules[${i}]`)));
+  const hccs = ruleSet.rules.map((r) => r?.hcc).filter(Boolean);
+  if (new Set(hccs).size !== hccs.length) errors.push('each HCC may have only one rule');
+  return errors.slice(0, 30);
+}
+
+/** Loads the configured rule set, dropping (and logging) rules that fail validation. */
+function loadRuleSet() {
+  const raw = JSON.parse(readFileSync(join(__dirname, 'config', 'suspect-rules.json'), 'utf-8'));
+  const loadErrors = [];
+  const rules = (raw.rules || []).filter((r, i) => {
+    const errors = validateSuspectRule(r, `rules[${i}]`);
+    if (errors.length) {
+      console.warn(`Skipping suspect rule ${r?.hcc ?? i}: ${errors.join('; ')}`);
+      loadErrors.push(...errors);
+    }
+    return errors.length === 0;
+  });
+  let maxConfidence = raw.max_confidence ?? DEFAULT_MAX_CONFIDENCE;
+  if (!(Number.isFinite(maxConfidence) && maxConfidence > 0 && maxConfidence < 1)) {
+    console.warn(`Invalid suspect rule max_confidence ${maxConfidence}; using ${DEFAULT_MAX_CONFIDENCE}`);
+    loadErrors.push('max_confidence must be in (0, 1)');
+    maxConfidence = DEFAULT_MAX_CONFIDENCE;
+  }
+  return { ruleSet: { ...raw, max_confidence: maxConfidence, rules }, loadErrors };
+}
+
+const { ruleSet: ACTIVE_RULE_SET, loadErrors: LOAD_ERRORS } = loadRuleSet();
+
+export const SUSPECT_RULES_VERSION = ACTIVE_RULE_SET.version;
+
+export function getSuspectRules() {
+  return { ...ACTIVE_RULE_SET, load_errors: LOAD_ERRORS };
+}
+
+// --- EVALUATION ---
+
+/**
+ * Claims-pattern suspects for one member under a (validated) rule set.
+ * Rules for HCCs in the member's coded list are skipped; raf_uplift is the marginal RAF of adding
+ * the suspect to that list. Pass calibration = null for raw confidences.
+ */
+export function evaluateSuspectRules(member, summary, coded, model, ruleSet = ACTIVE_RULE_SET, calibration = getSuspectCalibration()) {
+  const facts = getFacts(member, summary);
+  const cap = ruleSet.max_confidence ?? DEFAULT_MAX_CONFIDENCE;
+  const suspects = [];
+  for (const rule of ruleSet.rules) {
+    if (coded.includes(rule.hcc)) continue;
+    const evidence = [];
+    let boost = 1;
+    rule.signals.forEach((signal) => {
+      const line = evaluateSignal(signal, rule.hcc, facts, summary);
+      if (!line) return;
+      evidence.push(line);
+      boost *= signal.boost ?? 1;
+    });
+    if (evidence.length < rule.min_signals) continue;
+
+    const { strength: s, multiplier } = rule.confidence;
+    const strength = Math.min(s.max ?? 1, s.base + (s.per_extra_signal ?? 0) * (evidence.length - rule.min_signals));
+    const confidence = Math.round(Math.min(cap, strength * getMultiplier(multiplier, facts) * boost) * 100) / 100;
+    const uplift = computeMarginalRAF(member, coded, [rule.hcc], model.id);
+    suspects.push({
+      hcc_code: rule.hcc,
+      condition: rule.condition || rule.hcc,
+      confidence: calibration ? Math.round(calibrateConfidence(rule.hcc, confidence, calibration) * 100) / 100 : confidence,
+      ...(calibration ? { raw_confidence: confidence } : {}),
+      evidence,
+      raf_uplift: uplift,
+      revenue_uplift_estimate: Math.round(uplift * model.base_rate_pmpm * (member.member_months ?? 12)),
+    });
+  }
+  return suspects;
+}
+
+function emptyTotals() {
+  return { suspects: 0, members_with_suspects: 0, raf_uplift: 0, revenue_uplift: 0 };
+}
+
+function addToTotals(totals, suspects) {
+  totals.suspects += suspects.length;
+  if (suspects.length > 0) totals.members_with_suspects += 1;
+  suspects.forEach((h) => {
+    totals.raf_uplift += h.raf_uplift;
+    totals.revenue_uplift += h.revenue_uplift_estimate;
+  });
+}
+
+/**
+ * Dry run: evaluates the active and a draft rule set over the population (claims-pattern
+ * suspects only; recapture suspects are unaffected by rules) and reports how counts change.
+ */
+export function dryRunSuspectRules(members, claimsByMember, draftRuleSet, model) {
+  const draft = { ...draftRuleSet, max_confidence: draftRuleSet.max_confidence ?? DEFAULT_MAX_CONFIDENCE };
+  const totals = { active: emptyTotals(), draft: emptyTotals() };
+  const byHCC = {};
+  const changedMembers = [];
+  members.forEach((m) => {
+    const coded = getCodedHCCs(m, claimsByMember);
+    const summary = getClaimsSummary(claimsByMember[m.member_id] || []);
+    const active = evaluateSuspectRules(m, summary, coded, model, ACTIVE_RULE_SET);
+    const drafted = evaluateSuspectRules(m, summary, coded, model, draft);
+    addToTotals(totals.active, active);
+    addToTotals(totals.draft, drafted);
+
+    const activeCodes = active.map((h) => h.hcc_code);
+    const draftCodes = drafted.map((h) => h.hcc_code);
+    new Set([...activeCodes, ...draftCodes]).forEach((hcc) => {
+      if (!byHCC[hcc]) byHCC[hcc] = { hcc, active: 0, draft: 0, added: 0, removed: 0 };
+      const inActive = activeCodes.includes(hcc);
+      const inDraft = draftCodes.includes(hcc);
+      if (inActive) byHCC[hcc].active += 1;
+      if (inDraft) byHCC[hcc].draft += 1;
+      if (inDraft && !inActive) byHCC[hcc].added += 1;
+      if (inActive && !inDraft) byHCC[hcc].removed += 1;
+    });
+    const added = draftCodes.filter((c) => !activeCodes.includes(c));
+    const removed = activeCodes.filter((c) => !draftCodes.includes(c));
+    if ((added.length > 0 || removed.length > 0) && changedMembers.length < 25) {
+      changedMembers.push({ member_id: m.member_id, added, removed });
+    }
+  });
+  const finish = (t) => ({ ...t, raf_uplift: Math.round(t.raf_uplift * 1000) / 1000 });
+  return {
+    active_version: ACTIVE_RULE_SET.version,
+    draft_version: draft.version,
+    members_evaluated: members.length,
+    totals: { active: finish(totals.active), draft: finish(totals.draft) },
+    by_hcc: Object.values(byHCC)
+      .map((r) => ({ ...r, change: r.draft - r.active }))
+      .sort((a, b) => Math.abs(b.change) - Math.abs(a.change)),
+    sample_changes: changedMembers,
+  };
+}
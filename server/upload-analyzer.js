@@ -2,16 +2,20 @@
  * Runs dashboard-style analysis on uploaded members + claims.
  * Same calculations as main app; no persistence.
  * Supports JSON or CSV upload (same column names as generated data).
+ * Optional eligibility spans replace the scalar member_months when provided, and an
+ * optional premium rating table overrides the server's table for this analysis.
+ * As in the main app, premium, risk revenue and claims cost cover the payment year
+ * (CURRENT_PAYMENT_YEAR): its enrolled months and the claims incurred in them. Utilization and
+ * the IBNR estimate use all uploaded claims, like /api/claims/utilization and /api/claims/ibnr.
  */
 
-import {
-  computeRAF,
-  computeSuspectHCCs,
-  computeRiskAdjRevenue,
-  BASE_RATE_PMPM,
-} from './risk-adjustment.js';
-import { runAgentBatch } from './risk-adjustment-agent.js';
+import { computeRAF, computeRiskAdjRevenue, CURRENT_PAYMENT_YEAR } from './risk-adjustment.js';
+import { buildSuspectMap, summarizeSuspects } from './suspect-pipeline.js';
 import { runOrchestrator } from './orchestrator.js';
+import { applyEligibility, buildEligibilityByMember, getPaymentYearClaims, validateEligibility } from './eligibility.js';
+import { buildPremiumMap, getPremiumRates, sumPremium } from './premium-rating.js';
+import { computeUtilization } from './utilization.js';
+import { estimateIbnr, memberMonthsByMonth } from './ibnr.js';
 
 /** Normalize CSV header to lowercase with underscores (e.g. "Member ID" -> "member_id"). */
 function normalizeHeader(h) {
@@ -74,6 +78,7 @@ function parseCSVLine(line) {
 const MEMBER_NUMERIC = new Set(['age', 'risk_score', 'member_months']);
 const MEMBER_BOOL = new Set(['chronic_condition_flag']);
 const CLAIM_NUMERIC = new Set(['allowed_amount']);
+const CLAIM_DATES = ['service_date', 'paid_date', 'admit_date', 'discharge_date'];
 
 /** Parse members CSV into same shape as JSON (required: member_id, age, gender, state, plan_type, risk_score). */
 export function parseMembersCsv(csvText) {
@@ -89,6 +94,7 @@ export function parseMembersCsv(csvText) {
       chronic_condition_flag: coerceBool(r.chronic_condition_flag),
       member_months: coerceNum(r.member_months, 12),
     };
+    if (r.rating_area) out.rating_area = String(r.rating_area).trim();
     const hcc = r.hcc_codes;
     if (hcc !== undefined && hcc !== null && hcc !== '') {
       if (typeof hcc === 'string') {
@@ -103,18 +109,61 @@ export function parseMembersCsv(csvText) {
   });
 }
 
-/** Parse claims CSV into same shape as JSON (required: claim_id, member_id, service_date, claim_type, allowed_amount). */
+/**
+ * Parse claims CSV into same shape as JSON (required: claim_id, member_id, service_date, claim_type, allowed_amount).
+ * Optional diagnosis_codes / procedure_codes columns: pipe/semicolon-separated lists (quote the cell if comma-separated).
+ * Optional provider_id (rendering provider) column; optional ndc / drug_class columns on RX claims (mapped via server/config/drug-classes.json).
+ * Optional paid_date (YYYY-MM-DD, date received / paid) drives the IBNR lag triangles; without it claims count as paid on service_date.
+ * Optional admit_date / discharge_date (YYYY-MM-DD) on IP claims give bed days and length of stay.
+ */
 export function parseClaimsCsv(csvText) {
   const rows = parseCSV(csvText);
   return rows.map((r) => ({
     claim_id: String(r.claim_id ?? '').trim(),
     member_id: String(r.member_id ?? '').trim(),
     service_date: String(r.service_date ?? '').trim(),
+    ...(r.admit_date ? { admit_date: String(r.admit_date).trim() } : {}),
+    ...(r.discharge_date ? { discharge_date: String(r.discharge_date).trim() } : {}),
+    ...(r.paid_date ? { paid_date: String(r.paid_date).trim() } : {}),
     claim_type: String(r.claim_type ?? 'OP').trim(),
     allowed_amount: coerceNum(r.allowed_amount, 0),
+    diagnosis_codes: coerceCodeList(r.diagnosis_codes),
+    procedure_codes: coerceCodeList(r.procedure_codes),
+    ...(r.provider_id ? { provider_id: String(r.provider_id).trim() } : {}),
+    ...(r.ndc ? { ndc: String(r.ndc).trim() } : {}),
+    ...(r.drug_class ? { drug_class: String(r.drug_class).trim() } : {}),
+  }));
+}
+
+/** Parse eligibility CSV (member_id, plan_type, state, start_month, end_month; months as YYYY-MM). */
+export function parseEligibilityCsv(csvText) {
+  const rows = parseCSV(csvText);
+  return rows.map((r) => ({
+    member_id: String(r.member_id ?? '').trim(),
+    plan_type: String(r.plan_type ?? '').trim(),
+    state: String(r.state ?? '').trim(),
+    start_month: String(r.start_month ?? '').trim(),
+    end_month: String(r.end_month ?? '').trim(),
   }));
 }
 
+/** Accepts an array or a "|", ";" or ","-separated string of codes. */
+function coerceCodeList(v) {
+  if (Array.isArray(v)) return v.map((c) => String(c).trim()).filter(Boolean);
+  if (v === undefined || v === null || v === '') return [];
+  return String(v).split(/[|,;]/).map((c) => c.trim()).filter(Boolean);
+}
+
+/** JSON uploads may send diagnosis_codes / procedure_codes as strings; normalize to the array form. */
+function normalizeUploadedClaims(claims) {
+  return claims.map((c) => {
+    const out = { ...c };
+    if (c.diagnosis_codes !== undefined) out.diagnosis_codes = coerceCodeList(c.diagnosis_codes);
+    if (c.procedure_codes !== undefined) out.procedure_codes = coerceCodeList(c.procedure_codes);
+    return out;
+  });
+}
+
 function coerceNum(v, def) {
   if (v === undefined || v === null || v === '') return def;
   const n = Number(String(v).replace(/,/g, ''));
@@ -208,7 +257,7 @@ function getRiskRevenueByPlan(membersList, memberRAF) {
   const byPlan = {};
   membersList.forEach((m) => {
     const plan = m.plan_type || 'Unknown';
-    const rev = computeRiskAdjRevenue(memberRAF[m.member_id] ?? 0.5, m.member_months || 12);
+    const rev = computeRiskAdjRevenue(memberRAF[m.member_id] ?? 0.5, m.member_months ?? 12);
     byPlan[plan] = (byPlan[plan] || 0) + rev;
   });
   return Object.entries(byPlan).map(([plan_type, total]) => ({
@@ -217,10 +266,33 @@ function getRiskRevenueByPlan(membersList, memberRAF) {
   }));
 }
 
-function getExecutiveSummary(membersList, claimByMember) {
+function getMLRByPlan(membersList, claimByMember, premiumMap, memberRAF) {
+  const byPlan = {};
+  membersList.forEach((m) => {
+    const plan = m.plan_type || 'Unknown';
+    if (!byPlan[plan]) byPlan[plan] = { premium: 0, claims: 0, riskRev: 0, members: 0 };
+    byPlan[plan].premium += premiumMap[m.member_id] ?? 0;
+    byPlan[plan].claims += (claimByMember[m.member_id] || []).reduce((s, c) => s + (c.allowed_amount || 0), 0);
+    byPlan[plan].riskRev += computeRiskAdjRevenue(memberRAF[m.member_id] ?? 0.5, m.member_months ?? 12);
+    byPlan[plan].members += 1;
+  });
+  return Object.entries(byPlan)
+    .map(([plan_type, d]) => ({
+      plan_type,
+      members: d.members,
+      premium: Math.round(d.premium * 100) / 100,
+      claims: Math.round(d.claims * 100) / 100,
+      riskAdjRevenue: Math.round(d.riskRev * 100) / 100,
+      mlr: d.premium > 0 ? Math.round((d.claims / d.premium) * 1000) / 1000 : 0,
+      riskAdjustedMLR: d.premium + d.riskRev > 0 ? Math.round((d.claims / (d.premium + d.riskRev)) * 1000) / 1000 : 0,
+    }))
+    .sort((a, b) => a.plan_type.localeCompare(b.plan_type));
+}
+
+function getExecutiveSummary(membersList, claimByMember, premiumMap, costClaimByMember) {
   const results = membersList.map((m) => {
-    const claimsForMember = claimByMember[m.member_id] || [];
-    return runOrchestrator(m, claimByMember, claimsForMember);
+    const claimsForMember = costClaimByMember[m.member_id] || [];
+    return runOrchestrator(m, claimByMember, claimsForMember, undefined, premiumMap[m.member_id]);
   });
   const withSuspects = results.filter((r) => r.suspect_hccs.length > 0);
   const totalRafLeakage = withSuspects.reduce(
@@ -252,10 +324,15 @@ function getExecutiveSummary(membersList, claimByMember) {
   };
 }
 
-export function validateUpload(members, claims) {
+function isValidDate(value) {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value));
+}
+
+export function validateUpload(members, claims, eligibility = []) {
   const errors = [];
   if (!Array.isArray(members)) errors.push('members must be an array');
   if (!Array.isArray(claims)) errors.push('claims must be an array');
+  if (!Array.isArray(eligibility)) errors.push('eligibility must be an array');
   if (errors.length) return { valid: false, errors };
 
   const requiredMember = ['member_id', 'age', 'gender', 'state', 'plan_type', 'risk_score'];
@@ -277,26 +354,41 @@ export function validateUpload(members, claims) {
   }
 
   const memberIds = new Set((members || []).map((m) => m.member_id));
+  errors.push(...validateEligibility(eligibility, memberIds));
+  CLAIM_DATES.forEach((key) => {
+    const invalid = claims.filter((c) => c[key] !== undefined && c[key] !== '' && !isValidDate(c[key])).length;
+    if (invalid > 0) errors.push(`${invalid} claim(s) have ${key} not in YYYY-MM-DD format`);
+  });
   const orphanCount = (claims || []).filter((c) => !memberIds.has(c.member_id)).length;
   const warnings = orphanCount > 0 ? [`${orphanCount} claim(s) reference member_id not in members (ignored for analysis)`] : [];
+  const paidBeforeService = (claims || []).filter((c) => c.paid_date && c.paid_date < c.service_date).length;
+  if (paidBeforeService > 0) warnings.push(`${paidBeforeService} claim(s) have paid_date before service_date (treated as paid in the service month)`);
+  const dischargeBeforeAdmit = (claims || []).filter((c) => c.admit_date && c.discharge_date && c.discharge_date < c.admit_date).length;
+  if (dischargeBeforeAdmit > 0) warnings.push(`${dischargeBeforeAdmit} claim(s) have discharge_date before admit_date (counted as a 1-day stay)`);
 
   return { valid: errors.length === 0, errors, warnings };
 }
 
-export function runUploadAnalysis(members, claims) {
+export function runUploadAnalysis(uploadedMembers, claims, eligibility = [], rates = getPremiumRates()) {
+  const eligibilityByMember = buildEligibilityByMember(eligibility);
+  const members = applyEligibility(uploadedMembers, eligibilityByMember, CURRENT_PAYMENT_YEAR);
+  const premiumMap = buildPremiumMap(members, eligibilityByMember, rates, CURRENT_PAYMENT_YEAR);
   const memberIds = new Set(members.map((m) => m.member_id));
-  const claimsForAnalysis = claims.filter((c) => memberIds.has(c.member_id));
+  const claimsForAnalysis = normalizeUploadedClaims(claims.filter((c) => memberIds.has(c.member_id)));
   const claimByMember = buildClaimByMember(claimsForAnalysis);
   const memberRAF = {};
-  const memberSuspects = {};
   members.forEach((m) => {
     memberRAF[m.member_id] = computeRAF(m, claimByMember);
-    memberSuspects[m.member_id] = computeSuspectHCCs(m, claimByMember);
+  });
+  const memberSuspects = buildSuspectMap(members, claimByMember);
+  const costClaimByMember = {};
+  members.forEach((m) => {
+    costClaimByMember[m.member_id] = getPaymentYearClaims(claimByMember[m.member_id], eligibilityByMember[m.member_id], CURRENT_PAYMENT_YEAR);
   });
 
   const totalMembers = members.length;
-  const totalAllowed = claimsForAnalysis.reduce((s, c) => s + (c.allowed_amount || 0), 0);
-  const totalPremium = totalMembers * 15000;
+  const totalAllowed = Object.values(costClaimByMember).flat().reduce((s, c) => s + (c.allowed_amount || 0), 0);
+  const totalPremium = sumPremium(members, premiumMap);
   const rawMLR = totalPremium > 0 ? totalAllowed / totalPremium : 0;
   const highRiskThreshold = 0.7;
   const highRiskCount = members.filter((m) => Number(m.risk_score) >= highRiskThreshold).length;
@@ -309,52 +401,35 @@ export function runUploadAnalysis(members, claims) {
   const avgRAF = rafValues.length > 0 ? rafValues.reduce((a, b) => a + b, 0) / totalMembers : 0;
   const highRAFCount = members.filter((m) => (memberRAF[m.member_id] ?? 0) > 1.2).length;
   const totalRiskAdjRevenue = members.reduce(
-    (s, m) => s + computeRiskAdjRevenue(memberRAF[m.member_id] ?? 0.5, m.member_months || 12),
+    (s, m) => s + computeRiskAdjRevenue(memberRAF[m.member_id] ?? 0.5, m.member_months ?? 12),
     0
   );
-  const totalSuspectUplift = members.reduce((s, m) => {
-    const suspects = memberSuspects[m.member_id] || [];
-    const uplift = suspects.reduce((u, x) => u + x.weight, 0);
-    return s + uplift * BASE_RATE_PMPM * (m.member_months || 12);
-  }, 0);
-  const suspectHCCCount = members.reduce((s, m) => s + (memberSuspects[m.member_id] || []).length, 0);
-
-  const agentResults = runAgentBatch(members, claimByMember, Math.min(members.length, 2000));
-  let agentSuspectCount = 0;
-  let agentRafUplift = 0;
-  let agentRevenueUplift = 0;
-  agentResults.forEach((r) => {
-    agentSuspectCount += r.suspect_hccs.length;
-    r.suspect_hccs.forEach((h) => {
-      agentRafUplift += h.raf_uplift;
-      agentRevenueUplift += h.revenue_uplift_estimate;
-    });
-  });
+  const suspectTotals = summarizeSuspects(members, memberSuspects);
 
   const adjustedPremium = totalPremium + totalRiskAdjRevenue;
   const riskAdjustedMLR = adjustedPremium > 0 ? totalAllowed / adjustedPremium : rawMLR;
   const mlrImprovementBps = Math.round((riskAdjustedMLR - rawMLR) * 10000);
 
-  const executive = getExecutiveSummary(members, claimByMember);
+  const executive = getExecutiveSummary(members, claimByMember, premiumMap, costClaimByMember);
 
   const claimsOverTime = getClaimsOverTime(claimsForAnalysis);
   const costByPlanType = getCostByPlanType(members, claimsForAnalysis);
+  // Every month from the first to the last service month (the IBNR incurred months)
+  const utilization = computeUtilization(members, claimsForAnalysis, eligibilityByMember);
+  const serviceMonths = utilization.by_month.map((m) => m.month);
 
   return {
     kpis: {
       totalMembers,
       activeClaims,
+      totalPremium: Math.round(totalPremium * 100) / 100,
       mlr: Math.round(rawMLR * 1000) / 1000,
       highRiskPct: totalMembers > 0 ? ((highRiskCount / totalMembers) * 100).toFixed(1) : '0',
       avgCostPerMember: Math.round(avgCostPerMember * 100) / 100,
       avgRAF: Math.round(avgRAF * 1000) / 1000,
       highRAFPct: totalMembers > 0 ? ((highRAFCount / totalMembers) * 100).toFixed(1) : '0',
       riskAdjRevenue: Math.round(totalRiskAdjRevenue * 100) / 100,
-      suspectRAFUplift: Math.round(totalSuspectUplift * 100) / 100,
-      suspectHCCCount,
-      agentSuspectHCCCount: agentSuspectCount,
-      agentPotentialRafUplift: Math.round(agentRafUplift * 1000) / 1000,
-      agentPotentialRevenueUplift: Math.round(agentRevenueUplift * 100) / 100,
+      ...suspectTotals,
       riskAdjustedMLR: Math.round(riskAdjustedMLR * 1000) / 1000,
       mlrImprovementBps,
     },
@@ -364,6 +439,10 @@ export function runUploadAnalysis(members, claims) {
     rafByPlanType: getRAFByPlanType(members, memberRAF),
     rafByState: getRAFByState(members, memberRAF),
     riskRevenueByPlan: getRiskRevenueByPlan(members, memberRAF),
+    mlrByPlan: getMLRByPlan(members, costClaimByMember, premiumMap, memberRAF),
+    premiumRatesVersion: rates.version,
     executive,
+    utilization,
+    ibnr: estimateIbnr(claimsForAnalysis, { memberMonths: memberMonthsByMonth(members, eligibilityByMember, serviceMonths) }),
   };
 }
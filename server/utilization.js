@@ -0,0 +1,153 @@
+/**
+ * Utilization Metrics
+ * Standard per-1,000 utilization over enrolled member months (MM), annualized:
+ *   admits / 1000      IP claims / MM × 12,000 (one IP claim = one admission)
+ *   bed days / 1000    Σ (discharge_date − admit_date, at least 1) / MM × 12,000
+ *   ALOS               bed days / admits with admit and discharge dates
+ *   OP visits / 1000   distinct member-days with an OP claim / MM × 12,000
+ *   scripts PMPY       RX claims / MM × 12
+ *   cost per unit      allowed per admit, per bed day, per OP visit and per script
+ * Member months and claims are attributed to the plan and state of the eligibility segment covering
+ * the month (members without spans use their own plan / state in every month), so a member who
+ * switches plans counts toward each plan for the months spent in it.
+ */
+
+export const UTILIZATION_CLAIM_TYPES = ['IP', 'OP', 'RX'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function round2(v) {
+  return Math.round(v * 100) / 100;
+}
+
+function monthIndex(month) {
+  return Number(month.slice(0, 4)) * 12 + Number(month.slice(5, 7)) - 1;
+}
+
+function monthLabel(index) {
+  return `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, '0')}`;
+}
+
+/** Bed days for an IP claim, or null when the stay dates are missing. */
+function bedDays(claim) {
+  if (!claim.admit_date || !claim.discharge_date) return null;
+  return Math.max(1, Math.round((Date.parse(claim.discharge_date) - Date.parse(claim.admit_date)) / DAY_MS));
+}
+
+function emptyBucket() {
+  return {
+    member_months: 0,
+    admits: 0,
+    admits_with_stay: 0,
+    bed_days: 0,
+    op_visits: new Set(),
+    scripts: 0,
+    allowed: { IP: 0, OP: 0, RX: 0, Other: 0 },
+  };
+}
+
+function finishBucket(b) {
+  const mm = b.member_months;
+  const per1000 = (n) => (mm > 0 ? round2((n / mm) * 12000) : null);
+  const total = Object.values(b.allowed).reduce((s, v) => s + v, 0);
+  const visits = b.op_visits.size;
+  return {
+    member_months: mm,
+    admits: b.admits,
+    bed_days: b.bed_days,
+    op_visits: visits,
+    scripts: b.scripts,
+    admits_per_1000: per1000(b.admits),
+    bed_days_per_1000: per1000(b.bed_days),
+    alos: b.admits_with_stay > 0 ? round2(b.bed_days / b.admits_with_stay) : null,
+    op_visits_per_1000: per1000(visits),
+    scripts_pmpy: mm > 0 ? round2((b.scripts / mm) * 12) : null,
+    cost_per_unit: {
+      admit: b.admits > 0 ? round2(b.allowed.IP / b.admits) : null,
+      bed_day: b.bed_days > 0 ? round2(b.allowed.IP / b.bed_days) : null,
+      op_visit: visits > 0 ? round2(b.allowed.OP / visits) : null,
+      script: b.scripts > 0 ? round2(b.allowed.RX / b.scripts) : null,
+    },
+    allowed: round2(total),
+    pmpm: mm > 0 ? round2(total / mm) : null,
+  };
+}
+
+/** Plan and state covering a month: the eligibility segment, else the member's own fields. */
+function coverageOn(member, segments, month) {
+  const seg = (segments || []).find((s) => month >= s.start_month && month <= s.end_month);
+  return seg ? { plan_type: seg.plan_type, state: seg.state } : { plan_type: member.plan_type, state: member.state };
+}
+
+/**
+ * Utilization by month, plan and state. options: { from, to } (YYYY-MM, default the claims' service
+ * month range), { state, plan_type } (filters on the attributed coverage). Returns { window, totals,
+ * by_month, by_plan, by_state, ip_claims_without_stay }.
+ */
+export function computeUtilization(members, claims, eligibilityByMember, { from, to, state, plan_type } = {}) {
+  const serviceMonths = claims.map((c) => c.service_date.slice(0, 7));
+  const first = from || serviceMonths.reduce((min, m) => (!min || m < min ? m : min), '');
+  const last = to || serviceMonths.reduce((max, m) => (m > max ? m : max), '');
+  const months = [];
+  if (first && last) for (let i = monthIndex(first); i <= monthIndex(last); i++) months.push(monthLabel(i));
+  const inWindow = new Set(months);
+
+  const totals = emptyBucket();
+  const byMonth = new Map(months.map((m) => [m, emptyBucket()]));
+  const byPlan = new Map();
+  const byState = new Map();
+  const bucketsFor = (month, coverage) => {
+    if ((state && coverage.state !== state) || (plan_type && coverage.plan_type !== plan_type)) return [];
+    const plan = coverage.plan_type || 'Unknown';
+    const st = coverage.state || 'Unknown';
+    if (!byPlan.has(plan)) byPlan.set(plan, emptyBucket());
+    if (!byState.has(st)) byState.set(st, emptyBucket());
+    return [totals, byMonth.get(month), byPlan.get(plan), byState.get(st)];
+  };
+
+  const memberById = new Map();
+  members.forEach((m) => {
+    memberById.set(m.member_id, m);
+    const segments = eligibilityByMember[m.member_id];
+    months.forEach((month) => {
+      const enrolled = !segments || segments.length === 0 || segments.some((s) => month >= s.start_month && month <= s.end_month);
+      if (enrolled) bucketsFor(month, coverageOn(m, segments, month)).forEach((b) => (b.member_months += 1));
+    });
+  });
+
+  let withoutStay = 0;
+  claims.forEach((c) => {
+    const member = memberById.get(c.member_id);
+    const month = c.service_date.slice(0, 7);
+    if (!member || !inWindow.has(month)) return;
+    const type = UTILIZATION_CLAIM_TYPES.includes(c.claim_type) ? c.claim_type : 'Other';
+    const days = type === 'IP' ? bedDays(c) : null;
+    const buckets = bucketsFor(month, coverageOn(member, eligibilityByMember[c.member_id], month));
+    if (type === 'IP' && days === null && buckets.length > 0) withoutStay += 1;
+    buckets.forEach((b) => {
+      b.allowed[type] += c.allowed_amount;
+      if (type === 'IP') {
+        b.admits += 1;
+        if (days !== null) {
+          b.admits_with_stay += 1;
+          b.bed_days += days;
+        }
+      } else if (type === 'OP') {
+        b.op_visits.add(`${c.member_id}|${c.service_date}`);
+      } else if (type === 'RX') {
+        b.scripts += 1;
+      }
+    });
+  });
+
+  const grouped = (map, key) =>
+    [...map.entries()].map(([value, b]) => ({ [key]: value, ...finishBucket(b) })).sort((a, b) => b.member_months - a.member_months);
+  return {
+    window: { from: first || null, to: last || null },
+    totals: finishBucket(totals),
+    by_month: [...byMonth.entries()].map(([month, b]) => ({ month, ...finishBucket(b) })),
+    by_plan: grouped(byPlan, 'plan_type'),
+    by_state: grouped(byState, 'state'),
+    ip_claims_without_stay: withoutStay,
+  };
+}
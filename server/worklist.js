@@ -0,0 +1,249 @@
+/**
+ * Coder Worklist
+ * Persists orchestrator suspects as review items so coders have a queue and outcomes can be
+ * measured. One item per member × HCC (item_id "M000123-HCC_85"), stored as JSON at the path
+ * given to loadWorklist (WORKLIST_PATH, default data/worklist.json).
+ *
+ * Lifecycle: open → in_review → confirmed | not_supported | deferred (see TRANSITIONS).
+ * Sync upserts current suspects: new ones open, existing ones refresh evidence and confidence.
+ * Items are never deleted — when a suspect stops firing (e.g. the HCC was coded) the item is
+ * kept with active = false, so confirmed / rejected counts survive recomputation.
+ *
+ * priority = revenue_uplift_estimate × confidence (expected revenue of the suggestion).
+ */
+
+import { existsSync, readFileSync, writeFileSync, renameSync } from 'fs';
+import { runOrchestrator } from './orchestrator.js';
+import { getCodedHCCs } from './risk-adjustment.js';
+import { recordPopulationDecision } from './audit-log.js';
+
+export const WORKLIST_STATUSES = ['open', 'in_review', 'confirmed', 'not_supported', 'deferred'];
+const TRANSITIONS = {
+  open: ['in_review', 'confirmed', 'not_supported', 'deferred'],
+  in_review: ['open', 'confirmed', 'not_supported', 'deferred'],
+  deferred: ['open', 'in_review'],
+  // Closed items can be reopened for another review
+  confirmed: ['in_review'],
+  not_supported: ['in_review'],
+};
+// Statuses that need a reviewer note explaining the decision
+const NOTE_REQUIRED = ['not_supported', 'deferred'];
+export const WORKLIST_SORTS = ['priority', 'revenue', 'confidence', 'updated'];
+
+let store = { synced_at: null, model_id: null, items: {} };
+let storePath = null;
+
+function round2(v) {
+  return Math.round(v * 100) / 100;
+}
+
+/** Loads the worklist file (or starts empty) and remembers where to save it. */
+export function loadWorklist(path) {
+  storePath = path;
+  if (existsSync(path)) {
+    try {
+      store = JSON.parse(readFileSync(path, 'utf-8'));
+    } catch (err) {
+      console.warn(`Could not read worklist at ${path}: ${err.message}; starting empty`);
+    }
+  }
+  return store;
+}
+
+function saveWorklist() {
+  if (!storePath) return;
+  const tmp = `${storePath}.tmp`;
+  writeFileSync(tmp, JSON.stringify(store));
+  renameSync(tmp, storePath);
+}
+
+export function isWorklistSynced() {
+  return store.synced_at != null;
+}
+
+function suspectFields(suspect) {
+  return {
+    condition: suspect.condition,
+    source: suspect.source,
+    confidence: suspect.confidence,
+    evidence: suspect.evidence,
+    raf_uplift: suspect.raf_uplift,
+    revenue_uplift_estimate: suspect.revenue_uplift_estimate ?? 0,
+    priority: round2((suspect.revenue_uplift_estimate ?? 0) * suspect.confidence),
+  };
+}
+
+/**
+ * Runs the orchestrator over members and upserts their suspects. Returns
+ * { added, refreshed, reactivated, deactivated } counts. audit ({ caller, actor }) logs the sync as one
+ * population entry with the counts; the per-member decisions are not logged (a full sync would
+ * write one entry per member), the items themselves keep the evidence that was queued.
+ * costClaimsByMember: claims costed by the finance agent (payment-year claims in enrolled months,
+ * as everywhere else); defaults to claimsByMember.
+ */
+export function syncWorklist(members, claimsByMember, { modelId, premiumMap = {}, costClaimsByMember = claimsByMember, audit, now = new Date().toISOString() } = {}) {
+  const seen = new Set();
+  const counts = { added: 0, refreshed: 0, reactivated: 0, deactivated: 0 };
+  const memberById = {};
+  members.forEach((m) => {
+    memberById[m.member_id] = m;
+    const output = runOrchestrator(m, claimsByMember, costClaimsByMember[m.member_id] || [], modelId, premiumMap[m.member_id]);
+    output.suspect_hccs.forEach((h) => {
+      const itemId = `${m.member_id}-${h.hcc}`;
+      seen.add(itemId);
+      const existing = store.items[itemId];
+      if (!existing) {
+        store.items[itemId] = {
+          item_id: itemId,
+          member_id: m.member_id,
+          plan_type: m.plan_type,
+          state: m.state,
+          hcc: h.hcc,
+          ...suspectFields(h),
+          compliance_status: output.compliance?.compliance_status ?? null,
+          status: 'open',
+          assignee: null,
+          active: true,
+          notes: [],
+          history: [{ at: now, actor: 'system', action: 'created', to: 'open' }],
+          created_at: now,
+          updated_at: now,
+          last_seen_at: now,
+        };
+        counts.added += 1;
+        return;
+      }
+      Object.assign(existing, suspectFields(h), {
+        compliance_status: output.compliance?.compliance_status ?? null,
+        last_seen_at: now,
+      });
+      if (!existing.active) {
+        existing.active = true;
+        existing.history.push({ at: now, actor: 'system', action: 'suspect_returned' });
+        counts.reactivated += 1;
+      } else {
+        counts.refreshed += 1;
+      }
+    });
+  });
+
+  Object.values(store.items).forEach((item) => {
+    if (!item.active || seen.has(item.item_id) || !memberById[item.member_id]) return;
+    const coded = getCodedHCCs(memberById[item.member_id], claimsByMember).includes(item.hcc);
+    item.active = false;
+    item.history.push({ at: now, actor: 'system', action: coded ? 'hcc_coded' : 'suspect_cleared' });
+    item.updated_at = now;
+    counts.deactivated += 1;
+  });
+
+  store.synced_at = now;
+  store.model_id = modelId ?? null;
+  saveWorklist();
+  if (audit) recordPopulationDecision(counts, { memberIds: Object.keys(memberById), modelId }, audit, now);
+  return counts;
+}
+
+export function getWorklistItem(itemId) {
+  return store.items[itemId] ?? null;
+}
+
+const SORTERS = {
+  priority: (a, b) => b.priority - a.priority,
+  revenue: (a, b) => b.revenue_uplift_estimate - a.revenue_uplift_estimate,
+  confidence: (a, b) => b.confidence - a.confidence || b.priority - a.priority,
+  updated: (a, b) => b.updated_at.localeCompare(a.updated_at),
+};
+
+/**
+ * Filtered, sorted items. status accepts a comma list or repeated values; assignee "unassigned" matches no assignee;
+ * active defaults to all items.
+ */
+export function listWorklist({ status, assignee, hcc, state, plan_type, member_id, active, sort = 'priority' } = {}) {
+  let items = Object.values(store.items);
+  if (status) {
+    const wanted = [].concat(status).flatMap((s) => String(s).split(','));
+    items = items.filter((i) => wanted.includes(i.status));
+  }
+  if (assignee === 'unassigned') items = items.filter((i) => !i.assignee);
+  else if (assignee) items = items.filter((i) => i.assignee === assignee);
+  if (hcc) items = items.filter((i) => i.hcc === hcc);
+  if (state) items = items.filter((i) => i.state === state);
+  if (plan_type) items = items.filter((i) => i.plan_type === plan_type);
+  if (member_id) items = items.filter((i) => i.member_id === member_id);
+  if (active === 'true' || active === 'false') items = items.filter((i) => i.active === (active === 'true'));
+  return items.sort(SORTERS[sort] ?? SORTERS.priority);
+}
+
+/**
+ * Counts and revenue by status, reviewer throughput and the confirmation rate
+ * (confirmed ÷ items closed as confirmed or not supported), over active items only; items the
+ * latest sync deactivated are counted in inactive.
+ */
+export function getWorklistSummary() {
+  const byStatus = Object.fromEntries(WORKLIST_STATUSES.map((s) => [s, { items: 0, revenue: 0 }]));
+  const byAssignee = {};
+  let activeCount = 0;
+  Object.values(store.items).forEach((i) => {
+    if (!i.active) return;
+    activeCount += 1;
+    byStatus[i.status].items += 1;
+    byStatus[i.status].revenue += i.revenue_uplift_estimate;
+    const key = i.assignee || 'unassigned';
+    if (!byAssignee[key]) byAssignee[key] = { assignee: key, items: 0, open: 0, closed: 0 };
+    byAssignee[key].items += 1;
+    if (i.status === 'confirmed' || i.status === 'not_supported') byAssignee[key].closed += 1;
+    else byAssignee[key].open += 1;
+  });
+  Object.values(byStatus).forEach((s) => {
+    s.revenue = round2(s.revenue);
+  });
+  const closed = byStatus.confirmed.items + byStatus.not_supported.items;
+  return {
+    synced_at: store.synced_at,
+    model_id: store.model_id,
+    total: Object.keys(store.items).length,
+    active: activeCount,
+    inactive: Object.keys(store.items).length - activeCount,
+    by_status: byStatus,
+    confirmation_rate: closed > 0 ? Math.round((byStatus.confirmed.items / closed) * 1000) / 1000 : null,
+    by_assignee: Object.values(byAssignee).sort((a, b) => b.items - a.items),
+  };
+}
+
+function addNote(item, actor, note, at) {
+  if (note && String(note).trim()) item.notes.push({ at, author: actor, text: String(note).trim() });
+}
+
+/** Sets (or clears, with null/"") the assignee. Returns { item, errors }; item is null when not found. */
+export function assignWorklistItem(itemId, { assignee, actor = 'unknown', note } = {}, now = new Date().toISOString()) {
+  const item = store.items[itemId];
+  if (!item) return { item: null, errors: [] };
+  if (assignee != null && typeof assignee !== 'string') return { item, errors: ['assignee must be a string or null'] };
+  const next = assignee && assignee.trim() ? assignee.trim() : null;
+  item.history.push({ at: now, actor, action: 'assigned', from: item.assignee, to: next });
+  item.assignee = next;
+  addNote(item, actor, note, now);
+  item.updated_at = now;
+  saveWorklist();
+  return { item, errors: [] };
+}
+
+/** Moves an item to a new status. Returns { item, errors }; item is null when not found. */
+export function transitionWorklistItem(itemId, { status, actor = 'unknown', note } = {}, now = new Date().toISOString()) {
+  const item = store.items[itemId];
+  if (!item) return { item: null, errors: [] };
+  const errors = [];
+  if (!WORKLIST_STATUSES.includes(status)) {
+    errors.push(`status must be one of ${WORKLIST_STATUSES.join(', ')}`);
+  } else if (!TRANSITIONS[item.status].includes(status)) {
+    errors.push(`cannot move from ${item.status} to ${status} (allowed: ${TRANSITIONS[item.status].join(', ')})`);
+  }
+  if (NOTE_REQUIRED.includes(status) && !(note && String(note).trim())) errors.push(`a reviewer note is required for ${status}`);
+  if (errors.length) return { item, errors };
+  item.history.push({ at: now, actor, action: 'transition', from: item.status, to: status });
+  item.status = status;
+  addNote(item, actor, note, now);
+  item.updated_at = now;
+  saveWorklist();
+  return { item, errors: [] };
+}
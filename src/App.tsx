@@ -3,18 +3,22 @@ import Dashboard from './components/Dashboard';
 import MemberExplorer from './components/MemberExplorer';
 import ClaimsAnalyzer from './components/ClaimsAnalyzer';
 import RiskAdjustmentExplorer from './components/RiskAdjustmentExplorer';
+import ProviderScorecard from './components/ProviderScorecard';
+import CoderWorklist from './components/CoderWorklist';
 import WhatIfSimulation from './components/WhatIfSimulation';
 import ExecutiveChat from './components/ExecutiveChat';
 import Glossary from './components/Glossary';
 import UploadData from './components/UploadData';
 import type { DashboardData } from './api';
 
-type Tab = 'dashboard' | 'members' | 'claims' | 'risk' | 'simulation' | 'chat' | 'upload' | 'glossary';
+type Tab = 'dashboard' | 'members' | 'claims' | 'risk' | 'providers' | 'worklist' | 'simulation' | 'chat' | 'upload' | 'glossary';
 const TABS: { id: Tab; label: string }[] = [
   { id: 'dashboard', label: 'Dashboard' },
   { id: 'members', label: 'Member Explorer' },
   { id: 'claims', label: 'Claims Analyzer' },
   { id: 'risk', label: 'Risk Adjustment' },
+  { id: 'providers', label: 'Provider Scorecard' },
+  { id: 'worklist', label: 'Coder Worklist' },
   { id: 'simulation', label: 'What-If Simulation' },
   { id: 'chat', label: 'Executive Chat' },
   { id: 'upload', label: 'Upload Data' },
@@ -64,6 +68,8 @@ export default function App() {
         {tab === 'members' && <MemberExplorer />}
         {tab === 'claims' && <ClaimsAnalyzer />}
         {tab === 'risk' && <RiskAdjustmentExplorer />}
+        {tab === 'providers' && <ProviderScorecard />}
+        {tab === 'worklist' && <CoderWorklist />}
         {tab === 'simulation' && <WhatIfSimulation />}
         {tab === 'chat' && <ExecutiveChat />}
         {tab === 'upload' && <UploadData onApplyToDashboard={handleApplyUploadToDashboard} />}
@@ -19,25 +19,55 @@ async function fetchApi<T>(path: string, options?: RequestInit): Promise<T> {
     ...options,
     headers: { 'Content-Type': 'application/json', ...options?.headers },
   });
-  if (!res.ok) throw new Error(`API error: ${res.status}`);
+  if (!res.ok) {
+    // Validation endpoints return { error, details: [...] }; surface the details
+    const body = await res.json().catch(() => null);
+    if (Array.isArray(body?.details)) throw new Error(`${body.error}: ${body.details.join('; ')}`);
+    throw new Error(`API error: ${res.status}`);
+  }
   return res.json();
 }
 
+export interface RiskModel {
+  id: string;
+  name: string;
+  version: string;
+  payment_year: number | null;
+  description: string;
+  base_rate_pmpm: number;
+  normalization: { min: number; max: number };
+  hcc_weights: Record<string, number>;
+  is_default: boolean;
+}
+
+export const getModels = () => fetchApi<{ models: RiskModel[]; default: string }>('/models');
+
+export interface PlanMLR {
+  plan_type: string;
+  members: number;
+  premium: number;
+  claims: number;
+  riskAdjRevenue: number;
+  mlr: number;
+  riskAdjustedMLR: number;
+}
+
 export interface DashboardData {
+  model?: { id: string; version: string };
   kpis: {
     totalMembers: number;
     activeClaims: number;
+    totalPremium?: number;
     mlr: number;
     highRiskPct: string;
     avgCostPerMember: number;
     avgRAF?: number;
     highRAFPct?: string;
     riskAdjRevenue?: number;
-    suspectRAFUplift?: number;
     suspectHCCCount?: number;
-    agentSuspectHCCCount?: number;
-    agentPotentialRafUplift?: number;
-    agentPotentialRevenueUplift?: number;
+    membersWithSuspects?: number;
+    suspectRafUplift?: number;
+    suspectRevenueUplift?: number;
     riskAdjustedMLR?: number;
     mlrImprovementBps?: number;
   };
@@ -47,6 +77,8 @@ export interface DashboardData {
   rafByPlanType?: { plan_type: string; avgRAF: number; count: number }[];
   rafByState?: { state: string; avgRAF: number; count: number }[];
   riskRevenueByPlan?: { plan_type: string; total: number }[];
+  mlrByPlan?: PlanMLR[];
+  premiumRatesVersion?: string;
   executive?: {
     totalSuspectRafLeakage: number;
     revenueAtRisk: number;
@@ -56,7 +88,43 @@ export interface DashboardData {
   };
 }
 
-export const getDashboard = () => fetchApi<DashboardData>('/dashboard');
+export const getDashboard = (model?: string) =>
+  fetchApi<DashboardData>(model ? `/dashboard?model=${encodeURIComponent(model)}` : '/dashboard');
+
+export interface RiskTransferPlan {
+  plan_type: string;
+  members: number;
+  member_months: number;
+  plan_liability_risk_score: number;
+  transfer_pmpm: number;
+  transfer_total: number;
+  actuarial_value?: number;
+  induced_demand_factor?: number;
+  premium_with_risk_factor?: number;
+  premium_without_risk_factor?: number;
+}
+
+export interface RiskTransferData {
+  model: { id: string };
+  version: string;
+  admin_cost_removal: number;
+  states: {
+    state: string;
+    statewide_average_premium_pmpm: number;
+    member_months: number;
+    plans: RiskTransferPlan[];
+    payments: number;
+    charges: number;
+  }[];
+  plans: RiskTransferPlan[];
+  totals: { payments: number; charges: number };
+}
+
+export const getRiskTransfer = (params: Record<string, string | number | undefined> = {}) => {
+  const q = new URLSearchParams();
+  Object.entries(params).forEach(([k, v]) => v != null && v !== '' && q.set(k, String(v)));
+  return fetchApi<RiskTransferData>(`/risk-transfer?${q}`);
+};
 
 export interface Member {
   member_id: string;
@@ -70,9 +138,70 @@ export interface Member {
   member_months?: number;
 }
 
+/** Enrollment segment; months are "YYYY-MM", both ends inclusive. */
+export interface EligibilitySpan {
+  member_id: string;
+  plan_type: string;
+  state: string;
+  start_month: string;
+  end_month: string;
+}
+
+export interface RafBreakdown {
+  demographic: number;
+  hcc: number;
+  interaction?: number;
+  count?: number;
+  total: number;
+  dropped_hccs?: { code: string; dropped_by: string; family: string; weight: number }[];
+  interactions?: { id: string; label: string; hccs: string[]; weight: number }[];
+  hcc_count?: number;
+}
+
+export interface AgentOutput {
+  member_id: string;
+  model_id?: string;
+  suspect_hccs: {
+    hcc_code: string;
+    condition: string;
+    confidence: number;
+    raw_confidence?: number;
+    evidence: string[];
+    raf_uplift: number;
+    revenue_uplift_estimate: number;
+    source?: 'claims_pattern' | 'recapture';
+  }[];
+  unsupported_hccs?: (Omit<UnsupportedHCC, 'hcc'> & { hcc_code: string })[];
+  unsupported_raf_at_risk?: number;
+  unsupported_revenue_at_risk?: number;
+  overall_commentary: string | null;
+}
+
+/** Submitted HCC without payment-year face-to-face documentation (deletion risk). */
+export interface UnsupportedHCC {
+  hcc: string;
+  condition: string;
+  status: 'unsupported';
+  reason_code: 'no_claim_dx' | 'no_payment_year_dx';
+  support_score: number;
+  evidence: string[];
+  reasons: string[];
+  raf_at_risk: number;
+  revenue_at_risk: number;
+}
+
 export interface OrchestratedOutput {
   member_id: string;
-  suspect_hccs: { hcc: string; condition: string; confidence: number; evidence: string[]; raf_uplift: number; revenue_uplift_estimate?: number }[];
+  suspect_hccs: {
+    hcc: string;
+    condition: string;
+    confidence: number;
+    raw_confidence?: number;
+    evidence: string[];
+    raf_uplift: number;
+    revenue_uplift_estimate?: number;
+    source?: 'claims_pattern' | 'recapture';
+  }[];
   financial_impact: {
     estimated_revenue_uplift: number;
     mlr_improvement_bps: number;
@@ -81,7 +210,16 @@ export interface OrchestratedOutput {
     adjusted_mlr?: number;
     raw_mlr?: number;
   } | null;
-  compliance: { compliance_status: string; notes: string[]; risk_level: string };
+  unsupported_hccs?: UnsupportedHCC[];
+  deletion_risk?: { raf_at_risk: number; revenue_at_risk: number } | null;
+  compliance: {
+    compliance_status: string;
+    notes: string[];
+    risk_level: string;
+    checks?: { suspect_evidence: 'PASS' | 'FAIL'; coded_support: 'PASS' | 'FAIL' };
+    policy_version?: string;
+    rules?: ComplianceRuleResult[];
+  };
   executive_summary: string | null;
 }
 
@@ -91,22 +229,32 @@ export const getMembers = (params: Record<string, string | number | undefined>)
   return fetchApi<{ members: Member[]; total: number; page: number; limit: number }>(`/members?${q}`);
 };
 
-export const getMember = (id: string) =>
+export const getMember = (id: string, model?: string) =>
   fetchApi<
     Member & {
+      model?: { id: string; version: string };
+      eligibility?: EligibilitySpan[];
+      attributed_provider?: { provider_id: string; name: string | null; basis: string; visits: number } | null;
       recent_claims: Claim[];
       total_claim_cost: number;
       raf?: number;
-      rafBreakdown?: { demographic: number; hcc: number; total: number };
-      hccList?: { code: string; weight: number }[];
-      suspectedHCCs?: { code: string; weight: number; reason: string }[];
-      agent_output?: unknown;
+      rafBreakdown?: RafBreakdown;
+      hccList?: {
+        code: string;
+        weight: number;
+        dropped_by?: string | null;
+        supporting_claims?: { claim_id: string; service_date: string; claim_type: string; diagnosis_code: string }[];
+      }[];
+      suspectedHCCs?: AgentOutput['suspect_hccs'];
+      agent_output?: AgentOutput;
       orchestrated_output?: OrchestratedOutput;
       risk_adj_revenue?: number;
+      premium?: number;
     }
-  >(`/members/${encodeURIComponent(id)}`);
+  >(`/members/${encodeURIComponent(id)}${model ? `?model=${encodeURIComponent(model)}` : ''}`);
 
-export const getOrchestratorMember = (id: string) => fetchApi<OrchestratedOutput>(`/orchestrator/member/${encodeURIComponent(id)}`);
+export const getOrchestratorMember = (id: string, model?: string) =>
+  fetchApi<OrchestratedOutput>(`/orchestrator/member/${encodeURIComponent(id)}${model ? `?model=${encodeURIComponent(model)}` : ''}`);
 
 export interface ChatResponse {
   intent: { state?: string; plan_type?: string; analysis_type: string; close_suspect_pct?: number };
@@ -123,17 +271,54 @@ export interface ChatResponse {
   };
   confidenceNote: string;
   complianceNote: string;
+  compliance?: ChatCompliance;
+}
+
+export interface ChatCompliance {
+  compliance_status: 'APPROVED' | 'REWRITTEN' | 'BLOCKED';
+  policy_version: string;
+  triggered_rules: { id: string; pack: string; severity: 'review' | 'warn'; action: 'rewrite' | 'block'; findings: string[] }[];
 }
 
-export const postChatQuery = (question: string) =>
-  fetchApi<ChatResponse>('/chat/query', { method: 'POST', body: JSON.stringify({ question }) });
+export const postChatQuery = (question: string, model?: string) =>
+  fetchApi<ChatResponse>(`/chat/query${model ? `?model=${encodeURIComponent(model)}` : ''}`, {
+    method: 'POST',
+    body: JSON.stringify({ question }),
+  });
 
 export interface Claim {
   claim_id: string;
   member_id: string;
   service_date: string;
+  admit_date?: string;
+  discharge_date?: string;
+  paid_date?: string;
   claim_type: string;
   allowed_amount: number;
+  diagnosis_codes?: string[];
+  procedure_codes?: string[];
+  provider_id?: string;
+  ndc?: string;
+  drug_class?: string;
+  anomaly?: ClaimAnomaly;
+}
+
+export type ClaimAnomalyFlag = 'type_outlier' | 'member_outlier' | 'exact_duplicate' | 'near_duplicate' | 'unbundling';
+
+export interface ClaimAnomaly {
+  flags: { type: ClaimAnomalyFlag; detail: string; score?: number; related_claim_ids?: string[] }[];
+  anomaly_score: number;
+}
+
+export interface ClaimAnomalySummary {
+  version: string;
+  flagged_claims: number;
+  flagged_pct: number;
+  flagged_allowed: number;
+  duplicate_allowed: number;
+  by_flag: Record<ClaimAnomalyFlag, number>;
+  type_stats: Record<string, { claims: number; median: number; mad: number; threshold: number | null }>;
+  top: (Claim & ClaimAnomaly)[];
 }
 
 export const getClaims = (params: Record<string, string | number | undefined>) => {
@@ -147,18 +332,98 @@ export const getClaims = (params: Record<string, string | number | undefined>) =
     metrics: {
       totalAllowed: number;
       pmpm: number;
+      memberMonths?: number;
       outlierCount: number;
       p95Threshold: number;
     };
+    anomalies: ClaimAnomalySummary;
   }>(`/claims?${q}`);
 };
 
+export interface UtilizationMetrics {
+  member_months: number;
+  admits: number;
+  bed_days: number;
+  op_visits: number;
+  scripts: number;
+  admits_per_1000: number | null;
+  bed_days_per_1000: number | null;
+  alos: number | null;
+  op_visits_per_1000: number | null;
+  scripts_pmpy: number | null;
+  cost_per_unit: { admit: number | null; bed_day: number | null; op_visit: number | null; script: number | null };
+  allowed: number;
+  pmpm: number | null;
+}
+
+export interface UtilizationReport {
+  filters: { state: string | null; plan_type: string | null };
+  window: { from: string | null; to: string | null };
+  totals: UtilizationMetrics;
+  by_month: (UtilizationMetrics & { month: string })[];
+  by_plan: (UtilizationMetrics & { plan_type: string })[];
+  by_state: (UtilizationMetrics & { state: string })[];
+  ip_claims_without_stay: number;
+}
+
+export const getClaimsUtilization = (params: { date_from?: string; date_to?: string; state?: string; plan_type?: string } = {}) => {
+  const q = new URLSearchParams();
+  Object.entries(params).forEach(([k, v]) => v && q.set(k, v));
+  return fetchApi<UtilizationReport>(`/claims/utilization?${q}`);
+};
+
+export interface IbnrMonth {
+  month: string;
+  paid: number;
+  ibnr: number;
+  completed: number;
+  completion_pct: number | null;
+  actual_runout: number;
+  member_months: number;
+  paid_pmpm: number | null;
+  completed_pmpm: number | null;
+}
+
+export interface IbnrTriangle {
+  triangle: { incurred_month: string; cumulative_paid: number[] }[];
+  age_to_age: number[];
+  completion_factors: number[];
+  totals: { paid: number; ibnr: number; completed: number };
+}
+
+export interface IbnrEstimate {
+  filters: { state: string | null; plan_type: string | null };
+  as_of: string | null;
+  max_lag: number;
+  claim_type: string | null;
+  claims_without_paid_date: number;
+  by_type: Record<string, IbnrTriangle>;
+  months: IbnrMonth[];
+  totals: {
+    paid: number;
+    ibnr: number;
+    completed: number;
+    actual_runout: number;
+    member_months: number;
+    paid_pmpm: number | null;
+    completed_pmpm: number | null;
+  } | null;
+}
+
+export const getClaimsIbnr = (params: { as_of?: string; claim_type?: string; state?: string; plan_type?: string } = {}) => {
+  const q = new URLSearchParams();
+  Object.entries(params).forEach(([k, v]) => v && q.set(k, v));
+  return fetchApi<IbnrEstimate>(`/claims/ibnr?${q}`);
+};
+
 export interface SimulationResult {
+  model?: { id: string };
   risk_threshold: number;
   high_risk_count: number;
   high_risk_pct: string;
   expected_mlr: number;
   total_projected_cost: number;
+  total_premium?: number;
   plan_mix: { bronze: number; silver: number; gold: number };
   avgRAF?: number;
   total_risk_revenue?: number;
@@ -168,16 +433,173 @@ export interface SimulationResult {
   coding_improvement_pct?: number;
 }
 
-export const runSimulation = (body: {
-  risk_threshold?: number;
-  bronze_pct?: number;
-  silver_pct?: number;
-  gold_pct?: number;
+export const runSimulation = (
+  body: {
+    risk_threshold?: number;
+    bronze_pct?: number;
+    silver_pct?: number;
+    gold_pct?: number;
+    close_suspect_pct?: number;
+    coding_improvement_pct?: number;
+  },
+  model?: string
+) => fetchApi<SimulationResult>(`/simulation${model ? `?model=${encodeURIComponent(model)}` : ''}`, { method: 'POST', body: JSON.stringify(body) });
+
+export interface ProjectionAssumptions {
+  years?: number;
+  membership_growth?: number;
+  cost_trend?: number;
+  premium_trend?: number;
+  raf_drift?: number;
   close_suspect_pct?: number;
-  coding_improvement_pct?: number;
-}) => fetchApi<SimulationResult>('/simulation', { method: 'POST', body: JSON.stringify(body) });
+  recapture_rate?: number;
+  discount_rate?: number;
+}
+
+export interface ProjectionYear {
+  year: number;
+  members: number;
+  claims_cost: number;
+  premium: number;
+  risk_revenue: number;
+  gap_revenue: number;
+  total_revenue: number;
+  mlr_baseline: number | null;
+  mlr_with_gaps: number | null;
+  mlr_improvement_bps: number | null;
+  discount_factor: number;
+  pv_gap_revenue: number;
+}
+
+export interface FinanceProjection {
+  model: { id: string };
+  filters: { state: string | null; plan_type: string | null };
+  assumptions: Required<ProjectionAssumptions>;
+  baseline: { members: number; claims_cost: number; premium: number; risk_revenue: number; suspect_revenue_uplift: number };
+  years: ProjectionYear[];
+  totals: { claims_cost: number; premium: number; risk_revenue: number; gap_revenue: number; npv_gap_revenue: number };
+}
+
+export const postFinanceProjection = (body: ProjectionAssumptions & { state?: string; plan_type?: string }) =>
+  fetchApi<FinanceProjection>('/finance/projection', { method: 'POST', body: JSON.stringify(body) });
+
+export interface ReviewOptimizerOptions {
+  budget?: number;
+  cost_per_chart?: number;
+  confirmation_rates?: Record<string, number>;
+  limit?: number;
+  state?: string;
+  plan_type?: string;
+}
+
+export interface ReviewFrontierPoint {
+  charts: number;
+  spend: number;
+  expected_revenue: number;
+  expected_net: number;
+  roi: number | null;
+}
+
+export interface ReviewOptimizerMember {
+  rank: number;
+  member_id: string;
+  plan_type: string;
+  state: string;
+  suspects: { hcc: string; condition: string; confirmation_rate: number; revenue_uplift: number; expected_revenue: number }[];
+  potential_revenue: number;
+  expected_revenue: number;
+  expected_net: number;
+  cumulative_spend: number;
+  cumulative_expected_revenue: number;
+  cumulative_roi: number;
+}
+
+export interface ReviewOptimizerResult {
+  model: { id: string };
+  assumptions: { budget: number; cost_per_chart: number; confirmation_rates: Record<string, number> };
+  summary: {
+    members_with_suspects: number;
+    members_worth_reviewing: number;
+    charts_affordable: number;
+    charts_selected: number;
+    spend: number;
+    unspent_budget: number;
+    expected_revenue: number;
+    expected_net: number;
+    roi: number | null;
+  };
+  members: ReviewOptimizerMember[];
+  frontier: ReviewFrontierPoint[];
+}
+
+/** Chart reviews to fund under a budget, ranked by expected net revenue, plus the spend / revenue frontier. */
+export const postReviewOptimizer = (options: ReviewOptimizerOptions = {}, model?: string) =>
+  fetchApi<ReviewOptimizerResult>(`/agent/review-optimizer${model ? `?model=${encodeURIComponent(model)}` : ''}`, {
+    method: 'POST',
+    body: JSON.stringify(options),
+  });
+
+export type PnLGrouping = 'plan' | 'state' | 'plan_state';
+
+export interface PnLLine {
+  plan_type?: string;
+  state?: string;
+  members: number;
+  member_months: number;
+  premium: number;
+  risk_revenue: number;
+  revenue: number;
+  claims_by_type: Record<string, number>;
+  claims: number;
+  admin_cost: number;
+  margin: number;
+  margin_pct: number | null;
+  raw_mlr: number | null;
+  adjusted_mlr: number | null;
+  pmpm: { revenue: number | null; claims: number | null; margin: number | null };
+  revenue_at_risk: { suspect_uplift: number; deletion: number; total: number };
+}
+
+export interface PnLReport {
+  model: { id: string };
+  filters: { state: string | null; plan_type: string | null };
+  group_by: PnLGrouping;
+  admin_pct: number;
+  totals: PnLLine;
+  groups: PnLLine[];
+}
+
+export interface PnLMember {
+  member_id: string;
+  plan_type: string;
+  state: string;
+  member_months: number;
+  premium: number;
+  risk_revenue: number;
+  claims_by_type: Record<string, number>;
+  claims: number;
+  admin_cost: number;
+  margin: number;
+  adjusted_mlr: number | null;
+  revenue_at_risk: number;
+}
+
+/** P&L by plan, state or plan × state: ?group_by=&state=&plan_type=&admin_pct=&model= */
+export const getPnL = (params: Record<string, string | number | undefined> = {}) => {
+  const q = new URLSearchParams();
+  Object.entries(params).forEach(([k, v]) => v != null && v !== '' && q.set(k, String(v)));
+  return fetchApi<PnLReport>(`/finance/pnl?${q}`);
+};
+
+/** Members behind a P&L row: ?state=&plan_type=&sort=margin|claims|revenue_at_risk&page=&limit=&admin_pct=&model= */
+export const getPnLMembers = (params: Record<string, string | number | undefined> = {}) => {
+  const q = new URLSearchParams();
+  Object.entries(params).forEach(([k, v]) => v != null && v !== '' && q.set(k, String(v)));
+  return fetchApi<{ model: { id: string }; members: PnLMember[]; total: number; page: number; limit: number }>(`/finance/pnl/members?${q}`);
+};
 
 export interface RiskExplorerData {
+  model?: { id: string; version: string };
   members: Member[];
   total: number;
   page: number;
@@ -196,7 +618,490 @@ export const getRiskExplorer = (params: Record<string, string | number | undefin
   return fetchApi<RiskExplorerData>(`/risk-explorer?${q}`);
 };
 
-/** Upload members + claims (JSON arrays) or CSV strings. Returns dashboard-style analysis. */
-export function postUploadAnalyze(payload: { members?: unknown[]; claims?: unknown[] } | { format: 'csv'; membersCsv: string; claimsCsv: string }) {
-  return fetchApi<DashboardData>('/upload/analyze', { method: 'POST', body: JSON.stringify(payload) });
+export interface RecaptureRow {
+  key: string;
+  /** member_joint: each member's gaps recaptured together; gap_marginal: each gap priced on its own (by_hcc) */
+  basis: 'member_joint' | 'gap_marginal';
+  prior_hccs: number;
+  recaptured: number;
+  open: number;
+  open_raf: number;
+  open_revenue: number;
+  recapture_rate: number | null;
+}
+
+export interface RecaptureData {
+  model?: { id: string };
+  current_year: number;
+  prior_year: number;
+  totals: RecaptureRow;
+  by_plan: RecaptureRow[];
+  by_state: RecaptureRow[];
+  by_hcc: RecaptureRow[];
+  members: {
+    member_id: string;
+    plan_type: string;
+    state: string;
+    gaps: { hcc: string; prior_year: number; prior_claims: number; last_documented: string }[];
+    open_raf: number;
+    open_revenue: number;
+  }[];
+  members_with_gaps: number;
+}
+
+export const getRecapture = (params: Record<string, string | number | undefined> = {}) => {
+  const q = new URLSearchParams();
+  Object.entries(params).forEach(([k, v]) => v != null && v !== '' && q.set(k, String(v)));
+  return fetchApi<RecaptureData>(`/recapture?${q}`);
+};
+
+/** Provider scorecard: coding gaps over members attributed to the provider by OP visit patterns. */
+export interface ProviderScorecard {
+  provider_id: string;
+  name: string;
+  specialty: string;
+  is_pcp: boolean;
+  state: string | null;
+  attributed_members: number;
+  avg_raf: number;
+  suspect_hccs: number;
+  members_with_suspects: number;
+  revenue_at_risk: number;
+  recapture_rate: number | null;
+  open_recapture_gaps: number;
 }
+
+export interface ProviderPanelMember {
+  member_id: string;
+  plan_type: string;
+  state: string;
+  raf: number | null;
+  visits: number;
+  basis: 'pcp_visits' | 'other_visits' | null;
+  suspect_hccs: string[];
+  revenue_at_risk: number;
+  open_recapture_gaps: string[];
+}
+
+export const getProviders = (params: Record<string, string | number | undefined> = {}) => {
+  const q = new URLSearchParams();
+  Object.entries(params).forEach(([k, v]) => v != null && v !== '' && q.set(k, String(v)));
+  return fetchApi<{
+    model?: { id: string };
+    providers: ProviderScorecard[];
+    total: number;
+    attributed_members: number;
+    unattributed_members: number;
+  }>(`/providers?${q}`);
+};
+
+export const getProvider = (id: string, model?: string) =>
+  fetchApi<{
+    model?: { id: string };
+    provider: { provider_id: string; name: string; specialty: string; is_pcp: boolean; state: string };
+    scorecard: ProviderScorecard;
+    members: ProviderPanelMember[];
+  }>(`/providers/${id}${model ? `?model=${encodeURIComponent(model)}` : ''}`);
+
+/** Declarative claims-pattern suspect rules (server/config/suspect-rules.json). */
+export interface SuspectRuleSignal {
+  id: string;
+  type: 'threshold' | 'flag' | 'drug_class' | 'procedure_pattern';
+  fact?: string;
+  op?: string;
+  value?: number;
+  evidence?: string;
+  boost?: number;
+}
+
+export interface SuspectRuleSet {
+  version: string;
+  description?: string;
+  max_confidence?: number;
+  rules: {
+    hcc: string;
+    condition?: string;
+    pattern?: string;
+    min_signals: number;
+    signals: SuspectRuleSignal[];
+    confidence: {
+      strength: { base: number; per_extra_signal?: number; max?: number };
+      multiplier?: number | { fact: string; op: string; value: number; then: number; else: number };
+    };
+  }[];
+  load_errors?: string[];
+}
+
+export interface SuspectRulesDryRun {
+  model?: { id: string };
+  active_version: string;
+  draft_version: string;
+  members_evaluated: number;
+  totals: Record<'active' | 'draft', { suspects: number; members_with_suspects: number; raf_uplift: number; revenue_uplift: number }>;
+  by_hcc: { hcc: string; active: number; draft: number; added: number; removed: number; change: number }[];
+  sample_changes: { member_id: string; added: string[]; removed: string[] }[];
+}
+
+export interface SuspectReconciliation {
+  model?: { id: string };
+  members_evaluated: number;
+  members_with_differences: number;
+  totals: Record<'legacy' | 'pipeline', { suspects: number; members: number; raf_uplift: number; revenue_uplift: number }>;
+  by_hcc: { hcc: string; both: number; legacy_only: number; pipeline_only: number; agreement_rate: number | null }[];
+  members: {
+    member_id: string;
+    plan_type: string;
+    state: string;
+    both: string[];
+    legacy_only: { hcc: string; reason: string }[];
+    pipeline_only: { hcc: string; source?: string; confidence: number }[];
+  }[];
+}
+
+/** Legacy suspect rules vs. the suspect pipeline, for migration sign-off. */
+export const getSuspectReconciliation = (params: Record<string, string | number | undefined> = {}) => {
+  const q = new URLSearchParams();
+  Object.entries(params).forEach(([k, v]) => v != null && v !== '' && q.set(k, String(v)));
+  return fetchApi<SuspectReconciliation>(`/suspects/reconciliation?${q}`);
+};
+
+export interface UnsupportedHCCReport {
+  model?: { id: string };
+  payment_year: number;
+  members_evaluated: number;
+  totals: {
+    coded_hccs: number;
+    supported: number;
+    unsupported: number;
+    members_with_unsupported: number;
+    raf_at_risk: number;
+    revenue_at_risk: number;
+    unsupported_rate: number | null;
+  };
+  by_hcc: { hcc: string; condition: string; coded: number; unsupported: number; unsupported_rate: number | null; revenue_at_risk: number }[];
+  by_reason: Partial<Record<UnsupportedHCC['reason_code'], number>>;
+  members: {
+    member_id: string;
+    plan_type: string;
+    state: string;
+    unsupported_hccs: Pick<UnsupportedHCC, 'hcc' | 'condition' | 'reason_code' | 'support_score' | 'reasons' | 'raf_at_risk'>[];
+    raf_at_risk: number;
+    revenue_at_risk: number;
+  }[];
+}
+
+/** Coded HCCs without payment-year support, with the RAF and revenue that would be removed. */
+export const getUnsupportedHCCs = (params: Record<string, string | number | undefined> = {}) => {
+  const q = new URLSearchParams();
+  Object.entries(params).forEach(([k, v]) => v != null && v !== '' && q.set(k, String(v)));
+  return fetchApi<UnsupportedHCCReport>(`/unsupported-hccs?${q}`);
+};
+
+export const getSuspectRules = () => fetchApi<SuspectRuleSet>('/agent/rules');
+
+/** Evaluates a draft rule set against the population; the active rules are not changed. */
+export const postSuspectRulesDryRun = (rules: unknown, model?: string) =>
+  fetchApi<SuspectRulesDryRun>(`/agent/rules/dry-run${model ? `?model=${encodeURIComponent(model)}` : ''}`, {
+    method: 'POST',
+    body: JSON.stringify(rules),
+  });
+
+export interface BacktestCurvePoint {
+  min: number;
+  max: number;
+  n: number;
+  confirmed: number;
+  mean_confidence: number;
+  observed_rate: number;
+}
+
+export interface BacktestStats {
+  flagged: number;
+  confirmed: number;
+  precision: number | null;
+  newly_coded: number;
+  recall: number | null;
+  mean_confidence: number | null;
+  brier_score: number | null;
+  calibration_curve: BacktestCurvePoint[];
+}
+
+export interface SuspectCalibration {
+  version: string;
+  cutoff?: string;
+  rules_version?: string;
+  by_hcc: Record<string, { min: number; max: number; n?: number; calibrated: number }[]>;
+}
+
+export interface SuspectBacktest {
+  model?: { id: string };
+  cutoff: string;
+  rules_version: string;
+  members_evaluated: number;
+  overall: BacktestStats;
+  by_hcc: (BacktestStats & { hcc: string; condition: string })[];
+  calibration?: SuspectCalibration;
+}
+
+/** Rules run on claims before cutoff, scored against HCCs coded afterwards; fit adds a calibration. */
+export const getSuspectBacktest = (params: { cutoff?: string; model?: string; fit?: boolean } = {}) => {
+  const q = new URLSearchParams();
+  if (params.cutoff) q.set('cutoff', params.cutoff);
+  if (params.model) q.set('model', params.model);
+  if (params.fit) q.set('fit', '1');
+  return fetchApi<SuspectBacktest>(`/agent/backtest?${q}`);
+};
+
+export const getSuspectCalibration = () => fetchApi<{ calibration: SuspectCalibration | null }>('/agent/calibration');
+
+export const postSuspectCalibration = (calibration: SuspectCalibration) =>
+  fetchApi<{ calibration: SuspectCalibration }>('/agent/calibration', { method: 'POST', body: JSON.stringify(calibration) });
+
+export const deleteSuspectCalibration = () =>
+  fetchApi<{ calibration: null }>('/agent/calibration', { method: 'DELETE' });
+
+export type ComplianceRuleType = 'prohibited_phrases' | 'required_language' | 'evidence_minimum' | 'coded_support' | 'risk_threshold';
+
+/** Outcome of one named compliance rule for a member. */
+export interface ComplianceRuleResult {
+  id: string;
+  pack: string;
+  type: ComplianceRuleType;
+  severity: 'review' | 'warn';
+  passed: boolean;
+  findings: string[];
+}
+
+export interface ComplianceRule {
+  id: string;
+  type: ComplianceRuleType;
+  severity: 'review' | 'warn';
+  targets?: ('suspects' | 'commentary' | 'unsupported')[];
+  patterns?: string[];
+  case_sensitive?: boolean;
+  terms?: string[];
+  min?: number;
+  metric?: 'suspect_revenue_uplift' | 'deletion_revenue_at_risk';
+  levels?: Partial<Record<'MEDIUM' | 'HIGH', number>>;
+  message?: string;
+  pass_note?: string;
+}
+
+export interface CompliancePolicy {
+  version: string;
+  description?: string;
+  packs: { id: string; label?: string; rules: ComplianceRule[] }[];
+  load_errors?: string[];
+}
+
+export const getCompliancePolicy = () => fetchApi<CompliancePolicy>('/compliance/rules');
+
+/** Replaces the active compliance rule packs in memory (400 with details when invalid). */
+export const postCompliancePolicy = (policy: CompliancePolicy) =>
+  fetchApi<CompliancePolicy>('/compliance/rules', { method: 'POST', body: JSON.stringify(policy) });
+
+export const deleteCompliancePolicy = () => fetchApi<CompliancePolicy>('/compliance/rules', { method: 'DELETE' });
+
+export interface AuditLogEntry {
+  seq: number;
+  at: string;
+  scope?: 'member';
+  caller: string;
+  actor: string | null;
+  member_id: string;
+  inputs_hash: string;
+  versions: { model: string; suspect_rules: string; crosswalk: string; drug_classes?: string; calibration: string | null; compliance_rules?: string };
+  risk: {
+    suspect_hccs: OrchestratedOutput['suspect_hccs'];
+    unsupported_hccs?: OrchestratedOutput['unsupported_hccs'];
+    deletion_risk?: OrchestratedOutput['deletion_risk'];
+  };
+  finance: OrchestratedOutput['financial_impact'];
+  compliance: OrchestratedOutput['compliance'];
+  executive_summary: string | null;
+  prev_hash: string;
+  hash: string;
+}
+
+/** One population roll-up (dashboard, orchestrator summary, chat answer, worklist sync). */
+export interface PopulationAuditLogEntry {
+  seq: number;
+  at: string;
+  scope: 'population';
+  caller: string;
+  actor: string | null;
+  member_id: null;
+  members: number;
+  inputs_hash: string;
+  versions: AuditLogEntry['versions'];
+  summary: Record<string, unknown>;
+  prev_hash: string;
+  hash: string;
+}
+
+export interface AuditLogVerification {
+  valid: boolean;
+  entries: number;
+  head_hash: string | null;
+  first_invalid: { line: number; seq: number | null; reason: string } | null;
+}
+
+/** Logged orchestrator decisions, newest first (filters: member_id, caller, scope, from, to). */
+export const getAuditLog = (params: Record<string, string | number | undefined> = {}) => {
+  const q = new URLSearchParams();
+  Object.entries(params).forEach(([k, v]) => v != null && v !== '' && q.set(k, String(v)));
+  return fetchApi<{ entries: (AuditLogEntry | PopulationAuditLogEntry)[]; total: number; page: number; limit: number }>(`/audit/log?${q}`);
+};
+
+export const verifyAuditLog = () => fetchApi<AuditLogVerification>('/audit/log/verify');
+
+export interface RadvStratum {
+  stratum: number;
+  raf_min: number;
+  raf_max: number;
+  population: number;
+  sampled: number;
+  hccs_reviewed: number;
+  hccs_unsupported: number;
+  hcc_error_rate: number | null;
+  payment_error_rate: number | null;
+  mean_overpayment: number;
+  extrapolated_overpayment: number;
+  standard_error: number;
+}
+
+export interface RadvSimulation {
+  model: { id: string };
+  audit_year: number;
+  seed: number;
+  confidence_level: number;
+  frame_members: number;
+  sampled_members: number;
+  sample_hcc_error_rate: number | null;
+  sample_payment_error_rate: number | null;
+  population_payment: number;
+  extrapolation: {
+    estimated_overpayment: number;
+    standard_error: number;
+    ci_lower: number;
+    ci_upper: number;
+    payment_error_rate: number | null;
+  };
+  by_stratum: RadvStratum[];
+  sample: {
+    member_id: string;
+    stratum: number;
+    plan_type: string;
+    state: string;
+    coded_hccs: string[];
+    unsupported_hccs: string[];
+    raf_coded: number;
+    raf_supported: number;
+    overpayment: number;
+  }[];
+}
+
+export interface RadvOptions {
+  sample_size?: number;
+  strata?: number;
+  seed?: number;
+  confidence_level?: number;
+  audit_year?: number;
+}
+
+/** Stratified RADV-style audit sample with extrapolated payment error; same seed → same sample. */
+export const postRadvSimulation = (options: RadvOptions = {}, model?: string) =>
+  fetchApi<RadvSimulation>(`/audit/radv-simulation${model ? `?model=${encodeURIComponent(model)}` : ''}`, {
+    method: 'POST',
+    body: JSON.stringify(options),
+  });
+
+export type WorklistStatus = 'open' | 'in_review' | 'confirmed' | 'not_supported' | 'deferred';
+
+export interface WorklistItem {
+  item_id: string;
+  member_id: string;
+  plan_type: string;
+  state: string;
+  hcc: string;
+  condition: string;
+  source?: 'claims_pattern' | 'recapture';
+  confidence: number;
+  evidence: string[];
+  raf_uplift: number;
+  revenue_uplift_estimate: number;
+  priority: number;
+  compliance_status: string | null;
+  status: WorklistStatus;
+  assignee: string | null;
+  active: boolean;
+  notes: { at: string; author: string; text: string }[];
+  history: { at: string; actor: string; action: string; from?: string | null; to?: string | null }[];
+  created_at: string;
+  updated_at: string;
+  last_seen_at: string;
+}
+
+export interface WorklistSummary {
+  synced_at: string | null;
+  model_id: string | null;
+  total: number;
+  active: number;
+  inactive: number;
+  by_status: Record<WorklistStatus, { items: number; revenue: number }>;
+  confirmation_rate: number | null;
+  by_assignee: { assignee: string; items: number; open: number; closed: number }[];
+}
+
+export const getWorklist = (params: Record<string, string | number | undefined> = {}) => {
+  const q = new URLSearchParams();
+  Object.entries(params).forEach(([k, v]) => v != null && v !== '' && q.set(k, String(v)));
+  return fetchApi<{ items: WorklistItem[]; total: number; page: number; limit: number; summary: WorklistSummary }>(`/worklist?${q}`);
+};
+
+export const postWorklistSync = (model?: string) =>
+  fetchApi<{ added: number; refreshed: number; reactivated: number; deactivated: number; summary: WorklistSummary }>(
+    `/worklist/sync${model ? `?model=${encodeURIComponent(model)}` : ''}`,
+    { method: 'POST' }
+  );
+
+export const postWorklistAssign = (id: string, body: { assignee: string | null; actor?: string; note?: string }) =>
+  fetchApi<WorklistItem>(`/worklist/${encodeURIComponent(id)}/assign`, { method: 'POST', body: JSON.stringify(body) });
+
+export const postWorklistTransition = (id: string, body: { status: WorklistStatus; actor?: string; note?: string }) =>
+  fetchApi<WorklistItem>(`/worklist/${encodeURIComponent(id)}/transition`, { method: 'POST', body: JSON.stringify(body) });
+
+/** Upload members + claims (+ optional eligibility spans) as JSON arrays or CSV strings. Returns dashboard-style analysis. */
+/** Dashboard-style analysis of an upload plus utilization and the IBNR estimate over all uploaded claims. */
+export interface UploadAnalysis extends DashboardData {
+  utilization: Omit<UtilizationReport, 'filters'>;
+  ibnr: Omit<IbnrEstimate, 'filters'>;
+}
+
+export function postUploadAnalyze(
+  payload:
+    | { members?: unknown[]; claims?: unknown[]; eligibility?: unknown[]; premiumRates?: PremiumRates }
+    | { format: 'csv'; membersCsv: string; claimsCsv: string; eligibilityCsv?: string; premiumRates?: PremiumRates }
+) {
+  return fetchApi<UploadAnalysis>('/upload/analyze', { method: 'POST', body: JSON.stringify(payload) });
+}
+
+/** Premium rating table: base PMPM by plan × state × rating area × age band factors. */
+export interface PremiumRates {
+  version: string;
+  description?: string;
+  base_pmpm: Record<string, number>;
+  age_bands: { band: string; min_age: number; factor: number }[];
+  state_factors?: Record<string, number>;
+  default_state_factor?: number;
+  rating_area_factors?: Record<string, Record<string, number>>;
+  default_rating_area_factors?: Record<string, number>;
+  default_rating_area?: string;
+}
+
+export const getPremiumRates = () => fetchApi<PremiumRates>('/premium-rates');
+
+export const postPremiumRates = (rates: PremiumRates) =>
+  fetchApi<PremiumRates>('/premium-rates', { method: 'POST', body: JSON.stringify(rates) });
+
+export const deletePremiumRates = () => fetchApi<PremiumRates>('/premium-rates', { method: 'DELETE' });
@@ -1,8 +1,16 @@
 import { useEffect, useState } from 'react';
-import { getClaims } from '../api';
-import type { Claim } from '../api';
+import { ComposedChart, LineChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { getClaims, getClaimsIbnr, getClaimsUtilization } from '../api';
+import type { Claim, ClaimAnomalyFlag, ClaimAnomalySummary, IbnrEstimate, UtilizationMetrics, UtilizationReport } from '../api';
 
 const CLAIM_TYPES = ['IP', 'OP', 'RX'];
+const FLAG_LABELS: Record<ClaimAnomalyFlag, string> = {
+  type_outlier: 'Type outlier',
+  member_outlier: 'Member outlier',
+  exact_duplicate: 'Exact duplicate',
+  near_duplicate: 'Near duplicate',
+  unbundling: 'Unbundling',
+};
 const US_STATES = ['NY', 'CA', 'TX', 'FL', 'NJ', 'IL', 'PA', 'GA', 'OH', 'NC', 'MI', 'AZ', 'WA', 'MA'];
 
 export default function ClaimsAnalyzer() {
@@ -11,9 +19,11 @@ export default function ClaimsAnalyzer() {
   const [metrics, setMetrics] = useState<{
     totalAllowed: number;
     pmpm: number;
+    memberMonths?: number;
     outlierCount: number;
     p95Threshold: number;
   } | null>(null);
+  const [anomalies, setAnomalies] = useState<ClaimAnomalySummary | null>(null);
   const [page, setPage] = useState(1);
   const [loading, setLoading] = useState(true);
   const [filters, setFilters] = useState({
@@ -22,13 +32,18 @@ export default function ClaimsAnalyzer() {
     claim_type: '',
     cost_min: '',
     state: '',
+    enrolled_from: '',
+    enrolled_to: '',
+    flag: '',
   });
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
 
   const loadClaims = () => {
     setLoading(true);
     getClaims({
       ...filters,
       cost_min: filters.cost_min || undefined,
+      flagged: flaggedOnly ? 'true' : undefined,
       page,
       limit: 50,
     })
@@ -36,11 +51,23 @@ export default function ClaimsAnalyzer() {
         setClaims(res.claims);
         setTotal(res.total);
         setMetrics(res.metrics);
+        setAnomalies(res.anomalies);
       })
       .finally(() => setLoading(false));
   };
 
-  useEffect(loadClaims, [page, filters.date_from, filters.date_to, filters.claim_type, filters.cost_min, filters.state]);
+  useEffect(loadClaims, [
+    page,
+    filters.date_from,
+    filters.date_to,
+    filters.claim_type,
+    filters.cost_min,
+    filters.state,
+    filters.enrolled_from,
+    filters.enrolled_to,
+    filters.flag,
+    flaggedOnly,
+  ]);
 
   const applyFilters = () => loadClaims();
 
@@ -106,6 +133,52 @@ export default function ClaimsAnalyzer() {
               ))}
             </select>
           </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Enrolled From</label>
+            <input
+              type="month"
+              value={filters.enrolled_from}
+              onChange={(e) => setFilters((f) => ({ ...f, enrolled_from: e.target.value }))}
+              className="border border-slate-300 rounded px-2 py-1.5 text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Enrolled To</label>
+            <input
+              type="month"
+              value={filters.enrolled_to}
+              onChange={(e) => setFilters((f) => ({ ...f, enrolled_to: e.target.value }))}
+              className="border border-slate-300 rounded px-2 py-1.5 text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Anomaly</label>
+            <select
+              value={filters.flag}
+              onChange={(e) => {
+                setPage(1);
+                setFilters((f) => ({ ...f, flag: e.target.value }));
+              }}
+              className="border border-slate-300 rounded px-2 py-1.5 text-sm"
+            >
+              <option value="">Any</option>
+              {(Object.keys(FLAG_LABELS) as ClaimAnomalyFlag[]).map((f) => (
+                <option key={f} value={f}>{FLAG_LABELS[f]}</option>
+              ))}
+            </select>
+          </div>
+          <label className="flex items-center gap-1.5 text-sm text-slate-600 pb-1.5">
+            <input
+              type="checkbox"
+              checked={flaggedOnly || !!filters.flag}
+              disabled={!!filters.flag}
+              onChange={(e) => {
+                setPage(1);
+                setFlaggedOnly(e.target.checked);
+              }}
+            />
+            Flagged only
+          </label>
           <button
             onClick={applyFilters}
             className="px-4 py-1.5 rounded bg-[#e91e8c] text-white text-sm font-medium hover:bg-[#c41a77]"
@@ -125,15 +198,53 @@ export default function ClaimsAnalyzer() {
           <div className="bg-white rounded-lg border border-slate-200 p-4 shadow-sm">
             <p className="text-xs font-medium text-slate-500">PMPM</p>
             <p className="text-lg font-bold text-slate-900">${metrics.pmpm.toLocaleString()}</p>
+            {metrics.memberMonths != null && (
+              <p className="text-xs text-slate-500">{metrics.memberMonths.toLocaleString()} member months</p>
+            )}
           </div>
-          <div className="bg-white rounded-lg border border-slate-200 p-4 shadow-sm">
-            <p className="text-xs font-medium text-slate-500">Outliers (≥P95)</p>
-            <p className="text-lg font-bold text-slate-900">{metrics.outlierCount}</p>
-          </div>
-          <div className="bg-white rounded-lg border border-slate-200 p-4 shadow-sm">
-            <p className="text-xs font-medium text-slate-500">P95 Threshold</p>
-            <p className="text-lg font-bold text-slate-900">${metrics.p95Threshold.toLocaleString()}</p>
+          {anomalies && (
+            <>
+              <div className="bg-white rounded-lg border border-slate-200 p-4 shadow-sm">
+                <p className="text-xs font-medium text-slate-500">Flagged Claims</p>
+                <p className="text-lg font-bold text-[#e91e8c]">{anomalies.flagged_claims.toLocaleString()}</p>
+                <p className="text-xs text-slate-500">
+                  {anomalies.flagged_pct}% · ${anomalies.flagged_allowed.toLocaleString()} allowed
+                </p>
+              </div>
+              <div className="bg-white rounded-lg border border-slate-200 p-4 shadow-sm">
+                <p className="text-xs font-medium text-slate-500">Possible Duplicates</p>
+                <p className="text-lg font-bold text-slate-900">${anomalies.duplicate_allowed.toLocaleString()}</p>
+                <p className="text-xs text-slate-500">
+                  {anomalies.by_flag.exact_duplicate} exact · {anomalies.by_flag.near_duplicate} near
+                </p>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      {anomalies && (
+        <div className="bg-white rounded-lg border border-slate-200 p-4 shadow-sm text-xs text-slate-600 space-y-1">
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(FLAG_LABELS) as ClaimAnomalyFlag[]).map((f) => (
+              <button
+                key={f}
+                onClick={() => {
+                  setPage(1);
+                  setFilters((prev) => ({ ...prev, flag: prev.flag === f ? '' : f }));
+                }}
+                className={`px-2 py-0.5 rounded border ${filters.flag === f ? 'border-[#e91e8c] bg-[#e91e8c]/5' : 'border-slate-200 hover:border-slate-300'}`}
+              >
+                {FLAG_LABELS[f]}: <strong>{anomalies.by_flag[f]}</strong>
+              </button>
+            ))}
           </div>
+          <p className="text-slate-500">
+            Outlier thresholds by claim type (robust z ≥ 3.5):{' '}
+            {Object.entries(anomalies.type_stats)
+              .map(([type, s]) => `${type} $${s.threshold != null ? s.threshold.toLocaleString() : '—'} (median $${s.median.toLocaleString()})`)
+              .join(' · ')}
+          </p>
         </div>
       )}
 
@@ -149,21 +260,37 @@ export default function ClaimsAnalyzer() {
                 <th className="px-4 py-2 text-left font-medium text-slate-600">Claim ID</th>
                 <th className="px-4 py-2 text-left font-medium text-slate-600">Member ID</th>
                 <th className="px-4 py-2 text-left font-medium text-slate-600">Date</th>
+                <th className="px-4 py-2 text-left font-medium text-slate-600">Paid</th>
                 <th className="px-4 py-2 text-left font-medium text-slate-600">Type</th>
                 <th className="px-4 py-2 text-right font-medium text-slate-600">Allowed</th>
+                <th className="px-4 py-2 text-left font-medium text-slate-600">Flags</th>
               </tr>
             </thead>
             <tbody>
               {loading ? (
-                <tr><td colSpan={5} className="px-4 py-8 text-center text-slate-500">Loading...</td></tr>
+                <tr><td colSpan={7} className="px-4 py-8 text-center text-slate-500">Loading...</td></tr>
               ) : (
                 claims.map((c) => (
                   <tr key={c.claim_id} className="border-t border-slate-100">
                     <td className="px-4 py-2 font-mono">{c.claim_id}</td>
                     <td className="px-4 py-2 font-mono">{c.member_id}</td>
                     <td className="px-4 py-2">{c.service_date}</td>
+                    <td className="px-4 py-2 text-slate-500">{c.paid_date ?? '—'}</td>
                     <td className="px-4 py-2">{c.claim_type}</td>
                     <td className="px-4 py-2 text-right">${c.allowed_amount.toLocaleString()}</td>
+                    <td className="px-4 py-2">
+                      <div className="flex flex-wrap gap-1">
+                        {c.anomaly?.flags.map((f, i) => (
+                          <span
+                            key={i}
+                            title={`${f.detail}${f.related_claim_ids?.length ? ` · related ${f.related_claim_ids.join(', ')}` : ''}`}
+                            className={`px-1.5 py-0.5 rounded text-xs ${f.type.endsWith('duplicate') ? 'bg-amber-100 text-amber-800' : 'bg-slate-100 text-slate-600'}`}
+                          >
+                            {FLAG_LABELS[f.type]}
+                          </span>
+                        ))}
+                      </div>
+                    </td>
                   </tr>
                 ))
               )}
@@ -188,6 +315,311 @@ export default function ClaimsAnalyzer() {
           </button>
         </div>
       </div>
+
+      <UtilizationPanel dateFrom={filters.date_from} dateTo={filters.date_to} state={filters.state} />
+
+      <IbnrPanel claimType={filters.claim_type} state={filters.state} />
+    </div>
+  );
+}
+
+type UtilizationKey = 'admits_per_1000' | 'bed_days_per_1000' | 'alos' | 'op_visits_per_1000' | 'scripts_pmpy' | 'pmpm';
+
+const UTILIZATION_METRICS: { key: UtilizationKey; label: string; format: (v: number) => string }[] = [
+  { key: 'admits_per_1000', label: 'Admits / 1000', format: (v) => v.toFixed(1) },
+  { key: 'bed_days_per_1000', label: 'Bed days / 1000', format: (v) => v.toFixed(1) },
+  { key: 'alos', label: 'ALOS (days)', format: (v) => v.toFixed(2) },
+  { key: 'op_visits_per_1000', label: 'OP visits / 1000', format: (v) => v.toFixed(1) },
+  { key: 'scripts_pmpy', label: 'Scripts PMPY', format: (v) => v.toFixed(2) },
+  { key: 'pmpm', label: 'PMPM', format: (v) => `$${v.toLocaleString()}` },
+];
+
+const fmtMetric = (v: number | null, format: (v: number) => string) => (v != null ? format(v) : '—');
+const fmtUnit = (v: number | null) => (v != null ? `$${v.toLocaleString()}` : '—');
+
+/** Utilization per 1,000, ALOS and cost per unit: monthly trend plus a plan / state breakdown. */
+function UtilizationPanel({ dateFrom, dateTo, state }: { dateFrom: string; dateTo: string; state: string }) {
+  const [report, setReport] = useState<UtilizationReport | null>(null);
+  const [trendMetric, setTrendMetric] = useState<UtilizationKey>('admits_per_1000');
+  const [groupBy, setGroupBy] = useState<'plan' | 'state'>('plan');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setError(null);
+    getClaimsUtilization({ date_from: dateFrom || undefined, date_to: dateTo || undefined, state: state || undefined })
+      .then(setReport)
+      .catch((e) => setError(e.message));
+  }, [dateFrom, dateTo, state]);
+
+  const metric = UTILIZATION_METRICS.find((m) => m.key === trendMetric)!;
+  const groups: (UtilizationMetrics & { label: string })[] = report
+    ? groupBy === 'plan'
+      ? report.by_plan.map((g) => ({ ...g, label: g.plan_type }))
+      : report.by_state.map((g) => ({ ...g, label: g.state }))
+    : [];
+
+  return (
+    <div className="bg-white rounded-lg border border-slate-200 p-4 shadow-sm space-y-4">
+      <div>
+        <h3 className="text-sm font-semibold text-slate-900">Utilization</h3>
+        <p className="text-xs text-slate-500">
+          Annualized per 1,000 enrolled members
+          {report?.window.from ? ` · ${report.window.from} to ${report.window.to}` : ''}
+          {state ? ` · ${state}` : ''}
+        </p>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {report && (
+        <>
+          <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-4 text-sm">
+            {UTILIZATION_METRICS.map((m) => (
+              <button
+                key={m.key}
+                onClick={() => setTrendMetric(m.key)}
+                className={`text-left rounded border p-2 ${trendMetric === m.key ? 'border-[#e91e8c] bg-[#e91e8c]/5' : 'border-slate-200 hover:border-slate-300'}`}
+              >
+                <p className="text-xs text-slate-500">{m.label}</p>
+                <p className="font-bold text-slate-900">{fmtMetric(report.totals[m.key], m.format)}</p>
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-slate-500">
+            Cost per unit: admit {fmtUnit(report.totals.cost_per_unit.admit)} · bed day {fmtUnit(report.totals.cost_per_unit.bed_day)} · OP
+            visit {fmtUnit(report.totals.cost_per_unit.op_visit)} · script {fmtUnit(report.totals.cost_per_unit.script)}
+            {report.ip_claims_without_stay > 0 && ` · ${report.ip_claims_without_stay} IP claims without admit / discharge dates excluded from bed days`}
+          </p>
+
+          <div className="h-56">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={report.by_month}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                <XAxis dataKey="month" fontSize={11} />
+                <YAxis fontSize={11} domain={['auto', 'auto']} />
+                <Tooltip formatter={(v: number) => [metric.format(v), metric.label]} />
+                <Line type="monotone" dataKey={metric.key} name={metric.label} stroke="#14b8a6" strokeWidth={2} dot={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center gap-2 text-xs">
+              <span className="font-medium text-slate-600">By</span>
+              {(['plan', 'state'] as const).map((g) => (
+                <button
+                  key={g}
+                  onClick={() => setGroupBy(g)}
+                  className={`px-2 py-0.5 rounded border ${groupBy === g ? 'border-[#e91e8c] bg-[#e91e8c]/5' : 'border-slate-200 hover:border-slate-300'}`}
+                >
+                  {g === 'plan' ? 'Plan' : 'State'}
+                </button>
+              ))}
+            </div>
+            <div className="overflow-x-auto max-h-[320px] overflow-y-auto">
+              <table className="min-w-full text-xs">
+                <thead className="bg-slate-50 sticky top-0">
+                  <tr>
+                    {[groupBy === 'plan' ? 'Plan' : 'State', 'Member months', ...UTILIZATION_METRICS.map((m) => m.label), '$ / admit', '$ / OP visit', '$ / script'].map((h, i) => (
+                      <th key={h} className={`px-3 py-1.5 font-medium text-slate-600 ${i === 0 ? 'text-left' : 'text-right'}`}>{h}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {groups.map((g) => (
+                    <tr key={g.label} className="border-t border-slate-100">
+                      <td className="px-3 py-1.5">{g.label}</td>
+                      <td className="px-3 py-1.5 text-right">{g.member_months.toLocaleString()}</td>
+                      {UTILIZATION_METRICS.map((m) => (
+                        <td key={m.key} className="px-3 py-1.5 text-right">{fmtMetric(g[m.key], m.format)}</td>
+                      ))}
+                      <td className="px-3 py-1.5 text-right">{fmtUnit(g.cost_per_unit.admit)}</td>
+                      <td className="px-3 py-1.5 text-right">{fmtUnit(g.cost_per_unit.op_visit)}</td>
+                      <td className="px-3 py-1.5 text-right">{fmtUnit(g.cost_per_unit.script)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+const fmtK = (v: number) => `$${(v / 1000).toFixed(0)}K`;
+
+/** Lag triangles and chain-ladder IBNR: paid vs. completed cost and PMPM by incurred month. */
+function IbnrPanel({ claimType, state }: { claimType: string; state: string }) {
+  const [asOf, setAsOf] = useState('');
+  const [result, setResult] = useState<IbnrEstimate | null>(null);
+  const [triangleType, setTriangleType] = useState('IP');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setError(null);
+    getClaimsIbnr({ as_of: asOf || undefined, claim_type: claimType || undefined, state: state || undefined })
+      .then((res) => {
+        setResult(res);
+        const types = Object.keys(res.by_type);
+        setTriangleType((t) => (types.includes(t) ? t : types[0] ?? ''));
+      })
+      .catch((e) => setError(e.message));
+  }, [asOf, claimType, state]);
+
+  const recent = result ? result.months.slice(-12) : [];
+  const triangle = result?.by_type[triangleType];
+  const hasRunout = recent.some((m) => m.actual_runout > 0);
+
+  return (
+    <div className="bg-white rounded-lg border border-slate-200 p-4 shadow-sm space-y-4">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <h3 className="text-sm font-semibold text-slate-900">Completed Cost (IBNR)</h3>
+          <p className="text-xs text-slate-500">
+            Chain-ladder completion by incurred month: claims paid after the valuation month are not yet reported
+            {claimType ? ` · ${claimType}` : ''}
+            {state ? ` · ${state}` : ''}
+          </p>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1">Valuation Month</label>
+          <input
+            type="month"
+            value={asOf || result?.as_of || ''}
+            onChange={(e) => setAsOf(e.target.value)}
+            className="border border-slate-300 rounded px-2 py-1.5 text-sm"
+          />
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {result?.totals && (
+        <>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 text-sm">
+            <div>
+              <p className="text-xs text-slate-500">Paid to Date</p>
+              <p className="font-bold text-slate-900">${result.totals.paid.toLocaleString()}</p>
+            </div>
+            <div>
+              <p className="text-xs text-slate-500">IBNR Reserve</p>
+              <p className="font-bold text-[#e91e8c]">${result.totals.ibnr.toLocaleString()}</p>
+              {result.totals.actual_runout > 0 && (
+                <p className="text-xs text-slate-500">${result.totals.actual_runout.toLocaleString()} actually paid later</p>
+              )}
+            </div>
+            <div>
+              <p className="text-xs text-slate-500">Paid PMPM</p>
+              <p className="font-bold text-slate-900">${result.totals.paid_pmpm?.toLocaleString() ?? '—'}</p>
+            </div>
+            <div>
+              <p className="text-xs text-slate-500">Completed PMPM</p>
+              <p className="font-bold text-[#14b8a6]">${result.totals.completed_pmpm?.toLocaleString() ?? '—'}</p>
+            </div>
+          </div>
+
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={recent.map((m) => ({ ...m, actual: m.paid + m.actual_runout }))}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                <XAxis dataKey="month" fontSize={11} />
+                <YAxis fontSize={11} tickFormatter={(v) => `$${(v / 1e6).toFixed(1)}M`} />
+                <Tooltip formatter={(v: number, name: string) => [`$${v.toLocaleString()}`, name]} />
+                <Legend wrapperStyle={{ fontSize: 11 }} />
+                <Bar dataKey="paid" name="Paid" stackId="cost" fill="#cbd5e1" />
+                <Bar dataKey="ibnr" name="IBNR" stackId="cost" fill="#e91e8c" />
+                {hasRunout && <Line type="monotone" dataKey="actual" name="Actual (incl. later payments)" stroke="#14b8a6" strokeWidth={2} />}
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-xs">
+              <thead className="bg-slate-50">
+                <tr>
+                  {['Incurred', 'Paid', 'IBNR', 'Completed', '% Complete', 'Member months', 'Paid PMPM', 'Completed PMPM'].map((h) => (
+                    <th key={h} className={`px-3 py-1.5 font-medium text-slate-600 ${h === 'Incurred' ? 'text-left' : 'text-right'}`}>{h}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {recent.map((m) => (
+                  <tr key={m.month} className="border-t border-slate-100">
+                    <td className="px-3 py-1.5">{m.month}</td>
+                    <td className="px-3 py-1.5 text-right">${m.paid.toLocaleString()}</td>
+                    <td className="px-3 py-1.5 text-right">${m.ibnr.toLocaleString()}</td>
+                    <td className="px-3 py-1.5 text-right">${m.completed.toLocaleString()}</td>
+                    <td className="px-3 py-1.5 text-right">{m.completion_pct != null ? `${(m.completion_pct * 100).toFixed(1)}%` : '—'}</td>
+                    <td className="px-3 py-1.5 text-right">{m.member_months.toLocaleString()}</td>
+                    <td className="px-3 py-1.5 text-right">{m.paid_pmpm != null ? `$${m.paid_pmpm.toLocaleString()}` : '—'}</td>
+                    <td className="px-3 py-1.5 text-right font-medium">{m.completed_pmpm != null ? `$${m.completed_pmpm.toLocaleString()}` : '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      {result && triangle && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2 text-xs">
+            <span className="font-medium text-slate-600">Lag triangle (cumulative paid by development month)</span>
+            {Object.keys(result.by_type).map((t) => (
+              <button
+                key={t}
+                onClick={() => setTriangleType(t)}
+                className={`px-2 py-0.5 rounded border ${triangleType === t ? 'border-[#e91e8c] bg-[#e91e8c]/5' : 'border-slate-200 hover:border-slate-300'}`}
+              >
+                {t}
+              </button>
+            ))}
+          </div>
+          <div className="overflow-x-auto max-h-[320px] overflow-y-auto">
+            <table className="min-w-full text-xs">
+              <thead className="bg-slate-50 sticky top-0">
+                <tr>
+                  <th className="px-2 py-1 text-left font-medium text-slate-600">Incurred</th>
+                  {triangle.completion_factors.map((_, k) => (
+                    <th key={k} className="px-2 py-1 text-right font-medium text-slate-600">{k}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {triangle.triangle.map((row) => (
+                  <tr key={row.incurred_month} className="border-t border-slate-100">
+                    <td className="px-2 py-1">{row.incurred_month}</td>
+                    {triangle.completion_factors.map((_, k) => (
+                      <td key={k} className="px-2 py-1 text-right text-slate-600">
+                        {k < row.cumulative_paid.length ? fmtK(row.cumulative_paid[k]) : ''}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+                <tr className="border-t border-slate-300 bg-slate-50">
+                  <td className="px-2 py-1 font-medium text-slate-600">Age-to-age</td>
+                  {triangle.completion_factors.map((_, k) => (
+                    <td key={k} className="px-2 py-1 text-right">{k < triangle.age_to_age.length ? triangle.age_to_age[k].toFixed(3) : '—'}</td>
+                  ))}
+                </tr>
+                <tr className="bg-slate-50">
+                  <td className="px-2 py-1 font-medium text-slate-600">Completion</td>
+                  {triangle.completion_factors.map((f, k) => (
+                    <td key={k} className="px-2 py-1 text-right font-medium">{(f * 100).toFixed(1)}%</td>
+                  ))}
+                </tr>
+              </tbody>
+            </table>
+          </div>
+          {result.claims_without_paid_date > 0 && (
+            <p className="text-xs text-slate-500">
+              {result.claims_without_paid_date.toLocaleString()} claims have no paid date and count as paid in their service month.
+            </p>
+          )}
+        </div>
+      )}
     </div>
   );
 }
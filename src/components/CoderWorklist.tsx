@@ -0,0 +1,398 @@
+import { useEffect, useState } from 'react';
+import { getWorklist, postWorklistSync, postWorklistAssign, postWorklistTransition } from '../api';
+import type { WorklistItem, WorklistStatus, WorklistSummary } from '../api';
+
+const HCC_LABELS: Record<string, string> = {
+  HCC_18: 'Diabetes',
+  HCC_85: 'CHF',
+  HCC_96: 'COPD',
+  HCC_108: 'CKD',
+  HCC_19: 'Hypertension',
+};
+const STATUS_LABELS: Record<WorklistStatus, string> = {
+  open: 'Open',
+  in_review: 'In review',
+  confirmed: 'Confirmed',
+  not_supported: 'Not supported',
+  deferred: 'Deferred',
+};
+const STATUS_STYLES: Record<WorklistStatus, string> = {
+  open: 'bg-slate-100 text-slate-700',
+  in_review: 'bg-amber-100 text-amber-800',
+  confirmed: 'bg-[#14b8a6]/10 text-[#0f766e]',
+  not_supported: 'bg-[#e91e8c]/10 text-[#e91e8c]',
+  deferred: 'bg-slate-200 text-slate-600',
+};
+// Mirrors server/worklist.js TRANSITIONS
+const NEXT_STATUSES: Record<WorklistStatus, WorklistStatus[]> = {
+  open: ['in_review', 'confirmed', 'not_supported', 'deferred'],
+  in_review: ['open', 'confirmed', 'not_supported', 'deferred'],
+  deferred: ['open', 'in_review'],
+  confirmed: ['in_review'],
+  not_supported: ['in_review'],
+};
+const QUEUES = [
+  { id: 'open,in_review', label: 'Open & in review' },
+  { id: 'open', label: 'Open' },
+  { id: 'in_review', label: 'In review' },
+  { id: 'deferred', label: 'Deferred' },
+  { id: 'confirmed,not_supported', label: 'Closed' },
+  { id: '', label: 'All' },
+];
+const SORTS = [
+  { id: 'priority', label: 'Priority (revenue × confidence)' },
+  { id: 'revenue', label: 'Revenue uplift' },
+  { id: 'confidence', label: 'Confidence' },
+  { id: 'updated', label: 'Recently updated' },
+];
+
+export default function CoderWorklist() {
+  const [items, setItems] = useState<WorklistItem[]>([]);
+  const [total, setTotal] = useState(0);
+  const [summary, setSummary] = useState<WorklistSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [reviewer, setReviewer] = useState('');
+  const [filters, setFilters] = useState({ status: 'open,in_review', assignee: '', hcc: '', sort: 'priority' });
+  const [page, setPage] = useState(1);
+  const [selected, setSelected] = useState<WorklistItem | null>(null);
+  const [syncing, setSyncing] = useState(false);
+
+  const load = () => {
+    setLoading(true);
+    getWorklist({ ...filters, assignee: filters.assignee === 'me' ? reviewer : filters.assignee, page, limit: 50 })
+      .then((res) => {
+        setItems(res.items);
+        setTotal(res.total);
+        setSummary(res.summary);
+      })
+      .catch(() => setItems([]))
+      .finally(() => setLoading(false));
+  };
+
+  useEffect(load, [page, filters.status, filters.assignee, filters.hcc, filters.sort]);
+
+  const onSync = async () => {
+    setSyncing(true);
+    try {
+      await postWorklistSync();
+      load();
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  // Keep the row and the detail panel in step after an assign or transition
+  const onUpdated = (item: WorklistItem) => {
+    setSelected(item);
+    setItems((prev) => prev.map((i) => (i.item_id === item.item_id ? item : i)));
+  };
+
+  const setFilter = (key: keyof typeof filters, value: string) => {
+    setFilters((f) => ({ ...f, [key]: value }));
+    setPage(1);
+  };
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-xl font-semibold text-slate-900">Coder Worklist</h2>
+      <p className="text-sm text-slate-600">
+        Suspect HCCs queued for chart review, highest expected revenue first. Decisions, assignees and notes are saved, so
+        items stay on the list after the condition is coded and confirmed / not-supported rates can be tracked.
+      </p>
+
+      {summary && (
+        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-4">
+          {(Object.keys(STATUS_LABELS) as WorklistStatus[]).map((s) => (
+            <div key={s} className="bg-white rounded-lg border border-slate-200 p-4 shadow-sm">
+              <div className="text-xs text-slate-500">{STATUS_LABELS[s]}</div>
+              <div className="text-lg font-semibold text-slate-900">{summary.by_status[s].items.toLocaleString()}</div>
+              <div className="text-xs text-slate-500">${(summary.by_status[s].revenue / 1e6).toFixed(2)}M</div>
+            </div>
+          ))}
+          <div className="bg-white rounded-lg border border-slate-200 p-4 shadow-sm">
+            <div className="text-xs text-slate-500">Confirmation rate</div>
+            <div className="text-lg font-semibold text-[#e91e8c]">
+              {summary.confirmation_rate != null ? `${(summary.confirmation_rate * 100).toFixed(1)}%` : '—'}
+            </div>
+            <div className="text-xs text-slate-500">
+              of closed reviews{summary.inactive > 0 && ` · ${summary.inactive.toLocaleString()} no longer suspected`}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="bg-white rounded-lg border border-slate-200 p-4 shadow-sm">
+        <div className="flex flex-wrap gap-3 items-end">
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Reviewer</label>
+            <input
+              value={reviewer}
+              onChange={(e) => setReviewer(e.target.value)}
+              placeholder="Your name"
+              className="border border-slate-300 rounded px-2 py-1.5 text-sm w-36"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Queue</label>
+            <select
+              value={filters.status}
+              onChange={(e) => setFilter('status', e.target.value)}
+              className="border border-slate-300 rounded px-2 py-1.5 text-sm"
+            >
+              {QUEUES.map((q) => (
+                <option key={q.id} value={q.id}>{q.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Assignee</label>
+            <select
+              value={filters.assignee}
+              onChange={(e) => setFilter('assignee', e.target.value)}
+              className="border border-slate-300 rounded px-2 py-1.5 text-sm"
+            >
+              <option value="">Anyone</option>
+              <option value="unassigned">Unassigned</option>
+              {reviewer.trim() && <option value="me">Me ({reviewer.trim()})</option>}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">HCC</label>
+            <select
+              value={filters.hcc}
+              onChange={(e) => setFilter('hcc', e.target.value)}
+              className="border border-slate-300 rounded px-2 py-1.5 text-sm"
+            >
+              <option value="">All</option>
+              {Object.entries(HCC_LABELS).map(([code, label]) => (
+                <option key={code} value={code}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Sort by</label>
+            <select
+              value={filters.sort}
+              onChange={(e) => setFilter('sort', e.target.value)}
+              className="border border-slate-300 rounded px-2 py-1.5 text-sm"
+            >
+              {SORTS.map((s) => (
+                <option key={s.id} value={s.id}>{s.label}</option>
+              ))}
+            </select>
+          </div>
+          <button
+            onClick={onSync}
+            disabled={syncing}
+            className="px-4 py-1.5 rounded border border-[#14b8a6] text-[#14b8a6] text-sm font-medium hover:bg-[#14b8a6]/10 disabled:opacity-50"
+          >
+            {syncing ? 'Syncing…' : 'Sync suspects'}
+          </button>
+          {summary?.synced_at && (
+            <span className="text-xs text-slate-500">Last sync {new Date(summary.synced_at).toLocaleString()}</span>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Worklist table */}
+        <div className="bg-white rounded-lg border border-slate-200 overflow-hidden shadow-sm">
+          <div className="px-4 py-2 border-b border-slate-200 bg-slate-50 text-sm text-slate-600">
+            {total.toLocaleString()} items
+          </div>
+          <div className="overflow-x-auto max-h-[560px] overflow-y-auto">
+            <table className="min-w-full text-sm">
+              <thead className="bg-slate-50 sticky top-0">
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium text-slate-600">Member</th>
+                  <th className="px-4 py-2 text-left font-medium text-slate-600">Suspect</th>
+                  <th className="px-4 py-2 text-right font-medium text-slate-600">Conf.</th>
+                  <th className="px-4 py-2 text-right font-medium text-slate-600">Uplift</th>
+                  <th className="px-4 py-2 text-left font-medium text-slate-600">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {loading ? (
+                  <tr><td colSpan={5} className="px-4 py-8 text-center text-slate-500">Loading...</td></tr>
+                ) : (
+                  items.map((i) => (
+                    <tr
+                      key={i.item_id}
+                      onClick={() => setSelected(i)}
+                      className={`border-t border-slate-100 cursor-pointer hover:bg-slate-50 ${
+                        selected?.item_id === i.item_id ? 'bg-[#e91e8c]/5' : ''
+                      } ${i.active ? '' : 'text-slate-400'}`}
+                    >
+                      <td className="px-4 py-2">
+                        <div className="font-mono">{i.member_id}</div>
+                        <div className="text-xs text-slate-500">{i.plan_type} · {i.state}</div>
+                      </td>
+                      <td className="px-4 py-2">
+                        {i.condition}
+                        {i.source === 'recapture' && <span className="ml-1 text-xs text-[#14b8a6]">Recapture</span>}
+                      </td>
+                      <td className="px-4 py-2 text-right">{(i.confidence * 100).toFixed(0)}%</td>
+                      <td className="px-4 py-2 text-right text-[#e91e8c] font-medium">${i.revenue_uplift_estimate.toLocaleString()}</td>
+                      <td className="px-4 py-2">
+                        <span className={`px-2 py-0.5 rounded text-xs ${STATUS_STYLES[i.status]}`}>{STATUS_LABELS[i.status]}</span>
+                        {i.assignee && <div className="text-xs text-slate-500 mt-0.5">{i.assignee}</div>}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+          <div className="px-4 py-2 border-t border-slate-200 flex justify-between items-center text-sm">
+            <button disabled={page <= 1} onClick={() => setPage((p) => p - 1)} className="px-3 py-1 rounded border border-slate-300 disabled:opacity-50">
+              Previous
+            </button>
+            <span className="text-slate-500">Page {page}</span>
+            <button disabled={page * 50 >= total} onClick={() => setPage((p) => p + 1)} className="px-3 py-1 rounded border border-slate-300 disabled:opacity-50">
+              Next
+            </button>
+          </div>
+        </div>
+
+        {/* Item detail */}
+        <div className="bg-white rounded-lg border border-slate-200 p-4 shadow-sm">
+          <h3 className="text-sm font-semibold text-slate-700 mb-4">Review</h3>
+          {selected ? (
+            <WorklistItemDetail key={selected.item_id} item={selected} reviewer={reviewer.trim()} onUpdated={onUpdated} />
+          ) : (
+            <p className="text-slate-500 text-sm">Select an item to review its evidence and record a decision</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function WorklistItemDetail({
+  item,
+  reviewer,
+  onUpdated,
+}: {
+  item: WorklistItem;
+  reviewer: string;
+  onUpdated: (item: WorklistItem) => void;
+}) {
+  const [note, setNote] = useState('');
+  const [assignee, setAssignee] = useState(item.assignee ?? '');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const actor = reviewer || undefined;
+
+  const run = async (action: () => Promise<WorklistItem>) => {
+    setError(null);
+    setSaving(true);
+    try {
+      onUpdated(await action());
+      setNote('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Update failed');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div>
+        <div className="font-medium text-slate-900">
+          {item.condition} <span className="text-xs text-slate-500">{item.hcc}</span>
+        </div>
+        <div className="text-xs text-slate-500">
+          {item.member_id} · {item.plan_type} · {item.state} · compliance {item.compliance_status ?? '—'}
+          {!item.active && ' · no longer suspected'}
+        </div>
+      </div>
+      <div className="grid grid-cols-3 gap-3">
+        <div><span className="text-slate-500">Confidence</span> {(item.confidence * 100).toFixed(0)}%</div>
+        <div><span className="text-slate-500">RAF</span> +{item.raf_uplift.toFixed(3)}</div>
+        <div><span className="text-slate-500">Uplift</span> ${item.revenue_uplift_estimate.toLocaleString()}</div>
+      </div>
+      <ul className="text-xs text-slate-600 list-disc list-inside space-y-0.5">
+        {item.evidence.map((e, i) => (
+          <li key={i}>{e}</li>
+        ))}
+      </ul>
+
+      <div className="border-t border-slate-100 pt-3 space-y-2">
+        <div className="flex gap-2 items-center">
+          <input
+            value={assignee}
+            onChange={(e) => setAssignee(e.target.value)}
+            placeholder="Assignee"
+            className="border border-slate-300 rounded px-2 py-1 text-sm flex-1"
+          />
+          <button
+            disabled={saving}
+            onClick={() => run(() => postWorklistAssign(item.item_id, { assignee: assignee.trim() || null, actor, note: note || undefined }))}
+            className="px-3 py-1 rounded border border-slate-300 text-slate-700 hover:bg-slate-50 disabled:opacity-50"
+          >
+            Assign
+          </button>
+          {reviewer && reviewer !== item.assignee && (
+            <button
+              disabled={saving}
+              onClick={() => {
+                setAssignee(reviewer);
+                run(() => postWorklistAssign(item.item_id, { assignee: reviewer, actor, note: note || undefined }));
+              }}
+              className="px-3 py-1 rounded border border-slate-300 text-slate-700 hover:bg-slate-50 disabled:opacity-50"
+            >
+              Assign to me
+            </button>
+          )}
+        </div>
+        <textarea
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="Reviewer note (required for Not supported and Deferred)"
+          className="w-full h-16 border border-slate-300 rounded p-2 text-sm"
+        />
+        <div className="flex flex-wrap gap-2">
+          {NEXT_STATUSES[item.status].map((s) => (
+            <button
+              key={s}
+              disabled={saving}
+              onClick={() => run(() => postWorklistTransition(item.item_id, { status: s, actor, note: note || undefined }))}
+              className={`px-3 py-1 rounded text-sm font-medium disabled:opacity-50 ${
+                s === 'confirmed' ? 'bg-[#e91e8c] text-white hover:bg-[#c41a77]' : 'border border-slate-300 text-slate-700 hover:bg-slate-50'
+              }`}
+            >
+              {STATUS_LABELS[s]}
+            </button>
+          ))}
+        </div>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </div>
+
+      {item.notes.length > 0 && (
+        <div className="border-t border-slate-100 pt-3">
+          <div className="text-xs font-medium text-slate-500 mb-1">Notes</div>
+          <ul className="space-y-1 text-xs text-slate-700">
+            {item.notes.map((n, i) => (
+              <li key={i}>
+                <span className="text-slate-500">{new Date(n.at).toLocaleString()} · {n.author}:</span> {n.text}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      <div className="border-t border-slate-100 pt-3">
+        <div className="text-xs font-medium text-slate-500 mb-1">History</div>
+        <ul className="space-y-0.5 text-xs text-slate-500 max-h-32 overflow-y-auto">
+          {[...item.history].reverse().map((h, i) => (
+            <li key={i}>
+              {new Date(h.at).toLocaleString()} · {h.actor} · {h.action.replace(/_/g, ' ')}
+              {h.to !== undefined && ` → ${h.to ?? 'unassigned'}`}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
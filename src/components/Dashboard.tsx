@@ -10,8 +10,8 @@ import {
   LineChart,
   Line,
 } from 'recharts';
-import { getDashboard } from '../api';
-import type { DashboardData } from '../api';
+import { getDashboard, getModels, getRiskTransfer, postRadvSimulation, getPnL, getPnLMembers } from '../api';
+import type { DashboardData, RiskModel, RiskTransferData, RadvSimulation, PnLReport, PnLGrouping, PnLLine, PnLMember } from '../api';
 
 interface DashboardProps {
   overrideData?: DashboardData | null;
@@ -22,6 +22,15 @@ export default function Dashboard({ overrideData, onClearOverride }: DashboardPr
   const [data, setData] = useState<DashboardData | null>(null);
   const [loading, setLoading] = useState(!overrideData);
   const [error, setError] = useState<string | null>(null);
+  const [models, setModels] = useState<RiskModel[]>([]);
+  const [modelId, setModelId] = useState('');
+  const [riskTransfer, setRiskTransfer] = useState<RiskTransferData | null>(null);
+
+  useEffect(() => {
+    getModels()
+      .then((res) => setModels(res.models))
+      .catch(() => setModels([]));
+  }, []);
 
   useEffect(() => {
     if (overrideData) {
@@ -30,23 +39,45 @@ export default function Dashboard({ overrideData, onClearOverride }: DashboardPr
       return;
     }
     setLoading(true);
-    getDashboard()
+    getDashboard(modelId || undefined)
       .then(setData)
       .catch((e) => setError(e.message))
       .finally(() => setLoading(false));
-  }, [overrideData]);
+  }, [overrideData, modelId]);
+
+  useEffect(() => {
+    if (overrideData) return;
+    getRiskTransfer({ model: modelId || undefined })
+      .then(setRiskTransfer)
+      .catch(() => setRiskTransfer(null));
+  }, [overrideData, modelId]);
 
   const effectiveData = overrideData ?? data;
   if (loading && !overrideData) return <div className="text-slate-500">Loading dashboard...</div>;
   if (error) return <div className="text-red-600">Error: {error}</div>;
   if (!effectiveData) return null;
 
-  const { kpis, claimsOverTime, costByPlanType, riskDistribution, rafByPlanType, rafByState, riskRevenueByPlan, executive } = effectiveData;
+  const { kpis, claimsOverTime, costByPlanType, riskDistribution, rafByPlanType, rafByState, riskRevenueByPlan, mlrByPlan, executive } =
+    effectiveData;
 
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between flex-wrap gap-2">
         <h2 className="text-xl font-semibold text-slate-900">Dashboard</h2>
+        {!overrideData && models.length > 1 && (
+          <label className="flex items-center gap-2 text-sm text-slate-600">
+            Risk model
+            <select
+              value={modelId || effectiveData.model?.id || ''}
+              onChange={(e) => setModelId(e.target.value)}
+              className="border border-slate-300 rounded px-2 py-1.5 text-sm"
+            >
+              {models.map((m) => (
+                <option key={m.id} value={m.id}>{m.name} v{m.version}</option>
+              ))}
+            </select>
+          </label>
+        )}
         {overrideData && onClearOverride && (
           <div className="flex items-center gap-2 rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-900">
             <span>Showing uploaded data</span>
@@ -62,9 +93,10 @@ export default function Dashboard({ overrideData, onClearOverride }: DashboardPr
       </div>
 
       {/* Core KPIs */}
-      <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-4">
+      <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-4">
         <KpiCard label="Total Members" value={kpis.totalMembers.toLocaleString()} />
         <KpiCard label="Active Claims (90d)" value={kpis.activeClaims.toLocaleString()} />
+        <KpiCard label="Total Premium" value={kpis.totalPremium != null ? `$${(kpis.totalPremium / 1e6).toFixed(1)}M` : '—'} />
         <KpiCard label="Raw MLR" value={`${(kpis.mlr * 100).toFixed(1)}%`} />
         <KpiCard label="High-Risk Members (%)" value={`${kpis.highRiskPct}%`} />
         <KpiCard label="Avg Cost per Member" value={`$${kpis.avgCostPerMember.toLocaleString(undefined, { maximumFractionDigits: 0 })}`} />
@@ -82,7 +114,7 @@ export default function Dashboard({ overrideData, onClearOverride }: DashboardPr
           <KpiCard label="Avg RAF" value={kpis.avgRAF != null ? kpis.avgRAF.toFixed(3) : '—'} highlight />
           <KpiCard label="% RAF &gt; 1.2" value={kpis.highRAFPct != null ? `${kpis.highRAFPct}%` : '—'} />
           <KpiCard label="Risk Adj. Revenue" value={kpis.riskAdjRevenue != null ? `$${(kpis.riskAdjRevenue / 1e6).toFixed(1)}M` : '—'} highlight />
-          <KpiCard label="Revenue at Risk (Suspect)" value={kpis.suspectRAFUplift != null ? `$${(kpis.suspectRAFUplift / 1e6).toFixed(1)}M` : '—'} />
+          <KpiCard label="Revenue at Risk (Suspect)" value={kpis.suspectRevenueUplift != null ? `$${(kpis.suspectRevenueUplift / 1e6).toFixed(1)}M` : '—'} />
           <KpiCard label="Suspect HCC Count" value={kpis.suspectHCCCount != null ? kpis.suspectHCCCount.toLocaleString() : '—'} />
           <KpiCard label="Risk-Adj. MLR" value={kpis.riskAdjustedMLR != null ? `${(kpis.riskAdjustedMLR * 100).toFixed(1)}%` : '—'} highlight />
         </div>
@@ -91,9 +123,9 @@ export default function Dashboard({ overrideData, onClearOverride }: DashboardPr
             MLR improvement: {kpis.mlrImprovementBps > 0 ? '+' : ''}{kpis.mlrImprovementBps} bps (risk adj. vs raw)
           </p>
         )}
-        {kpis.agentSuspectHCCCount != null && (
+        {kpis.membersWithSuspects != null && (
           <p className="text-xs text-slate-500 mt-1">
-            Agent: {kpis.agentSuspectHCCCount} suspect HCCs across population · Potential RAF uplift: {kpis.agentPotentialRafUplift?.toFixed(1) ?? '—'} · Revenue at risk (est.): ${kpis.agentPotentialRevenueUplift != null ? (kpis.agentPotentialRevenueUplift / 1e6).toFixed(2) : '—'}M
+            Suspects: {kpis.membersWithSuspects.toLocaleString()} members with at least one suspect HCC · Potential RAF uplift: {kpis.suspectRafUplift?.toFixed(1) ?? '—'}
           </p>
         )}
       </div>
@@ -124,6 +156,13 @@ export default function Dashboard({ overrideData, onClearOverride }: DashboardPr
         </div>
       )}
 
+      {/* RADV audit exposure (next to the compliance KPIs) */}
+      {!overrideData && <RadvPanel model={modelId} />}
+      {!overrideData && <PnLPanel model={modelId} />}
+
+      {/* ACA Risk Transfer */}
+      {!overrideData && riskTransfer && <RiskTransferPanel data={riskTransfer} />}
+
       {/* Charts */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <div className="bg-white rounded-lg border border-slate-200 p-4 shadow-sm">
@@ -156,6 +195,36 @@ export default function Dashboard({ overrideData, onClearOverride }: DashboardPr
           </div>
         </div>
 
+        {mlrByPlan && mlrByPlan.length > 0 && (
+          <div className="bg-white rounded-lg border border-slate-200 p-4 shadow-sm">
+            <h3 className="text-sm font-medium text-slate-700 mb-1">Premium &amp; MLR by Plan</h3>
+            {effectiveData.premiumRatesVersion && (
+              <p className="text-xs text-slate-500 mb-3">Rating table {effectiveData.premiumRatesVersion}</p>
+            )}
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-slate-500">
+                  <th className="py-1 font-medium">Plan</th>
+                  <th className="py-1 font-medium text-right">Premium</th>
+                  <th className="py-1 font-medium text-right">Claims</th>
+                  <th className="py-1 font-medium text-right">Raw MLR</th>
+                  <th className="py-1 font-medium text-right">Adj. MLR</th>
+                </tr>
+              </thead>
+              <tbody>
+                {mlrByPlan.map((p) => (
+                  <tr key={p.plan_type} className="border-t border-slate-100">
+                    <td className="py-1">{p.plan_type}</td>
+                    <td className="py-1 text-right">${(p.premium / 1e6).toFixed(1)}M</td>
+                    <td className="py-1 text-right">${(p.claims / 1e6).toFixed(1)}M</td>
+                    <td className="py-1 text-right">{(p.mlr * 100).toFixed(1)}%</td>
+                    <td className="py-1 text-right">{(p.riskAdjustedMLR * 100).toFixed(1)}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
         {riskRevenueByPlan && riskRevenueByPlan.length > 0 && (
           <div className="bg-white rounded-lg border border-slate-200 p-4 shadow-sm">
             <h3 className="text-sm font-medium text-slate-700 mb-4">Risk Adj. Revenue by Plan</h3>
@@ -224,6 +293,341 @@ export default function Dashboard({ overrideData, onClearOverride }: DashboardPr
   );
 }
 
+function RiskTransferPanel({ data }: { data: RiskTransferData }) {
+  const net = data.plans.reduce((s, p) => s + p.transfer_total, 0);
+  const topStates = [...data.states]
+    .map((s) => ({ ...s, swing: s.payments - s.charges }))
+    .sort((a, b) => b.swing - a.swing)
+    .slice(0, 8);
+  const fmtK = (v: number) => `${v < 0 ? '−' : ''}$${(Math.abs(v) / 1000).toFixed(0)}K`;
+  return (
+    <div className="rounded-xl border border-indigo-200 bg-indigo-50/40 p-4">
+      <div className="flex items-center gap-2 mb-1">
+        <h3 className="text-sm font-semibold text-slate-700">ACA Risk Transfer (HHS, estimated)</h3>
+        <span className="text-xs text-slate-400" title="Transfers net to zero within each state market. Positive = payment received; negative = charge paid.">
+          ℹ️
+        </span>
+      </div>
+      <p className="text-xs text-slate-500 mb-3">
+        Plan liability risk score × induced demand vs. actuarial value × induced demand, applied to the statewide average premium (less {(data.admin_cost_removal * 100).toFixed(0)}% admin).
+      </p>
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <div className="h-48 bg-white rounded-lg border border-slate-200 p-2">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={data.plans}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+              <XAxis dataKey="plan_type" stroke="#64748b" />
+              <YAxis stroke="#64748b" tickFormatter={(v) => `$${(v / 1e6).toFixed(1)}M`} />
+              <Tooltip formatter={(v: number) => [`$${v.toLocaleString()}`, 'Transfer']} />
+              <Bar dataKey="transfer_total" fill="#6366f1" radius={[4, 4, 0, 0]} name="Transfer" />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+        <div className="bg-white rounded-lg border border-slate-200 overflow-hidden">
+          <table className="min-w-full text-xs">
+            <thead className="bg-slate-50">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium text-slate-600">Plan</th>
+                <th className="px-3 py-2 text-right font-medium text-slate-600">PLRS</th>
+                <th className="px-3 py-2 text-right font-medium text-slate-600">PMPM</th>
+                <th className="px-3 py-2 text-right font-medium text-slate-600">Transfer</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.plans.map((p) => (
+                <tr key={p.plan_type} className="border-t border-slate-100">
+                  <td className="px-3 py-1.5">{p.plan_type}</td>
+                  <td className="px-3 py-1.5 text-right">{p.plan_liability_risk_score.toFixed(3)}</td>
+                  <td className="px-3 py-1.5 text-right">${p.transfer_pmpm.toFixed(2)}</td>
+                  <td className={`px-3 py-1.5 text-right font-medium ${p.transfer_total >= 0 ? 'text-green-700' : 'text-red-700'}`}>{fmtK(p.transfer_total)}</td>
+                </tr>
+              ))}
+              <tr className="border-t border-slate-200 bg-slate-50">
+                <td className="px-3 py-1.5 font-medium" colSpan={3}>Net (all states)</td>
+                <td className="px-3 py-1.5 text-right font-medium">{fmtK(net)}</td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      </div>
+      {topStates.length > 0 && (
+        <div className="mt-3">
+          <h4 className="text-xs font-medium text-slate-600 mb-2">Largest state transfer swings (Bronze / Silver / Gold)</h4>
+          <div className="flex flex-wrap gap-2">
+            {topStates.map((s) => (
+              <span key={s.state} className="inline-flex items-center px-2 py-1 rounded bg-white border border-slate-200 text-xs">
+                {s.state}:{' '}
+                {s.plans.map((p) => (
+                  <strong key={p.plan_type} className={`ml-1 ${p.transfer_total >= 0 ? 'text-green-700' : 'text-red-700'}`}>{fmtK(p.transfer_total)}</strong>
+                ))}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function RadvPanel({ model }: { model: string }) {
+  const [seed, setSeed] = useState(1);
+  const [sampleSize, setSampleSize] = useState(67);
+  const [result, setResult] = useState<RadvSimulation | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+
+  const run = () => {
+    setError(null);
+    setRunning(true);
+    postRadvSimulation({ seed, sample_size: sampleSize }, model || undefined)
+      .then(setResult)
+      .catch((e) => setError(e.message))
+      .finally(() => setRunning(false));
+  };
+
+  useEffect(run, [model]);
+
+  const fmtM = (v: number) => `$${(v / 1e6).toFixed(2)}M`;
+  const pct = (v: number | null) => (v != null ? `${(v * 100).toFixed(1)}%` : '—');
+  return (
+    <div className="rounded-xl border border-amber-200 bg-amber-50/40 p-4">
+      <div className="flex items-center gap-2 mb-1">
+        <h3 className="text-sm font-semibold text-slate-700">RADV Audit Exposure (simulated)</h3>
+        <span
+          className="text-xs text-slate-400"
+          title="Stratified random sample of members with coded HCCs. An HCC is supported when an eligible face-to-face claim in the audit year carries a mapped diagnosis. Recovery is estimated at the lower confidence bound."
+        >
+          ℹ️
+        </span>
+      </div>
+      <div className="flex flex-wrap items-end gap-3 mb-3 text-sm">
+        <label className="text-xs text-slate-500">
+          Seed
+          <input
+            type="number"
+            value={seed}
+            onChange={(e) => setSeed(parseInt(e.target.value) || 0)}
+            className="block border border-slate-300 rounded px-2 py-1 w-20 text-sm"
+          />
+        </label>
+        <label className="text-xs text-slate-500">
+          Members per stratum
+          <input
+            type="number"
+            value={sampleSize}
+            onChange={(e) => setSampleSize(parseInt(e.target.value) || 0)}
+            className="block border border-slate-300 rounded px-2 py-1 w-24 text-sm"
+          />
+        </label>
+        <button
+          onClick={run}
+          disabled={running}
+          className="px-3 py-1.5 rounded bg-[#e91e8c] text-white text-sm font-medium hover:bg-[#c41a77] disabled:opacity-50"
+        >
+          {running ? 'Sampling…' : 'Draw sample'}
+        </button>
+        {error && <span className="text-sm text-red-600">{error}</span>}
+      </div>
+      {result && (
+        <>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 mb-3">
+            <KpiCard label="Est. Overpayment" value={fmtM(result.extrapolation.estimated_overpayment)} />
+            <KpiCard
+              label={`${(result.confidence_level * 100).toFixed(0)}% CI`}
+              value={`${fmtM(result.extrapolation.ci_lower)} – ${fmtM(result.extrapolation.ci_upper)}`}
+            />
+            <KpiCard label="Payment Error Rate" value={pct(result.extrapolation.payment_error_rate)} />
+            <KpiCard label="HCC Error Rate (sample)" value={pct(result.sample_hcc_error_rate)} />
+          </div>
+          <div className="bg-white rounded-lg border border-slate-200 overflow-hidden">
+            <table className="min-w-full text-xs">
+              <thead className="bg-slate-50">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium text-slate-600">RAF stratum</th>
+                  <th className="px-3 py-2 text-right font-medium text-slate-600">Members</th>
+                  <th className="px-3 py-2 text-right font-medium text-slate-600">Sampled</th>
+                  <th className="px-3 py-2 text-right font-medium text-slate-600">HCC error</th>
+                  <th className="px-3 py-2 text-right font-medium text-slate-600">Payment error</th>
+                  <th className="px-3 py-2 text-right font-medium text-slate-600">Extrapolated</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.by_stratum.map((s) => (
+                  <tr key={s.stratum} className="border-t border-slate-100">
+                    <td className="px-3 py-1.5">
+                      {s.stratum}: {s.raf_min.toFixed(2)}–{s.raf_max.toFixed(2)}
+                    </td>
+                    <td className="px-3 py-1.5 text-right">{s.population.toLocaleString()}</td>
+                    <td className="px-3 py-1.5 text-right">{s.sampled}</td>
+                    <td className="px-3 py-1.5 text-right">{pct(s.hcc_error_rate)}</td>
+                    <td className="px-3 py-1.5 text-right">{pct(s.payment_error_rate)}</td>
+                    <td className="px-3 py-1.5 text-right">{fmtM(s.extrapolated_overpayment)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-slate-500 mt-2">
+            {result.sampled_members} of {result.frame_members.toLocaleString()} members with coded HCCs sampled · audit year{' '}
+            {result.audit_year} · seed {result.seed}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
+
+const PNL_GROUP_LABELS: Record<PnLGrouping, string> = { plan: 'Plan', state: 'State', plan_state: 'Plan × State' };
+
+function pnlRowLabel(row: PnLLine) {
+  return [row.plan_type, row.state].filter(Boolean).join(' · ');
+}
+
+function PnLPanel({ model }: { model: string }) {
+  const [groupBy, setGroupBy] = useState<PnLGrouping>('plan');
+  const [adminPct, setAdminPct] = useState(12);
+  const [report, setReport] = useState<PnLReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<PnLLine | null>(null);
+  const [drill, setDrill] = useState<{ members: PnLMember[]; total: number } | null>(null);
+
+  useEffect(() => {
+    setError(null);
+    setSelected(null);
+    getPnL({ group_by: groupBy, admin_pct: adminPct / 100, model: model || undefined })
+      .then(setReport)
+      .catch((e) => setError(e.message));
+  }, [groupBy, adminPct, model]);
+
+  useEffect(() => {
+    setDrill(null);
+    if (!selected) return;
+    getPnLMembers({ state: selected.state, plan_type: selected.plan_type, admin_pct: adminPct / 100, model: model || undefined, limit: 25 })
+      .then((r) => setDrill({ members: r.members, total: r.total }))
+      .catch((e) => setError(e.message));
+  }, [selected, adminPct, model]);
+
+  const fmtM = (v: number) => `$${(v / 1e6).toFixed(2)}M`;
+  const pct = (v: number | null) => (v != null ? `${(v * 100).toFixed(1)}%` : '—');
+  const claimTypes = report ? Object.keys(report.totals.claims_by_type).sort() : [];
+  const cell = 'px-3 py-1.5 text-right';
+  const renderRow = (row: PnLLine, label: string, onClick?: () => void, active?: boolean) => (
+    <tr
+      key={label}
+      onClick={onClick}
+      className={`border-t border-slate-100 ${onClick ? 'cursor-pointer hover:bg-slate-50' : 'font-semibold bg-slate-50'} ${active ? 'bg-[#e91e8c]/5' : ''}`}
+    >
+      <td className="px-3 py-1.5">{label}</td>
+      <td className={cell}>{row.member_months.toLocaleString()}</td>
+      <td className={cell}>{fmtM(row.premium)}</td>
+      <td className={cell}>{fmtM(row.risk_revenue)}</td>
+      {claimTypes.map((t) => (
+        <td key={t} className={cell}>{fmtM(row.claims_by_type[t] ?? 0)}</td>
+      ))}
+      <td className={cell}>{fmtM(row.admin_cost)}</td>
+      <td className={`${cell} ${row.margin < 0 ? 'text-red-600' : 'text-[#0d9488]'}`}>
+        {fmtM(row.margin)} <span className="text-slate-400">({pct(row.margin_pct)})</span>
+      </td>
+      <td className={cell}>{pct(row.raw_mlr)}</td>
+      <td className={cell}>{pct(row.adjusted_mlr)}</td>
+      <td className={cell} title={`Suspect uplift ${fmtM(row.revenue_at_risk.suspect_uplift)} · deletion risk ${fmtM(row.revenue_at_risk.deletion)}`}>
+        {fmtM(row.revenue_at_risk.total)}
+      </td>
+    </tr>
+  );
+
+  return (
+    <div className="bg-white rounded-lg border border-slate-200 p-4 shadow-sm">
+      <div className="flex flex-wrap items-end gap-3 mb-3">
+        <div className="mr-auto">
+          <h3 className="text-sm font-semibold text-slate-700">Profit &amp; Loss</h3>
+          <p className="text-xs text-slate-500">Revenue = premium + risk revenue; margin after claims and admin. Click a row for its members.</p>
+        </div>
+        <label className="text-xs text-slate-500">
+          Group by
+          <select
+            value={groupBy}
+            onChange={(e) => setGroupBy(e.target.value as PnLGrouping)}
+            className="block border border-slate-300 rounded px-2 py-1 text-sm"
+          >
+            {(Object.keys(PNL_GROUP_LABELS) as PnLGrouping[]).map((g) => (
+              <option key={g} value={g}>{PNL_GROUP_LABELS[g]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-slate-500">
+          Admin (% of premium)
+          <input
+            type="number"
+            min={0}
+            max={50}
+            value={adminPct}
+            onChange={(e) => setAdminPct(Number(e.target.value) || 0)}
+            className="block border border-slate-300 rounded px-2 py-1 w-20 text-sm"
+          />
+        </label>
+      </div>
+      {error && <p className="text-sm text-red-600 mb-2">{error}</p>}
+      {report && (
+        <div className="overflow-x-auto max-h-96">
+          <table className="min-w-full text-xs">
+            <thead className="bg-slate-50 sticky top-0">
+              <tr>
+                {[PNL_GROUP_LABELS[report.group_by], 'Member months', 'Premium', 'Risk revenue', ...claimTypes.map((t) => `${t} claims`), 'Admin', 'Margin', 'Raw MLR', 'Adj. MLR', 'Revenue at risk'].map((h, i) => (
+                  <th key={h} className={`px-3 py-2 font-medium text-slate-600 ${i === 0 ? 'text-left' : 'text-right'}`}>{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {report.groups.map((g) => {
+                const label = pnlRowLabel(g);
+                return renderRow(g, label, () => setSelected(selected && pnlRowLabel(selected) === label ? null : g), selected != null && pnlRowLabel(selected) === label);
+              })}
+              {renderRow(report.totals, 'Total')}
+            </tbody>
+          </table>
+        </div>
+      )}
+      {selected && (
+        <div className="mt-3 border-t border-slate-200 pt-3">
+          <p className="text-xs font-medium text-slate-600 mb-2">
+            {pnlRowLabel(selected)} — lowest-margin members{drill ? ` (${drill.members.length} of ${drill.total.toLocaleString()})` : ''}
+          </p>
+          {drill ? (
+            <table className="min-w-full text-xs">
+              <thead className="bg-slate-50">
+                <tr>
+                  {['Member', 'Plan', 'State', 'Months', 'Premium', 'Risk revenue', 'Claims', 'Margin', 'Adj. MLR', 'Revenue at risk'].map((h, i) => (
+                    <th key={h} className={`px-3 py-2 font-medium text-slate-600 ${i < 3 ? 'text-left' : 'text-right'}`}>{h}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {drill.members.map((m) => (
+                  <tr key={m.member_id} className="border-t border-slate-100">
+                    <td className="px-3 py-1.5 font-mono">{m.member_id}</td>
+                    <td className="px-3 py-1.5">{m.plan_type}</td>
+                    <td className="px-3 py-1.5">{m.state}</td>
+                    <td className={cell}>{m.member_months}</td>
+                    <td className={cell}>${m.premium.toLocaleString()}</td>
+                    <td className={cell}>${m.risk_revenue.toLocaleString()}</td>
+                    <td className={cell}>${m.claims.toLocaleString()}</td>
+                    <td className={`${cell} ${m.margin < 0 ? 'text-red-600' : ''}`}>${m.margin.toLocaleString()}</td>
+                    <td className={cell}>{pct(m.adjusted_mlr)}</td>
+                    <td className={cell}>${m.revenue_at_risk.toLocaleString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <p className="text-xs text-slate-500">Loading…</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
 function KpiCard({ label, value, highlight }: { label: string; value: string; highlight?: boolean }) {
   return (
     <div className={`rounded-lg border p-4 shadow-sm ${highlight ? 'border-[#14b8a6]/50 bg-[#14b8a6]/5' : 'border-slate-200 bg-white'}`}>
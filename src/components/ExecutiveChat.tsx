@@ -208,6 +208,19 @@ function ChatResponseBlock({
             <span className="text-xs text-slate-400">·</span>
             <span className="text-xs text-slate-500">{response.complianceNote}</span>
           </div>
+          {response.compliance && response.compliance.triggered_rules.length > 0 && (
+            <div className="flex flex-wrap gap-1.5">
+              {response.compliance.triggered_rules.map((r) => (
+                <span
+                  key={r.id}
+                  title={`${r.pack} · ${r.severity}\n${r.findings.join('\n')}`}
+                  className={`px-1.5 py-0.5 rounded text-xs ${r.action === 'block' ? 'bg-amber-100 text-amber-800' : 'bg-slate-100 text-slate-600'}`}
+                >
+                  {r.action === 'block' ? 'withheld' : 'rewritten'} · {r.id}
+                </span>
+              ))}
+            </div>
+          )}
           <div className="pt-2">
             <p className="text-xs font-medium text-slate-500 mb-1">Follow-up</p>
             <div className="flex flex-wrap gap-2">
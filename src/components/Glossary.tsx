@@ -22,11 +22,20 @@ export default function Glossary() {
             <li><strong>member_id</strong> — Unique identifier</li>
             <li><strong>age</strong>, <strong>gender</strong> — Used for demographic RAF</li>
             <li><strong>state</strong> — Geographic filter (e.g. TX, CA)</li>
+            <li><strong>rating_area</strong> — Premium rating area within the state (1–3)</li>
             <li><strong>plan_type</strong> — Bronze, Silver, or Gold</li>
             <li><strong>risk_score</strong> — 0–1; used for utilization/risk segmentation</li>
             <li><strong>chronic_condition_flag</strong> — Boolean; used in suspect HCC rules</li>
-            <li><strong>hcc_codes</strong> — Array of coded HCCs (e.g. HCC_18, HCC_85)</li>
-            <li><strong>member_months</strong> — Enrollment months (default 12) for risk revenue</li>
+            <li><strong>hcc_codes</strong> — Array of coded HCCs (e.g. HCC_18, HCC_85); used only when claims carry no diagnosis codes</li>
+            <li><strong>member_months</strong> — Enrolled months in the payment year; derived from eligibility spans when present (default 12 otherwise)</li>
+          </ul>
+        </div>
+
+        <div>
+          <h4 className="text-sm font-medium text-slate-700 mt-4 mb-2">eligibility.json</h4>
+          <ul className="text-sm text-slate-600 space-y-1 list-disc list-inside">
+            <li><strong>member_id</strong>, <strong>plan_type</strong>, <strong>state</strong> — Coverage for the span</li>
+            <li><strong>start_month</strong>, <strong>end_month</strong> — YYYY-MM, inclusive. Members can have several spans (mid-year enrollment, termination, plan switch)</li>
           </ul>
         </div>
 
@@ -37,6 +46,10 @@ export default function Glossary() {
             <li><strong>service_date</strong> — Date of service (for trends and recency)</li>
             <li><strong>claim_type</strong> — IP (inpatient), OP (outpatient), or RX (pharmacy)</li>
             <li><strong>allowed_amount</strong> — Cost used in MLR and PMPM</li>
+            <li><strong>diagnosis_codes</strong> — ICD-10 codes on IP/OP claims; mapped to HCCs through the dx→HCC crosswalk to build the member&apos;s coded HCC set</li>
+            <li><strong>procedure_codes</strong> — CPT-style procedure and lab codes on IP/OP claims; monitoring patterns (renal panels, dialysis, echocardiograms, spirometry) are cited as suspect evidence</li>
+            <li><strong>provider_id</strong> — Rendering provider on IP/OP claims (see providers.json: name, specialty, is_pcp, state)</li>
+            <li><strong>ndc</strong>, <strong>drug_class</strong> — Drug identifier and therapeutic class on RX claims; condition-related classes (e.g. insulin, loop diuretics) are cited as suspect evidence</li>
           </ul>
         </div>
       </section>
@@ -48,31 +61,70 @@ export default function Glossary() {
         <div className="space-y-3 text-sm">
           <GlossTerm term="RAF (Risk Adjustment Factor)" id="raf">
             Demographic factor + sum of HCC weights for coded conditions, normalized to [0.3, 3.0].
-            Formula: <code className="bg-slate-100 px-1 rounded">RAF = demographic_RAF + Σ(HCC_weights)</code>.
+            Formula: <code className="bg-slate-100 px-1 rounded">RAF = demographic_RAF + Σ(HCC_weights) + Σ(interactions) + count_term</code>.
             Higher RAF → more risk adjustment revenue and different MLR interpretation.
           </GlossTerm>
 
+          <GlossTerm term="HCC hierarchies & interactions" id="hierarchies">
+            A higher-severity HCC drops lower HCCs in the same family (e.g. CHF drops Hypertension) so related conditions are not double-counted.
+            Interaction terms (Diabetes × CHF, CHF × COPD, CHF × CKD) and an HCC count term add uplift for multi-morbid members. Defined per model year in <code className="bg-slate-100 px-1 rounded">server/config/models/</code>.
+          </GlossTerm>
+
           <GlossTerm term="Demographic RAF" id="demo-raf">
             Lookup by age band (18–34, 35–44, 45–54, 55–64, 65+) and gender. Illustrative values only; real CMS uses finer tables.
           </GlossTerm>
 
           <GlossTerm term="HCC weights" id="hcc-weights">
             Fixed weights per condition (demo only): Diabetes 0.32, CHF 0.45, COPD 0.29, CKD 0.38, Hypertension 0.14.
-            Used in RAF and in “suspect” uplift estimates.
+            Used in RAF and in “suspect” uplift estimates, which are marginal: the RAF with the suspect added minus the current RAF, after hierarchies and interactions.
           </GlossTerm>
 
           <GlossTerm term="Suspect HCCs" id="suspect-hcc">
             Conditions <em>suspected but not coded</em>, inferred from claims patterns (e.g. high RX spend without Diabetes HCC).
             Rules require at least 2 signals where applicable. Used to estimate RAF leakage and revenue at risk; not diagnostic.
+            RX fills in a drug class mapped to the condition, and monitoring procedures such as repeated renal panels, echocardiograms or spirometry, count as signals and raise confidence.
+            Signals, thresholds and confidence formulas are configured per HCC in <code className="bg-slate-100 px-1 rounded">server/config/suspect-rules.json</code>; draft rules can be dry-run before they are adopted.
+            A back-test runs the rules on claims before a cutoff and checks which suspects were coded afterwards; its calibration curve compares stated confidence with the observed rate, and fitted confidences can replace the hand-set ones.
+            Dashboard, explorer, simulation, chat and provider figures all use this one suspect pipeline; a reconciliation report lists where the retired single-signal rules disagreed.
+          </GlossTerm>
+
+          <GlossTerm term="HCC recapture" id="recapture">
+            Chronic HCCs must be documented every payment year. An HCC seen on a prior-year claim but on no current-year claim is an <em>open gap</em>;
+            recapture rate = recaptured ÷ prior-year HCCs (members enrolled in the current year). Open gaps also appear as Risk Agent suspects labeled &quot;Recapture&quot;.
+          </GlossTerm>
+
+          <GlossTerm term="Unsupported HCC (deletion risk)" id="unsupported-hcc">
+            A coded HCC with no eligible face-to-face claim in the payment year carrying a mapped diagnosis. An audit would likely delete it; RAF at risk is what the member&apos;s RAF
+            loses without it. Related RX fills or monitoring procedures raise its support score but do not make it supported. Members with unsupported codes need compliance review.
+          </GlossTerm>
+
+          <GlossTerm term="Provider attribution" id="attribution">
+            Each member is attributed to the provider with the most outpatient primary care visits (falling back to other outpatient providers; ties go to the most recent visit).
+            Provider scorecards sum suspect HCCs, revenue at risk and recapture over the attributed panel.
+          </GlossTerm>
+
+          <GlossTerm term="Worklist status" id="worklist-status">
+            Each suspect HCC sent for chart review moves from <em>open</em> to <em>in review</em> and is closed as <em>confirmed</em> (documentation supports coding) or <em>not supported</em>, or <em>deferred</em>.
+            Confirmation rate = confirmed ÷ (confirmed + not supported). Items stay on the worklist after the condition is coded.
+          </GlossTerm>
+
+          <GlossTerm term="RADV audit" id="radv">
+            Risk Adjustment Data Validation: CMS samples members and asks the plan to support each coded HCC with medical records. The simulator samples members with coded HCCs by RAF stratum,
+            treats an HCC as unsupported when no eligible audit-year claim carries a mapped diagnosis, and extrapolates the sample overpayment to the population. Recovery is estimated at the lower confidence bound.
           </GlossTerm>
 
           <GlossTerm term="Risk adjustment revenue" id="risk-rev">
-            <code className="bg-slate-100 px-1 rounded">RAF × $900 PMPM × member_months</code>. Base rate $900 PMPM is configurable in <code className="bg-slate-100 px-1 rounded">risk-adjustment.js</code>.
+            <code className="bg-slate-100 px-1 rounded">RAF × $900 PMPM × member_months</code>, where member_months counts enrolled months in the payment year only. Base rate $900 PMPM is configurable in <code className="bg-slate-100 px-1 rounded">risk-adjustment.js</code>.
           </GlossTerm>
 
           <GlossTerm term="Raw MLR" id="raw-mlr">
             Medical Loss Ratio: <code className="bg-slate-100 px-1 rounded">total_allowed_claims / total_premium</code>.
-            Premium is members × $15,000 (simplified annual).
+            Premium is each member&apos;s rated premium summed over enrolled months (see Premium rating), so partial-year members carry partial premium.
+          </GlossTerm>
+
+          <GlossTerm term="Premium rating" id="premium-rating">
+            <code className="bg-slate-100 px-1 rounded">monthly premium = base_PMPM[plan] × state factor × rating-area factor × age-band factor</code>.
+            Illustrative table in <code className="bg-slate-100 px-1 rounded">server/config/premium-rates.json</code>; replace it with <code className="bg-slate-100 px-1 rounded">POST /api/premium-rates</code> or per upload.
           </GlossTerm>
 
           <GlossTerm term="Risk-adjusted MLR" id="adj-mlr">
@@ -85,8 +137,28 @@ export default function Glossary() {
             Negative means adjusted MLR is lower (better) when risk revenue is included.
           </GlossTerm>
 
+          <GlossTerm term="Recapture decay / NPV of closing gaps" id="projection">
+            Conditions must be documented every year, so revenue from a closed gap fades unless it is recaptured:
+            <code className="bg-slate-100 px-1 rounded">gap_revenue[t] = uplift × close % × recapture_rate^(t−1)</code>.
+            NPV sums each year&apos;s gap revenue discounted at year end, <code className="bg-slate-100 px-1 rounded">/ (1 + discount_rate)^t</code>. See the Multi-Year Projection on What-If.
+          </GlossTerm>
+
+          <GlossTerm term="Admits / 1000, ALOS" id="utilization">
+            Utilization rates annualized per 1,000 members:{' '}
+            <code className="bg-slate-100 px-1 rounded">count / member months × 12,000</code>. Admits are inpatient stays, bed days
+            the nights between admission and discharge (at least 1); ALOS (average length of stay) = bed days / admits. Scripts PMPY =
+            prescriptions per member per year. Cost per unit divides allowed dollars by the admits, bed days, visits or scripts.
+          </GlossTerm>
+
+          <GlossTerm term="IBNR / completion factor" id="ibnr">
+            Incurred But Not Reported: cost of services already delivered whose claims have not been paid by the valuation month.
+            A lag triangle sums paid dollars by incurred month and months of development; chain-ladder age-to-age factors give the
+            completion factor, the share of the final cost paid after k months. Completed cost ={' '}
+            <code className="bg-slate-100 px-1 rounded">paid / completion factor</code>, IBNR = completed − paid. See Completed Cost on the Claims Analyzer.
+          </GlossTerm>
+
           <GlossTerm term="PMPM" id="pmpm">
-            Per Member Per Month: total allowed amount / (member count × months). Used in claims analytics.
+            Per Member Per Month: total allowed amount / enrolled member months in the selected window. Used in claims analytics.
           </GlossTerm>
         </div>
       </section>
@@ -103,7 +175,7 @@ export default function Glossary() {
             <ul className="list-disc list-inside text-slate-600 space-y-1">
               <li>Use for: executive summary, trend checks, plan/state mix</li>
               <li>Core KPIs: total members, active claims (90d), raw MLR, high-risk %, avg cost per member</li>
-              <li>Risk KPIs: avg RAF, % high RAF, risk adj. revenue, suspect RAF uplift, risk-adjusted MLR, agent-derived totals</li>
+              <li>Risk KPIs: avg RAF, % high RAF, risk adj. revenue, revenue at risk from suspects, suspect HCC count, risk-adjusted MLR, members with suspects</li>
               <li>Charts: claims over time, cost by plan type, risk distribution, RAF by plan/state, executive risk leakage by state</li>
             </ul>
           </ViewCard>
@@ -114,7 +186,7 @@ export default function Glossary() {
             </p>
             <ul className="list-disc list-inside text-slate-600 space-y-1">
               <li>Use for: finding high-risk or high-RAF members, auditing suspect HCCs at member level</li>
-              <li>Filters: state, plan type, risk score range, chronic condition flag</li>
+              <li>Filters: state, plan type, risk score range, chronic condition flag, enrolled month range</li>
               <li>Member profile: demographics, recent claims, RAF (demographic + HCC), HCC list with weights, suspected HCCs with reasons, risk adj. revenue, agent/orchestrator output</li>
             </ul>
           </ViewCard>
@@ -125,7 +197,7 @@ export default function Glossary() {
             </p>
             <ul className="list-disc list-inside text-slate-600 space-y-1">
               <li>Use for: cost trends, IP/OP/RX mix, high-cost claim review</li>
-              <li>Filters: date range, claim type (IP/OP/RX), cost minimum, state</li>
+              <li>Filters: date range, claim type (IP/OP/RX), cost minimum, state, enrolled month range</li>
               <li>Metrics: total allowed, PMPM, outlier count (P95), P95 threshold</li>
             </ul>
           </ViewCard>
@@ -137,11 +209,22 @@ export default function Glossary() {
             <ul className="list-disc list-inside text-slate-600 space-y-1">
               <li>Use for: where risk revenue is concentrated, which HCCs are most common, RAF bands</li>
               <li>Filters: state, plan type, RAF range, HCC code</li>
-              <li>Charts: RAF distribution histogram, HCC prevalence, revenue concentration (e.g. top 10% share)</li>
+              <li>Charts: RAF distribution histogram, HCC prevalence, revenue concentration (e.g. top 10% share), HCC recapture by condition and plan</li>
               <li>Table: members with RAF, suspect count, risk adj. revenue</li>
             </ul>
           </ViewCard>
 
+          <ViewCard title="Coder Worklist" viewId="worklist">
+            <p className="text-slate-600 mb-2">
+              Queue of suspect HCCs for chart review, with saved decisions, assignees and notes.
+            </p>
+            <ul className="list-disc list-inside text-slate-600 space-y-1">
+              <li>Use for: working the highest expected-revenue suspects first, tracking confirmed vs. not supported outcomes</li>
+              <li>Filters: queue (status), assignee, HCC; sort by priority (revenue × confidence), revenue, confidence or last update</li>
+              <li>Review panel: evidence, assign, move to in review / confirmed / not supported / deferred with a note, history</li>
+            </ul>
+          </ViewCard>
+
           <ViewCard title="What-If Simulation" viewId="simulation">
             <p className="text-slate-600 mb-2">
               Model impact of plan mix, risk threshold, and closing suspect HCC gaps.
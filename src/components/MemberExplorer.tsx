@@ -1,6 +1,6 @@
 import { useEffect, useState } from 'react';
-import { getMembers, getMember } from '../api';
-import type { Member, OrchestratedOutput } from '../api';
+import { getMembers, getMember, getAuditLog } from '../api';
+import type { Member, OrchestratedOutput, AuditLogEntry } from '../api';
 
 type ProfileTab = 'overview' | 'risk' | 'finance' | 'compliance';
 
@@ -21,6 +21,8 @@ export default function MemberExplorer() {
     risk_min: '',
     risk_max: '',
     chronic: '',
+    enrolled_from: '',
+    enrolled_to: '',
   });
 
   const loadMembers = () => {
@@ -40,7 +42,16 @@ export default function MemberExplorer() {
       .finally(() => setLoading(false));
   };
 
-  useEffect(loadMembers, [page, filters.state, filters.plan_type, filters.risk_min, filters.risk_max, filters.chronic]);
+  useEffect(loadMembers, [
+    page,
+    filters.state,
+    filters.plan_type,
+    filters.risk_min,
+    filters.risk_max,
+    filters.chronic,
+    filters.enrolled_from,
+    filters.enrolled_to,
+  ]);
 
   const onSelectMember = (m: Member) => {
     setSelected(m);
@@ -124,6 +135,24 @@ export default function MemberExplorer() {
               <option value="true">Yes</option>
             </select>
           </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Enrolled From</label>
+            <input
+              type="month"
+              value={filters.enrolled_from}
+              onChange={(e) => setFilters((f) => ({ ...f, enrolled_from: e.target.value }))}
+              className="border border-slate-300 rounded px-2 py-1.5 text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Enrolled To</label>
+            <input
+              type="month"
+              value={filters.enrolled_to}
+              onChange={(e) => setFilters((f) => ({ ...f, enrolled_to: e.target.value }))}
+              className="border border-slate-300 rounded px-2 py-1.5 text-sm"
+            />
+          </div>
           <button
             onClick={applyFilters}
             className="px-4 py-1.5 rounded bg-[#e91e8c] text-white text-sm font-medium hover:bg-[#c41a77]"
@@ -223,8 +252,30 @@ export default function MemberExplorer() {
                 <div><span className="text-slate-500">Risk Score</span> {(profile.risk_score * 100).toFixed(0)}%</div>
                 <div><span className="text-slate-500">Chronic</span> {profile.chronic_condition_flag ? 'Yes' : 'No'}</div>
                 <div><span className="text-slate-500">Total Claim Cost</span> ${profile.total_claim_cost?.toLocaleString()}</div>
+                <div><span className="text-slate-500">Member Months</span> {profile.member_months ?? '—'}</div>
+                <div className="col-span-2">
+                  <span className="text-slate-500">Attributed Provider</span>{' '}
+                  {profile.attributed_provider
+                    ? `${profile.attributed_provider.name ?? profile.attributed_provider.provider_id} (${profile.attributed_provider.visits} visit${profile.attributed_provider.visits === 1 ? '' : 's'})`
+                    : 'Unattributed'}
+                </div>
               </div>
 
+              {/* Eligibility spans */}
+              {profile.eligibility && profile.eligibility.length > 0 && (
+                <div className="border-t border-slate-100 pt-3">
+                  <h4 className="text-xs font-medium text-slate-500 mb-2">Eligibility</h4>
+                  <ul className="text-sm space-y-1">
+                    {profile.eligibility.map((s) => (
+                      <li key={s.start_month} className="flex justify-between">
+                        <span>{s.start_month} → {s.end_month}</span>
+                        <span className="text-slate-500">{s.plan_type} · {s.state}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
               {/* RAF Breakdown */}
               {profile.raf != null && (
                 <div className="border-t border-slate-100 pt-3">
@@ -232,17 +283,60 @@ export default function MemberExplorer() {
                   <div className="text-sm space-y-1">
                     <div><span className="text-slate-500">Demographic RAF</span> {profile.rafBreakdown?.demographic?.toFixed(3) ?? '—'}</div>
                     <div><span className="text-slate-500">HCC RAF</span> {profile.rafBreakdown?.hcc?.toFixed(3) ?? '0'}</div>
+                    {!!profile.rafBreakdown?.interaction && (
+                      <div><span className="text-slate-500">Interaction uplift</span> +{profile.rafBreakdown.interaction.toFixed(3)}</div>
+                    )}
+                    {!!profile.rafBreakdown?.count && (
+                      <div><span className="text-slate-500">HCC count term ({profile.rafBreakdown.hcc_count} HCCs)</span> +{profile.rafBreakdown.count.toFixed(3)}</div>
+                    )}
                     <div><span className="font-medium text-[#0d9488]">Total RAF</span> {profile.raf.toFixed(3)}</div>
                   </div>
                   {profile.hccList && profile.hccList.length > 0 && (
                     <div className="mt-2 text-xs">
                       <span className="text-slate-500">HCCs:</span>{' '}
-                      {profile.hccList.map((h) => `${h.code} (${h.weight})`).join(', ')}
+                      {profile.hccList.map((h, i) => (
+                        <span key={h.code}>
+                          {i > 0 && ', '}
+                          {h.dropped_by ? (
+                            <span className="line-through text-slate-400" title={`Dropped by hierarchy (${h.dropped_by})`}>{h.code} ({h.weight})</span>
+                          ) : (
+                            `${h.code} (${h.weight})`
+                          )}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                  {profile.hccList && profile.hccList.some((h) => h.supporting_claims && h.supporting_claims.length > 0) && (
+                    <ul className="mt-1 text-xs text-slate-500 space-y-0.5">
+                      {profile.hccList.map((h) => {
+                        const first = h.supporting_claims?.[0];
+                        if (!first) return null;
+                        const more = (h.supporting_claims?.length ?? 0) - 1;
+                        return (
+                          <li key={h.code}>
+                            {h.code} supported by <span className="font-mono">{first.claim_id}</span> ({first.claim_type} {first.service_date}, dx {first.diagnosis_code})
+                            {more > 0 && ` +${more} more`}
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  )}
+                  {profile.rafBreakdown?.dropped_hccs && profile.rafBreakdown.dropped_hccs.length > 0 && (
+                    <div className="mt-1 text-xs text-slate-500">
+                      Hierarchy: {profile.rafBreakdown.dropped_hccs.map((d) => `${d.code} dropped by ${d.dropped_by} (${d.family})`).join('; ')}
+                    </div>
+                  )}
+                  {profile.rafBreakdown?.interactions && profile.rafBreakdown.interactions.length > 0 && (
+                    <div className="mt-1 text-xs text-slate-500">
+                      Interactions: {profile.rafBreakdown.interactions.map((i) => `${i.label} (+${i.weight})`).join(', ')}
                     </div>
                   )}
                   {profile.risk_adj_revenue != null && (
                     <div className="mt-1 text-xs text-slate-600">
                       Risk Adj. Revenue: <strong>${profile.risk_adj_revenue.toLocaleString()}</strong>
+                      {profile.premium != null && (
+                        <> · Rated Premium: <strong>${profile.premium.toLocaleString()}</strong></>
+                      )}
                     </div>
                   )}
                 </div>
@@ -279,6 +373,8 @@ export default function MemberExplorer() {
                       <tr className="text-slate-500">
                         <th className="text-left py-1">Date</th>
                         <th className="text-left py-1">Type</th>
+                        <th className="text-left py-1">Dx / Drug</th>
+                        <th className="text-left py-1">Procedures</th>
                         <th className="text-right py-1">Amount</th>
                       </tr>
                     </thead>
@@ -287,6 +383,10 @@ export default function MemberExplorer() {
                         <tr key={c.claim_id} className="border-t border-slate-100">
                           <td className="py-1">{c.service_date}</td>
                           <td className="py-1">{c.claim_type}</td>
+                          <td className="py-1 font-mono">
+                            {c.claim_type === 'RX' ? c.drug_class?.replace(/_/g, ' ') ?? '—' : (c.diagnosis_codes ?? []).join(', ') || '—'}
+                          </td>
+                          <td className="py-1 font-mono">{(c.procedure_codes ?? []).join(', ') || '—'}</td>
                           <td className="text-right py-1">${c.allowed_amount.toLocaleString()}</td>
                         </tr>
                       ))}
@@ -318,7 +418,10 @@ function MemberRiskTab({ orch }: { orch: OrchestratedOutput }) {
           <div key={s.hcc} className="rounded-lg border border-amber-200 bg-amber-50/50 p-3 text-sm">
             <div className="flex justify-between items-start">
               <span className="font-medium text-slate-800">{s.condition}</span>
-              <span className="text-xs text-amber-700">{s.hcc}</span>
+              <span className="text-xs text-amber-700">
+                {s.source === 'recapture' && <span className="mr-1 px-1.5 py-0.5 rounded bg-[#14b8a6]/10 text-[#14b8a6]">Recapture</span>}
+                {s.hcc}
+              </span>
             </div>
             <div className="mt-1 flex items-center gap-2">
               <span className="text-xs text-slate-500">Confidence</span>
@@ -326,6 +429,11 @@ function MemberRiskTab({ orch }: { orch: OrchestratedOutput }) {
                 <div className="h-full bg-amber-500 rounded" style={{ width: `${s.confidence * 100}%` }} />
               </div>
               <span className="text-xs font-medium">{(s.confidence * 100).toFixed(0)}%</span>
+              {s.raw_confidence != null && (
+                <span className="text-xs text-slate-400" title="Calibrated from back-test outcomes">
+                  (rule {(s.raw_confidence * 100).toFixed(0)}%)
+                </span>
+              )}
             </div>
             <ul className="mt-2 text-xs text-slate-600 list-disc list-inside space-y-0.5">
               {s.evidence.map((e, i) => (
@@ -365,6 +473,12 @@ function MemberFinanceTab({ orch }: { orch: OrchestratedOutput }) {
 
 function MemberComplianceTab({ orch }: { orch: OrchestratedOutput }) {
   const c = orch.compliance;
+  const [history, setHistory] = useState<AuditLogEntry[]>([]);
+  useEffect(() => {
+    getAuditLog({ member_id: orch.member_id, limit: 5 })
+      .then((res) => setHistory(res.entries.filter((e): e is AuditLogEntry => e.scope !== 'population')))
+      .catch(() => setHistory([]));
+  }, [orch.member_id]);
   return (
     <div className="space-y-3">
       <h4 className="text-xs font-medium text-slate-500 uppercase">Compliance Notes</h4>
@@ -383,7 +497,65 @@ function MemberComplianceTab({ orch }: { orch: OrchestratedOutput }) {
             <li key={i}>{n}</li>
           ))}
         </ul>
+        {c.rules && c.rules.length > 0 && (
+          <div className="flex flex-wrap gap-1.5 pt-1">
+            {c.rules.map((r) => (
+              <span
+                key={r.id}
+                title={`${r.pack} · ${r.type} · ${r.severity}${r.findings.length ? `\n${r.findings.join('\n')}` : ''}`}
+                className={`px-1.5 py-0.5 rounded text-xs ${
+                  r.passed ? 'bg-green-50 text-green-700' : r.severity === 'review' ? 'bg-amber-100 text-amber-800' : 'bg-slate-100 text-slate-600'
+                }`}
+              >
+                {r.passed ? '✓' : '✗'} {r.id}
+              </span>
+            ))}
+            {c.policy_version && <span className="text-xs text-slate-400 self-center">policy {c.policy_version}</span>}
+          </div>
+        )}
       </div>
+      {orch.unsupported_hccs && orch.unsupported_hccs.length > 0 && (
+        <>
+          <h4 className="text-xs font-medium text-slate-500 uppercase">Unsupported Coded HCCs</h4>
+          {orch.deletion_risk && (
+            <p className="text-xs text-slate-600">
+              Deletion risk: RAF −<strong>{orch.deletion_risk.raf_at_risk.toFixed(2)}</strong> · Revenue{' '}
+              <strong className="text-[#e91e8c]">${orch.deletion_risk.revenue_at_risk.toLocaleString()}</strong>
+            </p>
+          )}
+          {orch.unsupported_hccs.map((h) => (
+            <div key={h.hcc} className="rounded-lg border border-red-200 bg-red-50/50 p-3 text-sm">
+              <div className="flex justify-between items-start">
+                <span className="font-medium text-slate-800">{h.condition}</span>
+                <span className="text-xs text-red-700">
+                  {h.hcc} · support {(h.support_score * 100).toFixed(0)}%
+                </span>
+              </div>
+              <ul className="mt-2 text-xs text-slate-600 list-disc list-inside space-y-0.5">
+                {h.reasons.concat(h.evidence).map((e, i) => (
+                  <li key={i}>{e}</li>
+                ))}
+              </ul>
+              <div className="mt-2 text-xs">
+                RAF at risk: <strong>{h.raf_at_risk.toFixed(2)}</strong> · Revenue at risk: <strong>${h.revenue_at_risk.toLocaleString()}</strong>
+              </div>
+            </div>
+          ))}
+        </>
+      )}
+      {history.length > 0 && (
+        <>
+          <h4 className="text-xs font-medium text-slate-500 uppercase">Decision History (audit log)</h4>
+          <ul className="text-xs text-slate-600 space-y-1">
+            {history.map((e) => (
+              <li key={e.seq}>
+                {e.at.slice(0, 16).replace('T', ' ')} · {e.compliance.compliance_status} · {e.risk.suspect_hccs.length} suspect(s) · {e.caller}
+                {e.actor && ` · ${e.actor}`} · <span className="font-mono text-slate-400" title={e.hash}>#{e.seq}</span>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
     </div>
   );
 }
@@ -0,0 +1,206 @@
+import { useEffect, useState } from 'react';
+import { getProviders, getProvider } from '../api';
+import type { ProviderScorecard as Scorecard } from '../api';
+
+const US_STATES = ['NY', 'CA', 'TX', 'FL', 'NJ', 'IL', 'PA', 'GA', 'OH', 'NC', 'MI', 'AZ', 'WA', 'MA', 'CO', 'VA', 'TN', 'IN', 'MO', 'MD'];
+const SPECIALTIES = ['Family Medicine', 'Internal Medicine', 'Cardiology', 'Pulmonology', 'Nephrology', 'Endocrinology'];
+const SORTS: { id: string; label: string }[] = [
+  { id: 'revenue_at_risk', label: 'Revenue at risk' },
+  { id: 'suspect_hccs', label: 'Suspect HCCs' },
+  { id: 'recapture_rate', label: 'Lowest recapture rate' },
+  { id: 'attributed_members', label: 'Attributed members' },
+];
+
+const pct = (v: number | null) => (v != null ? `${(v * 100).toFixed(1)}%` : '—');
+
+export default function ProviderScorecard() {
+  const [providers, setProviders] = useState<Scorecard[]>([]);
+  const [totals, setTotals] = useState({ total: 0, attributed: 0, unattributed: 0 });
+  const [loading, setLoading] = useState(true);
+  const [filters, setFilters] = useState({ state: '', specialty: '', sort: 'revenue_at_risk' });
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [detail, setDetail] = useState<Awaited<ReturnType<typeof getProvider>> | null>(null);
+
+  useEffect(() => {
+    setLoading(true);
+    getProviders({ ...filters, limit: 100 })
+      .then((res) => {
+        setProviders(res.providers);
+        setTotals({ total: res.total, attributed: res.attributed_members, unattributed: res.unattributed_members });
+      })
+      .catch(() => setProviders([]))
+      .finally(() => setLoading(false));
+  }, [filters.state, filters.specialty, filters.sort]);
+
+  const onSelect = (id: string) => {
+    setSelectedId(id);
+    setDetail(null);
+    getProvider(id)
+      .then(setDetail)
+      .catch(() => setDetail(null));
+  };
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-xl font-semibold text-slate-900">Provider Scorecard</h2>
+      <p className="text-sm text-slate-600">
+        Members are attributed to the provider they visit most for outpatient primary care. See which practices leave
+        suspect HCCs undocumented and which fail to recapture last year&apos;s chronic conditions.
+      </p>
+
+      {/* Filters */}
+      <div className="bg-white rounded-lg border border-slate-200 p-4 shadow-sm">
+        <div className="flex flex-wrap gap-3 items-end">
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">State</label>
+            <select
+              value={filters.state}
+              onChange={(e) => setFilters((f) => ({ ...f, state: e.target.value }))}
+              className="border border-slate-300 rounded px-2 py-1.5 text-sm"
+            >
+              <option value="">All</option>
+              {US_STATES.map((s) => (
+                <option key={s} value={s}>{s}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Specialty</label>
+            <select
+              value={filters.specialty}
+              onChange={(e) => setFilters((f) => ({ ...f, specialty: e.target.value }))}
+              className="border border-slate-300 rounded px-2 py-1.5 text-sm"
+            >
+              <option value="">All</option>
+              {SPECIALTIES.map((s) => (
+                <option key={s} value={s}>{s}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Sort by</label>
+            <select
+              value={filters.sort}
+              onChange={(e) => setFilters((f) => ({ ...f, sort: e.target.value }))}
+              className="border border-slate-300 rounded px-2 py-1.5 text-sm"
+            >
+              {SORTS.map((s) => (
+                <option key={s.id} value={s.id}>{s.label}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Provider table */}
+        <div className="bg-white rounded-lg border border-slate-200 overflow-hidden shadow-sm">
+          <div className="px-4 py-2 border-b border-slate-200 bg-slate-50 text-sm text-slate-600">
+            {totals.total.toLocaleString()} providers · {totals.attributed.toLocaleString()} attributed members ·{' '}
+            {totals.unattributed.toLocaleString()} unattributed
+          </div>
+          <div className="overflow-x-auto max-h-[560px] overflow-y-auto">
+            <table className="min-w-full text-sm">
+              <thead className="bg-slate-50 sticky top-0">
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium text-slate-600">Provider</th>
+                  <th className="px-4 py-2 text-right font-medium text-slate-600">Members</th>
+                  <th className="px-4 py-2 text-right font-medium text-slate-600">Suspects</th>
+                  <th className="px-4 py-2 text-right font-medium text-slate-600">Recapture</th>
+                  <th className="px-4 py-2 text-right font-medium text-slate-600">At risk</th>
+                </tr>
+              </thead>
+              <tbody>
+                {loading ? (
+                  <tr><td colSpan={5} className="px-4 py-8 text-center text-slate-500">Loading...</td></tr>
+                ) : (
+                  providers.map((p) => (
+                    <tr
+                      key={p.provider_id}
+                      onClick={() => onSelect(p.provider_id)}
+                      className={`border-t border-slate-100 cursor-pointer hover:bg-slate-50 ${
+                        selectedId === p.provider_id ? 'bg-[#e91e8c]/5' : ''
+                      }`}
+                    >
+                      <td className="px-4 py-2">
+                        <div className="font-medium text-slate-800">{p.name}</div>
+                        <div className="text-xs text-slate-500">{p.specialty}</div>
+                      </td>
+                      <td className="px-4 py-2 text-right">{p.attributed_members}</td>
+                      <td className="px-4 py-2 text-right">{p.suspect_hccs}</td>
+                      <td className="px-4 py-2 text-right">{pct(p.recapture_rate)}</td>
+                      <td className="px-4 py-2 text-right text-[#e91e8c] font-medium">${p.revenue_at_risk.toLocaleString()}</td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        {/* Provider detail */}
+        <div className="bg-white rounded-lg border border-slate-200 p-4 shadow-sm">
+          <h3 className="text-sm font-semibold text-slate-700 mb-4">Provider Detail</h3>
+          {!selectedId ? (
+            <p className="text-slate-500 text-sm">Select a provider to view its attributed panel</p>
+          ) : detail ? (
+            <ProviderDetail detail={detail} />
+          ) : (
+            <p className="text-slate-500 text-sm">Loading...</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function ProviderDetail({ detail }: { detail: Awaited<ReturnType<typeof getProvider>> }) {
+  const { provider, scorecard, members } = detail;
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="font-medium text-slate-900">{provider.name}</div>
+        <div className="text-xs text-slate-500">
+          {provider.provider_id} · {provider.specialty} · {provider.state}
+        </div>
+      </div>
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 text-sm">
+        <div><span className="text-slate-500">Attributed</span> {scorecard.attributed_members}</div>
+        <div><span className="text-slate-500">Avg RAF</span> {scorecard.avg_raf.toFixed(3)}</div>
+        <div><span className="text-slate-500">With suspects</span> {scorecard.members_with_suspects}</div>
+        <div><span className="text-slate-500">Suspect HCCs</span> {scorecard.suspect_hccs}</div>
+        <div><span className="text-slate-500">Recapture</span> {pct(scorecard.recapture_rate)}</div>
+        <div><span className="text-slate-500">Open gaps</span> {scorecard.open_recapture_gaps}</div>
+      </div>
+      <div className="text-sm">
+        Revenue at risk: <strong className="text-[#e91e8c]">${scorecard.revenue_at_risk.toLocaleString()}</strong>
+      </div>
+      <div className="border-t border-slate-100 pt-3 max-h-[340px] overflow-y-auto">
+        <table className="min-w-full text-xs">
+          <thead>
+            <tr className="text-slate-500">
+              <th className="text-left py-1">Member</th>
+              <th className="text-left py-1">Plan</th>
+              <th className="text-right py-1">Visits</th>
+              <th className="text-left py-1 pl-3">Suspects</th>
+              <th className="text-left py-1">Recapture gaps</th>
+              <th className="text-right py-1">At risk</th>
+            </tr>
+          </thead>
+          <tbody>
+            {members.map((m) => (
+              <tr key={m.member_id} className="border-t border-slate-100">
+                <td className="py-1 font-mono">{m.member_id}</td>
+                <td className="py-1">{m.plan_type}</td>
+                <td className="py-1 text-right">{m.visits}</td>
+                <td className="py-1 pl-3">{m.suspect_hccs.join(', ') || '—'}</td>
+                <td className="py-1">{m.open_recapture_gaps.join(', ') || '—'}</td>
+                <td className="py-1 text-right">${m.revenue_at_risk.toLocaleString()}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -8,10 +8,34 @@ import {
   YAxis,
   CartesianGrid,
   Tooltip,
+  Legend,
   ResponsiveContainer,
 } from 'recharts';
-import { getRiskExplorer } from '../api';
-import type { RiskExplorerData, Member } from '../api';
+import {
+  getRiskExplorer,
+  getModels,
+  getRecapture,
+  getSuspectReconciliation,
+  getUnsupportedHCCs,
+  getSuspectRules,
+  postSuspectRulesDryRun,
+  getSuspectBacktest,
+  getSuspectCalibration,
+  postSuspectCalibration,
+  deleteSuspectCalibration,
+} from '../api';
+import type {
+  RiskExplorerData,
+  Member,
+  RiskModel,
+  RecaptureData,
+  RecaptureRow,
+  SuspectReconciliation,
+  UnsupportedHCCReport,
+  SuspectRulesDryRun,
+  SuspectBacktest,
+  SuspectCalibration,
+} from '../api';
 
 const HCC_LABELS: Record<string, string> = {
   HCC_18: 'Diabetes',
@@ -26,7 +50,9 @@ const PLAN_TYPES = ['Bronze', 'Silver', 'Gold'];
 export default function RiskAdjustmentExplorer() {
   const [data, setData] = useState<RiskExplorerData | null>(null);
   const [loading, setLoading] = useState(true);
+  const [models, setModels] = useState<RiskModel[]>([]);
   const [filters, setFilters] = useState({
+    model: '',
     state: '',
     plan_type: '',
     raf_min: '',
@@ -34,6 +60,9 @@ export default function RiskAdjustmentExplorer() {
     hcc: '',
   });
   const [page, setPage] = useState(1);
+  const [recapture, setRecapture] = useState<RecaptureData | null>(null);
+  const [reconciliation, setReconciliation] = useState<SuspectReconciliation | null>(null);
+  const [unsupported, setUnsupported] = useState<UnsupportedHCCReport | null>(null);
 
   const load = () => {
     setLoading(true);
@@ -48,7 +77,25 @@ export default function RiskAdjustmentExplorer() {
       .finally(() => setLoading(false));
   };
 
-  useEffect(load, [page, filters.state, filters.plan_type, filters.raf_min, filters.raf_max, filters.hcc]);
+  useEffect(load, [page, filters.model, filters.state, filters.plan_type, filters.raf_min, filters.raf_max, filters.hcc]);
+
+  useEffect(() => {
+    getRecapture({ model: filters.model, state: filters.state, plan_type: filters.plan_type })
+      .then(setRecapture)
+      .catch(() => setRecapture(null));
+    getSuspectReconciliation({ model: filters.model, state: filters.state, plan_type: filters.plan_type, limit: 10 })
+      .then(setReconciliation)
+      .catch(() => setReconciliation(null));
+    getUnsupportedHCCs({ model: filters.model, state: filters.state, plan_type: filters.plan_type, limit: 10 })
+      .then(setUnsupported)
+      .catch(() => setUnsupported(null));
+  }, [filters.model, filters.state, filters.plan_type]);
+
+  useEffect(() => {
+    getModels()
+      .then((res) => setModels(res.models))
+      .catch(() => setModels([]));
+  }, []);
 
   return (
     <div className="space-y-6">
@@ -60,6 +107,20 @@ export default function RiskAdjustmentExplorer() {
       {/* Filters */}
       <div className="bg-white rounded-lg border border-slate-200 p-4 shadow-sm">
         <div className="flex flex-wrap gap-3 items-end">
+          {models.length > 1 && (
+            <div>
+              <label className="block text-xs font-medium text-slate-500 mb-1">Risk Model</label>
+              <select
+                value={filters.model || data?.model?.id || ''}
+                onChange={(e) => setFilters((f) => ({ ...f, model: e.target.value }))}
+                className="border border-slate-300 rounded px-2 py-1.5 text-sm"
+              >
+                {models.map((m) => (
+                  <option key={m.id} value={m.id}>{m.name} v{m.version}</option>
+                ))}
+              </select>
+            </div>
+          )}
           <div>
             <label className="block text-xs font-medium text-slate-500 mb-1">State</label>
             <select
@@ -213,6 +274,16 @@ export default function RiskAdjustmentExplorer() {
         )}
       </div>
 
+      {recapture && recapture.totals.prior_hccs > 0 && <RecapturePanel data={recapture} />}
+
+      {unsupported && unsupported.totals.coded_hccs > 0 && <UnsupportedPanel data={unsupported} />}
+
+      <SuspectRulesPanel model={filters.model} />
+
+      <BacktestPanel model={filters.model} />
+
+      {reconciliation && <ReconciliationPanel data={reconciliation} />}
+
       {/* Members table */}
       <div className="bg-white rounded-lg border border-slate-200 overflow-hidden shadow-sm">
         <div className="px-4 py-2 border-b border-slate-200 bg-slate-50 text-sm text-slate-600">
@@ -271,3 +342,462 @@ export default function RiskAdjustmentExplorer() {
     </div>
   );
 }
+
+function RecapturePanel({ data }: { data: RecaptureData }) {
+  const pct = (r: RecaptureRow) => (r.recapture_rate != null ? `${(r.recapture_rate * 100).toFixed(1)}%` : '—');
+  return (
+    <div className="bg-white rounded-lg border border-slate-200 p-4 shadow-sm">
+      <div className="flex flex-wrap items-baseline justify-between gap-2 mb-4">
+        <h3 className="text-sm font-semibold text-slate-700">
+          HCC Recapture ({data.prior_year} → {data.current_year})
+        </h3>
+        <p className="text-sm text-slate-600">
+          Recapture rate <strong>{pct(data.totals)}</strong> · {data.totals.open.toLocaleString()} open HCCs ·{' '}
+          <span className="text-[#e91e8c] font-medium">${(data.totals.open_revenue / 1e6).toFixed(2)}M</span> at risk
+        </p>
+      </div>
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="h-56">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={data.by_hcc.map((r) => ({ ...r, label: HCC_LABELS[r.key] ?? r.key }))}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+              <XAxis dataKey="label" stroke="#64748b" fontSize={11} />
+              <YAxis stroke="#64748b" />
+              <Tooltip />
+              <Bar dataKey="recaptured" stackId="a" fill="#14b8a6" name="Recaptured" />
+              <Bar dataKey="open" stackId="a" fill="#e91e8c" name="Open" radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+        <table className="min-w-full text-sm self-start">
+          <thead>
+            <tr className="text-left text-slate-500">
+              <th className="py-1 font-medium">Plan</th>
+              <th className="py-1 font-medium text-right">Prior-year HCCs</th>
+              <th className="py-1 font-medium text-right">Recaptured</th>
+              <th className="py-1 font-medium text-right">Rate</th>
+              <th className="py-1 font-medium text-right">Open revenue</th>
+            </tr>
+          </thead>
+          <tbody>
+            {data.by_plan.map((r) => (
+              <tr key={r.key} className="border-t border-slate-100">
+                <td className="py-1">{r.key}</td>
+                <td className="py-1 text-right">{r.prior_hccs}</td>
+                <td className="py-1 text-right">{r.recaptured}</td>
+                <td className="py-1 text-right">{pct(r)}</td>
+                <td className="py-1 text-right">${r.open_revenue.toLocaleString()}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {data.by_state.length > 0 && (
+        <div className="mt-3 flex flex-wrap gap-2">
+          {data.by_state.slice(0, 8).map((r) => (
+            <span key={r.key} className="px-2 py-1 rounded bg-slate-100 text-xs text-slate-700">
+              {r.key}: {pct(r)} ({r.open} open)
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const REASON_LABELS: Record<string, string> = {
+  no_claim_dx: 'No claim-level diagnoses',
+  no_payment_year_dx: 'No face-to-face claim in the payment year',
+};
+
+function UnsupportedPanel({ data }: { data: UnsupportedHCCReport }) {
+  const { totals } = data;
+  const pct = (v: number | null) => (v != null ? `${(v * 100).toFixed(1)}%` : '—');
+  return (
+    <div className="bg-white rounded-lg border border-slate-200 p-4 shadow-sm">
+      <div className="flex flex-wrap items-baseline justify-between gap-2 mb-4">
+        <h3 className="text-sm font-semibold text-slate-700">Unsupported Coded HCCs ({data.payment_year})</h3>
+        <p className="text-sm text-slate-600">
+          {totals.unsupported.toLocaleString()} of {totals.coded_hccs.toLocaleString()} coded HCCs ({pct(totals.unsupported_rate)}) ·{' '}
+          {totals.members_with_unsupported.toLocaleString()} members · RAF −{totals.raf_at_risk.toFixed(2)} ·{' '}
+          <span className="text-[#e91e8c] font-medium">${(totals.revenue_at_risk / 1e6).toFixed(2)}M</span> deletion risk
+        </p>
+      </div>
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 text-sm">
+        <div className="space-y-3">
+          <table className="min-w-full">
+            <thead>
+              <tr className="text-left text-slate-500">
+                <th className="py-1 font-medium">HCC</th>
+                <th className="py-1 font-medium text-right">Coded</th>
+                <th className="py-1 font-medium text-right">Unsupported</th>
+                <th className="py-1 font-medium text-right">Rate</th>
+                <th className="py-1 font-medium text-right">Revenue at risk</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.by_hcc.map((r) => (
+                <tr key={r.hcc} className="border-t border-slate-100">
+                  <td className="py-1">{r.condition}</td>
+                  <td className="py-1 text-right">{r.coded.toLocaleString()}</td>
+                  <td className="py-1 text-right text-[#e91e8c]">{r.unsupported.toLocaleString()}</td>
+                  <td className="py-1 text-right">{pct(r.unsupported_rate)}</td>
+                  <td className="py-1 text-right">${r.revenue_at_risk.toLocaleString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="flex flex-wrap gap-2">
+            {Object.entries(data.by_reason).map(([reason, count]) => (
+              <span key={reason} className="px-2 py-1 rounded bg-slate-100 text-xs text-slate-700">
+                {REASON_LABELS[reason] ?? reason}: {count}
+              </span>
+            ))}
+          </div>
+        </div>
+        {data.members.length > 0 && (
+          <ul className="text-xs text-slate-600 space-y-1.5 self-start">
+            {data.members.map((m) => (
+              <li key={m.member_id}>
+                <span className="font-mono">{m.member_id}</span> ({m.plan_type}, {m.state}) ·{' '}
+                <span className="text-[#e91e8c] font-medium">${m.revenue_at_risk.toLocaleString()}</span> ·{' '}
+                <span title={m.unsupported_hccs.map((h) => `${h.condition}: ${h.reasons.join('; ')}`).join('\n')}>
+                  {m.unsupported_hccs.map((h) => `${h.condition} (support ${(h.support_score * 100).toFixed(0)}%)`).join(', ')}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function SuspectRulesPanel({ model }: { model: string }) {
+  const [draft, setDraft] = useState('');
+  const [activeVersion, setActiveVersion] = useState('');
+  const [result, setResult] = useState<SuspectRulesDryRun | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+
+  useEffect(() => {
+    getSuspectRules()
+      .then(({ load_errors: _loadErrors, ...rules }) => {
+        setActiveVersion(rules.version);
+        setDraft(JSON.stringify(rules, null, 2));
+      })
+      .catch(() => setError('Could not load suspect rules'));
+  }, []);
+
+  const runDryRun = async () => {
+    setError(null);
+    setResult(null);
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(draft);
+    } catch {
+      setError('Draft is not valid JSON');
+      return;
+    }
+    setRunning(true);
+    try {
+      setResult(await postSuspectRulesDryRun(parsed, model || undefined));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Dry run failed');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const delta = (a: number, b: number) => `${b - a >= 0 ? '+' : ''}${(b - a).toLocaleString()}`;
+
+  return (
+    <div className="bg-white rounded-lg border border-slate-200 p-4 shadow-sm">
+      <div className="flex flex-wrap items-baseline justify-between gap-2 mb-3">
+        <h3 className="text-sm font-semibold text-slate-700">Suspect Rules (active: {activeVersion || '—'})</h3>
+        <p className="text-xs text-slate-500">
+          Edit thresholds, signals or wording and dry-run the draft against the population. Active rules are not changed.
+        </p>
+      </div>
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="space-y-2">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            spellCheck={false}
+            className="w-full h-72 border border-slate-300 rounded p-2 font-mono text-xs"
+          />
+          <button
+            onClick={runDryRun}
+            disabled={running || !draft.trim()}
+            className="px-4 py-1.5 rounded bg-[#e91e8c] text-white text-sm font-medium hover:bg-[#c41a77] disabled:opacity-50"
+          >
+            {running ? 'Running…' : 'Dry run'}
+          </button>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+        {result ? (
+          <div className="space-y-3 text-sm">
+            <p className="text-slate-600">
+              {result.members_evaluated.toLocaleString()} members · suspects{' '}
+              <strong>{result.totals.active.suspects.toLocaleString()}</strong> →{' '}
+              <strong>{result.totals.draft.suspects.toLocaleString()}</strong> (
+              {delta(result.totals.active.suspects, result.totals.draft.suspects)}) · revenue uplift{' '}
+              <span className="text-[#e91e8c] font-medium">
+                ${(result.totals.draft.revenue_uplift / 1e6).toFixed(2)}M
+              </span>{' '}
+              vs ${(result.totals.active.revenue_uplift / 1e6).toFixed(2)}M
+            </p>
+            <table className="min-w-full">
+              <thead>
+                <tr className="text-left text-slate-500">
+                  <th className="py-1 font-medium">HCC</th>
+                  <th className="py-1 font-medium text-right">Active</th>
+                  <th className="py-1 font-medium text-right">Draft</th>
+                  <th className="py-1 font-medium text-right">Added</th>
+                  <th className="py-1 font-medium text-right">Removed</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.by_hcc.map((r) => (
+                  <tr key={r.hcc} className="border-t border-slate-100">
+                    <td className="py-1">{HCC_LABELS[r.hcc] ?? r.hcc}</td>
+                    <td className="py-1 text-right">{r.active.toLocaleString()}</td>
+                    <td className="py-1 text-right">{r.draft.toLocaleString()}</td>
+                    <td className="py-1 text-right text-[#14b8a6]">{r.added.toLocaleString()}</td>
+                    <td className="py-1 text-right text-[#e91e8c]">{r.removed.toLocaleString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {result.sample_changes.length > 0 && (
+              <p className="text-xs text-slate-500">
+                e.g.{' '}
+                {result.sample_changes
+                  .slice(0, 5)
+                  .map((c) => `${c.member_id} ${[...c.added.map((h) => `+${h}`), ...c.removed.map((h) => `−${h}`)].join(' ')}`)
+                  .join(' · ')}
+              </p>
+            )}
+          </div>
+        ) : (
+          <p className="text-sm text-slate-500">Run a dry run to compare suspect counts by HCC.</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function ReconciliationPanel({ data }: { data: SuspectReconciliation }) {
+  const { legacy, pipeline } = data.totals;
+  return (
+    <div className="bg-white rounded-lg border border-slate-200 p-4 shadow-sm">
+      <div className="flex flex-wrap items-baseline justify-between gap-2 mb-3">
+        <h3 className="text-sm font-semibold text-slate-700">Suspect Engine Reconciliation</h3>
+        <p className="text-xs text-slate-500">
+          Legacy single-signal rules vs. the suspect pipeline used across the app. {data.members_with_differences.toLocaleString()} of{' '}
+          {data.members_evaluated.toLocaleString()} members differ.
+        </p>
+      </div>
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 text-sm">
+        <table className="min-w-full self-start">
+          <thead>
+            <tr className="text-left text-slate-500">
+              <th className="py-1 font-medium">HCC</th>
+              <th className="py-1 font-medium text-right">Both</th>
+              <th className="py-1 font-medium text-right">Legacy only</th>
+              <th className="py-1 font-medium text-right">Pipeline only</th>
+              <th className="py-1 font-medium text-right">Agreement</th>
+            </tr>
+          </thead>
+          <tbody>
+            {data.by_hcc.map((r) => (
+              <tr key={r.hcc} className="border-t border-slate-100">
+                <td className="py-1">{HCC_LABELS[r.hcc] ?? r.hcc}</td>
+                <td className="py-1 text-right">{r.both.toLocaleString()}</td>
+                <td className="py-1 text-right text-[#e91e8c]">{r.legacy_only.toLocaleString()}</td>
+                <td className="py-1 text-right text-[#14b8a6]">{r.pipeline_only.toLocaleString()}</td>
+                <td className="py-1 text-right">{r.agreement_rate != null ? `${(r.agreement_rate * 100).toFixed(1)}%` : '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="space-y-2">
+          <p className="text-slate-600">
+            Suspects: legacy <strong>{legacy.suspects.toLocaleString()}</strong> · pipeline{' '}
+            <strong>{pipeline.suspects.toLocaleString()}</strong> · revenue uplift ${(legacy.revenue_uplift / 1e6).toFixed(2)}M →{' '}
+            <span className="text-[#e91e8c] font-medium">${(pipeline.revenue_uplift / 1e6).toFixed(2)}M</span>
+          </p>
+          {data.members.length > 0 && (
+            <ul className="text-xs text-slate-600 space-y-1">
+              {data.members.map((m) => (
+                <li key={m.member_id}>
+                  <span className="font-mono">{m.member_id}</span>{' '}
+                  {m.legacy_only.map((h) => `legacy ${h.hcc}`).concat(m.pipeline_only.map((h) => `pipeline ${h.hcc}`)).join(' · ')}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function BacktestPanel({ model }: { model: string }) {
+  const [cutoff, setCutoff] = useState('2025-01-01');
+  const [result, setResult] = useState<SuspectBacktest | null>(null);
+  const [active, setActive] = useState<SuspectCalibration | null>(null);
+  const [curveKey, setCurveKey] = useState('overall');
+  const [error, setError] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+
+  useEffect(() => {
+    getSuspectCalibration()
+      .then((res) => setActive(res.calibration))
+      .catch(() => setActive(null));
+  }, []);
+
+  const run = async () => {
+    setError(null);
+    setRunning(true);
+    try {
+      setResult(await getSuspectBacktest({ cutoff, model: model || undefined, fit: true }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Back-test failed');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const apply = async () => {
+    if (!result?.calibration) return;
+    setError(null);
+    try {
+      setActive((await postSuspectCalibration(result.calibration)).calibration);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not apply calibration');
+    }
+  };
+
+  const reset = async () => {
+    setError(null);
+    try {
+      await deleteSuspectCalibration();
+      setActive(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not reset calibration');
+    }
+  };
+
+  const pct = (v: number | null) => (v != null ? `${(v * 100).toFixed(1)}%` : '—');
+  const curve =
+    result && (curveKey === 'overall' ? result.overall : result.by_hcc.find((r) => r.hcc === curveKey))?.calibration_curve;
+
+  return (
+    <div className="bg-white rounded-lg border border-slate-200 p-4 shadow-sm">
+      <div className="flex flex-wrap items-baseline justify-between gap-2 mb-3">
+        <h3 className="text-sm font-semibold text-slate-700">Suspect Back-test &amp; Calibration</h3>
+        <p className="text-xs text-slate-500">
+          Rules run on claims before the cutoff; a suspect is confirmed when the HCC is coded afterwards. Active confidences:{' '}
+          <strong>{active ? `calibrated (${active.version})` : 'hand-set rule formula'}</strong>
+        </p>
+      </div>
+      <div className="flex flex-wrap gap-3 items-end mb-4">
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1">Cutoff</label>
+          <input
+            type="date"
+            value={cutoff}
+            onChange={(e) => setCutoff(e.target.value)}
+            className="border border-slate-300 rounded px-2 py-1.5 text-sm"
+          />
+        </div>
+        <button
+          onClick={run}
+          disabled={running || !cutoff}
+          className="px-4 py-1.5 rounded bg-[#e91e8c] text-white text-sm font-medium hover:bg-[#c41a77] disabled:opacity-50"
+        >
+          {running ? 'Running…' : 'Run back-test'}
+        </button>
+        {result?.calibration && (
+          <button
+            onClick={apply}
+            className="px-4 py-1.5 rounded border border-[#14b8a6] text-[#14b8a6] text-sm font-medium hover:bg-[#14b8a6]/10"
+          >
+            Apply fitted confidences
+          </button>
+        )}
+        {active && (
+          <button onClick={reset} className="px-4 py-1.5 rounded border border-slate-300 text-slate-600 text-sm hover:bg-slate-50">
+            Reset to rule formula
+          </button>
+        )}
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </div>
+      {result ? (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 text-sm">
+          <div className="space-y-2">
+            <p className="text-slate-600">
+              {result.members_evaluated.toLocaleString()} members · {result.overall.flagged.toLocaleString()} suspects · precision{' '}
+              <strong>{pct(result.overall.precision)}</strong> · recall <strong>{pct(result.overall.recall)}</strong> · Brier{' '}
+              {result.overall.brier_score?.toFixed(3) ?? '—'}
+            </p>
+            <table className="min-w-full">
+              <thead>
+                <tr className="text-left text-slate-500">
+                  <th className="py-1 font-medium">HCC</th>
+                  <th className="py-1 font-medium text-right">Flagged</th>
+                  <th className="py-1 font-medium text-right">Confirmed</th>
+                  <th className="py-1 font-medium text-right">Precision</th>
+                  <th className="py-1 font-medium text-right">Recall</th>
+                  <th className="py-1 font-medium text-right">Mean conf.</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.by_hcc.map((r) => (
+                  <tr key={r.hcc} className="border-t border-slate-100">
+                    <td className="py-1">{HCC_LABELS[r.hcc] ?? r.condition}</td>
+                    <td className="py-1 text-right">{r.flagged.toLocaleString()}</td>
+                    <td className="py-1 text-right">{r.confirmed.toLocaleString()}</td>
+                    <td className="py-1 text-right">{pct(r.precision)}</td>
+                    <td className="py-1 text-right">{pct(r.recall)}</td>
+                    <td className="py-1 text-right">{pct(r.mean_confidence)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <p className="text-xs text-slate-500">Calibration: stated confidence vs. observed confirmation rate</p>
+              <select value={curveKey} onChange={(e) => setCurveKey(e.target.value)} className="border border-slate-300 rounded px-2 py-1 text-xs">
+                <option value="overall">All HCCs</option>
+                {result.by_hcc.map((r) => (
+                  <option key={r.hcc} value={r.hcc}>
+                    {HCC_LABELS[r.hcc] ?? r.condition}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="h-56">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={(curve ?? []).map((p) => ({ ...p, ideal: p.mean_confidence }))}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                  <XAxis dataKey="mean_confidence" type="number" domain={[0, 1]} stroke="#64748b" fontSize={11} />
+                  <YAxis domain={[0, 1]} stroke="#64748b" fontSize={11} />
+                  <Tooltip />
+                  <Legend />
+                  <Line type="monotone" dataKey="observed_rate" stroke="#e91e8c" strokeWidth={2} name="Observed" />
+                  <Line type="linear" dataKey="ideal" stroke="#94a3b8" strokeDasharray="4 4" dot={false} name="Perfectly calibrated" />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-slate-500">Run a back-test to measure precision, recall and calibration per HCC.</p>
+      )}
+    </div>
+  );
+}
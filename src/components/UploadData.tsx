@@ -1,9 +1,10 @@
 import { useState, useRef } from 'react';
 import { postUploadAnalyze } from '../api';
-import type { DashboardData } from '../api';
+import type { DashboardData, PremiumRates, UploadAnalysis } from '../api';
 
 const MEMBERS_CSV_HINT = 'member_id,age,gender,state,plan_type,risk_score,chronic_condition_flag,hcc_codes,member_months';
-const CLAIMS_CSV_HINT = 'claim_id,member_id,service_date,claim_type,allowed_amount';
+const CLAIMS_CSV_HINT = 'claim_id,member_id,service_date,claim_type,allowed_amount,diagnosis_codes,procedure_codes (optional, pipe-separated),ndc,drug_class (optional, RX)';
+const ELIGIBILITY_CSV_HINT = 'member_id,plan_type,state,start_month,end_month (YYYY-MM)';
 
 type UploadMode = 'csv' | 'json';
 
@@ -17,13 +18,18 @@ export default function UploadData({ onApplyToDashboard }: UploadDataProps) {
   const [claimsCsv, setClaimsCsv] = useState('');
   const [membersJson, setMembersJson] = useState<unknown[]>([]);
   const [claimsJson, setClaimsJson] = useState<unknown[]>([]);
+  const [eligibilityCsv, setEligibilityCsv] = useState('');
+  const [eligibilityJson, setEligibilityJson] = useState<unknown[]>([]);
+  const [premiumRates, setPremiumRates] = useState<PremiumRates | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [result, setResult] = useState<DashboardData | null>(null);
+  const [result, setResult] = useState<UploadAnalysis | null>(null);
   const membersFileRef = useRef<HTMLInputElement>(null);
   const claimsFileRef = useRef<HTMLInputElement>(null);
   const membersJsonRef = useRef<HTMLInputElement>(null);
   const claimsJsonRef = useRef<HTMLInputElement>(null);
+  const eligibilityFileRef = useRef<HTMLInputElement>(null);
+  const ratesFileRef = useRef<HTMLInputElement>(null);
 
   const readFile = (file: File): Promise<string> =>
     new Promise((resolve, reject) => {
@@ -59,6 +65,30 @@ export default function UploadData({ onApplyToDashboard }: UploadDataProps) {
     e.target.value = '';
   };
 
+  const handleEligibilityFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      const text = await readFile(file);
+      if (mode === 'csv') setEligibilityCsv(text);
+      else setEligibilityJson(JSON.parse(text));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid file');
+    }
+    e.target.value = '';
+  };
+
+  const handleRatesFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      setPremiumRates(JSON.parse(await readFile(file)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid file');
+    }
+    e.target.value = '';
+  };
+
   const submit = async () => {
     setError(null);
     setResult(null);
@@ -66,8 +96,19 @@ export default function UploadData({ onApplyToDashboard }: UploadDataProps) {
     try {
       const payload =
         mode === 'csv'
-          ? { format: 'csv' as const, membersCsv, claimsCsv }
-          : { members: membersJson, claims: claimsJson };
+          ? {
+              format: 'csv' as const,
+              membersCsv,
+              claimsCsv,
+              eligibilityCsv: eligibilityCsv.trim() || undefined,
+              premiumRates: premiumRates ?? undefined,
+            }
+          : {
+              members: membersJson,
+              claims: claimsJson,
+              eligibility: eligibilityJson.length > 0 ? eligibilityJson : undefined,
+              premiumRates: premiumRates ?? undefined,
+            };
       const data = await postUploadAnalyze(payload);
       setResult(data);
     } catch (err) {
@@ -87,7 +128,8 @@ export default function UploadData({ onApplyToDashboard }: UploadDataProps) {
       <div>
         <h2 className="text-xl font-semibold text-slate-900">Upload Data</h2>
         <p className="text-sm text-slate-500 mt-1">
-          Upload members and claims in CSV or JSON (same format as generated data). After analysis, apply to the dashboard to refresh it with the new data.
+          Upload members and claims in CSV or JSON (same format as generated data). Eligibility spans are optional; without them each member&apos;s member_months is used.
+          After analysis, apply to the dashboard to refresh it with the new data.
         </p>
       </div>
 
@@ -182,6 +224,53 @@ export default function UploadData({ onApplyToDashboard }: UploadDataProps) {
         </div>
       )}
 
+      <div className="rounded-lg border border-slate-200 bg-white p-4">
+        <label className="block text-sm font-medium text-slate-700 mb-2">Eligibility {mode === 'csv' ? 'CSV' : 'JSON'} (optional)</label>
+        <p className="text-xs text-slate-500 mb-2">{mode === 'csv' ? `Columns: ${ELIGIBILITY_CSV_HINT}` : 'Array of { member_id, plan_type, state, start_month, end_month }'}</p>
+        <input
+          type="file"
+          accept={mode === 'csv' ? '.csv,.txt' : '.json'}
+          ref={eligibilityFileRef}
+          onChange={handleEligibilityFile}
+          className="hidden"
+        />
+        <button
+          type="button"
+          onClick={() => eligibilityFileRef.current?.click()}
+          className="mb-2 px-3 py-2 rounded-lg border border-slate-200 text-sm hover:bg-slate-50"
+        >
+          {mode === 'csv' ? 'Choose file' : 'Choose eligibility.json'}
+        </button>
+        {mode === 'csv' ? (
+          <textarea
+            placeholder="Or paste CSV here (header row required)"
+            value={eligibilityCsv}
+            onChange={(e) => setEligibilityCsv(e.target.value)}
+            className="w-full h-24 rounded border border-slate-200 p-2 text-sm font-mono"
+          />
+        ) : (
+          <p className="text-xs text-slate-500">
+            {Array.isArray(eligibilityJson) && eligibilityJson.length > 0 ? `${eligibilityJson.length} spans loaded` : 'No file selected'}
+          </p>
+        )}
+      </div>
+
+      <div className="rounded-lg border border-slate-200 bg-white p-4">
+        <label className="block text-sm font-medium text-slate-700 mb-2">Premium rating table JSON (optional)</label>
+        <p className="text-xs text-slate-500 mb-2">
+          Same shape as <code className="bg-slate-100 px-1 rounded">server/config/premium-rates.json</code>; used for this analysis only.
+        </p>
+        <input type="file" accept=".json" ref={ratesFileRef} onChange={handleRatesFile} className="hidden" />
+        <button
+          type="button"
+          onClick={() => ratesFileRef.current?.click()}
+          className="mb-2 px-3 py-2 rounded-lg border border-slate-200 text-sm hover:bg-slate-50"
+        >
+          Choose rates.json
+        </button>
+        <p className="text-xs text-slate-500">{premiumRates ? `Rating table ${premiumRates.version ?? '(no version)'} loaded` : 'Using server rating table'}</p>
+      </div>
+
       {error && (
         <div className="rounded-lg border border-red-200 bg-red-50 text-red-800 px-4 py-2 text-sm">
           {error}
@@ -200,7 +289,7 @@ export default function UploadData({ onApplyToDashboard }: UploadDataProps) {
       {result && (
         <div className="rounded-xl border border-[#14b8a6]/30 bg-[#14b8a6]/5 p-4 space-y-4">
           <h3 className="text-sm font-semibold text-slate-800">Analysis complete</h3>
-          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-sm">
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 text-sm">
             <div>
               <span className="text-slate-500">Members</span>
               <p className="font-semibold">{result.kpis.totalMembers.toLocaleString()}</p>
@@ -219,6 +308,14 @@ export default function UploadData({ onApplyToDashboard }: UploadDataProps) {
                 {result.kpis.riskAdjRevenue != null ? `$${(result.kpis.riskAdjRevenue / 1e6).toFixed(1)}M` : '—'}
               </p>
             </div>
+            <div>
+              <span className="text-slate-500">Admits / 1,000</span>
+              <p className="font-semibold">{result.utilization.totals.admits_per_1000 ?? '—'}</p>
+            </div>
+            <div>
+              <span className="text-slate-500">IBNR{result.ibnr.as_of ? ` (as of ${result.ibnr.as_of})` : ''}</span>
+              <p className="font-semibold">{result.ibnr.totals ? `$${(result.ibnr.totals.ibnr / 1e6).toFixed(2)}M` : '—'}</p>
+            </div>
           </div>
           <button
             type="button"
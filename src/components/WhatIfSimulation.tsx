@@ -1,6 +1,7 @@
 import { useEffect, useState } from 'react';
-import { runSimulation } from '../api';
-import type { SimulationResult } from '../api';
+import { ComposedChart, LineChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ReferenceLine, ResponsiveContainer } from 'recharts';
+import { runSimulation, postFinanceProjection, postReviewOptimizer } from '../api';
+import type { SimulationResult, FinanceProjection, ProjectionAssumptions, ReviewOptimizerResult } from '../api';
 
 export default function WhatIfSimulation() {
   const [riskThreshold, setRiskThreshold] = useState(0.7);
@@ -138,6 +139,12 @@ export default function WhatIfSimulation() {
                 <p className="text-xs font-medium text-slate-500">Total Projected Cost</p>
                 <p className="text-xl font-bold text-slate-900">${result.total_projected_cost.toLocaleString()}</p>
               </div>
+              {result.total_premium != null && (
+                <div>
+                  <p className="text-xs font-medium text-slate-500">Total Premium (rated)</p>
+                  <p className="text-xl font-bold text-slate-900">${result.total_premium.toLocaleString()}</p>
+                </div>
+              )}
               {result.total_risk_revenue != null && (
                 <div>
                   <p className="text-xs font-medium text-slate-500">Total Risk Adj. Revenue</p>
@@ -162,6 +169,318 @@ export default function WhatIfSimulation() {
           )}
         </div>
       </div>
+
+      <ProjectionPanel closeSuspectPct={closeSuspectPct} />
+      <ReviewOptimizerPanel />
+    </div>
+  );
+}
+
+// Rate assumptions edited as percentages; years as a count
+const PROJECTION_INPUTS: { key: keyof ProjectionAssumptions; label: string }[] = [
+  { key: 'membership_growth', label: 'Membership growth' },
+  { key: 'cost_trend', label: 'Cost trend' },
+  { key: 'premium_trend', label: 'Premium trend' },
+  { key: 'raf_drift', label: 'RAF drift' },
+  { key: 'recapture_rate', label: 'Recapture rate' },
+  { key: 'discount_rate', label: 'Discount rate' },
+];
+
+function ProjectionPanel({ closeSuspectPct }: { closeSuspectPct: number }) {
+  const [years, setYears] = useState(5);
+  const [rates, setRates] = useState<Record<string, number>>({
+    membership_growth: 3,
+    cost_trend: 6,
+    premium_trend: 5,
+    raf_drift: -1,
+    recapture_rate: 80,
+    discount_rate: 8,
+  });
+  const [result, setResult] = useState<FinanceProjection | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setError(null);
+    const body: ProjectionAssumptions = { years, close_suspect_pct: closeSuspectPct };
+    PROJECTION_INPUTS.forEach(({ key }) => {
+      body[key] = rates[key] / 100;
+    });
+    postFinanceProjection(body)
+      .then(setResult)
+      .catch((e) => setError(e.message));
+  }, [years, rates, closeSuspectPct]);
+
+  const fmtM = (v: number) => `$${(v / 1e6).toFixed(2)}M`;
+  const finalMLR = result?.years[result.years.length - 1]?.mlr_with_gaps;
+  return (
+    <div className="bg-white rounded-lg border border-slate-200 p-6 shadow-sm space-y-4">
+      <div>
+        <h3 className="text-sm font-semibold text-slate-700">Multi-Year Projection</h3>
+        <p className="text-xs text-slate-500">
+          Closes {closeSuspectPct}% of suspect HCCs in year 1 (slider above); closed gaps decay by the recapture rate each year. NPV discounts gap revenue at year end.
+        </p>
+      </div>
+      <div className="flex flex-wrap items-end gap-3 text-sm">
+        <label className="text-xs text-slate-500">
+          Years
+          <select
+            value={years}
+            onChange={(e) => setYears(Number(e.target.value))}
+            className="block border border-slate-300 rounded px-2 py-1 text-sm"
+          >
+            {[3, 4, 5].map((y) => (
+              <option key={y} value={y}>{y}</option>
+            ))}
+          </select>
+        </label>
+        {PROJECTION_INPUTS.map(({ key, label }) => (
+          <label key={key} className="text-xs text-slate-500">
+            {label} (%)
+            <input
+              type="number"
+              step={0.5}
+              value={rates[key]}
+              onChange={(e) => setRates((r) => ({ ...r, [key]: Number(e.target.value) || 0 }))}
+              className="block border border-slate-300 rounded px-2 py-1 w-24 text-sm"
+            />
+          </label>
+        ))}
+        {error && <span className="text-sm text-red-600">{error}</span>}
+      </div>
+      {result && (
+        <>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+            <div>
+              <p className="text-xs font-medium text-slate-500">Gap Revenue ({result.years.length} yrs)</p>
+              <p className="text-xl font-bold text-[#14b8a6]">{fmtM(result.totals.gap_revenue)}</p>
+            </div>
+            <div>
+              <p className="text-xs font-medium text-slate-500">NPV of Closing Gaps</p>
+              <p className="text-xl font-bold text-[#14b8a6]">{fmtM(result.totals.npv_gap_revenue)}</p>
+            </div>
+            <div>
+              <p className="text-xs font-medium text-slate-500">Claims ({result.years.length} yrs)</p>
+              <p className="text-xl font-bold text-slate-900">{fmtM(result.totals.claims_cost)}</p>
+            </div>
+            <div>
+              <p className="text-xs font-medium text-slate-500">Final-Year MLR (with gaps)</p>
+              <p className="text-xl font-bold text-[#e91e8c]">
+                {finalMLR != null ? `${(finalMLR * 100).toFixed(1)}%` : '—'}
+              </p>
+            </div>
+          </div>
+          <div className="h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={result.years}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                <XAxis dataKey="year" fontSize={11} />
+                <YAxis yAxisId="rev" fontSize={11} tickFormatter={(v) => `$${(v / 1e6).toFixed(0)}M`} />
+                <YAxis yAxisId="mlr" orientation="right" fontSize={11} tickFormatter={(v) => `${(v * 100).toFixed(0)}%`} />
+                <Tooltip
+                  formatter={(v: number, name: string) => [name.includes('MLR') ? `${(v * 100).toFixed(1)}%` : fmtM(v), name]}
+                />
+                <Legend wrapperStyle={{ fontSize: 11 }} />
+                <Bar yAxisId="rev" dataKey="claims_cost" name="Claims" fill="#cbd5e1" />
+                <Bar yAxisId="rev" dataKey="gap_revenue" name="Gap revenue" fill="#14b8a6" />
+                <Line yAxisId="mlr" type="monotone" dataKey="mlr_baseline" name="MLR (baseline)" stroke="#94a3b8" strokeWidth={2} />
+                <Line yAxisId="mlr" type="monotone" dataKey="mlr_with_gaps" name="MLR (with gaps)" stroke="#e91e8c" strokeWidth={2} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-xs">
+              <thead className="bg-slate-50">
+                <tr>
+                  {['Year', 'Members', 'Premium', 'Risk revenue', 'Gap revenue', 'Claims', 'MLR', 'Δ bps', 'PV gap revenue'].map((h) => (
+                    <th key={h} className={`px-3 py-2 font-medium text-slate-600 ${h === 'Year' ? 'text-left' : 'text-right'}`}>{h}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {result.years.map((y) => (
+                  <tr key={y.year}>
+                    <td className="px-3 py-1.5">{y.year}</td>
+                    <td className="px-3 py-1.5 text-right">{y.members.toLocaleString()}</td>
+                    <td className="px-3 py-1.5 text-right">{fmtM(y.premium)}</td>
+                    <td className="px-3 py-1.5 text-right">{fmtM(y.risk_revenue)}</td>
+                    <td className="px-3 py-1.5 text-right text-[#0d9488]">{fmtM(y.gap_revenue)}</td>
+                    <td className="px-3 py-1.5 text-right">{fmtM(y.claims_cost)}</td>
+                    <td className="px-3 py-1.5 text-right">{y.mlr_with_gaps != null ? `${(y.mlr_with_gaps * 100).toFixed(1)}%` : '—'}</td>
+                    <td className="px-3 py-1.5 text-right">{y.mlr_improvement_bps ?? '—'}</td>
+                    <td className="px-3 py-1.5 text-right">{fmtM(y.pv_gap_revenue)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+const CONFIRMATION_HCCS = [
+  { hcc: 'HCC_18', label: 'Diabetes' },
+  { hcc: 'HCC_85', label: 'CHF' },
+  { hcc: 'HCC_96', label: 'COPD' },
+  { hcc: 'HCC_108', label: 'CKD' },
+  { hcc: 'HCC_19', label: 'Hypertension' },
+];
+
+function ReviewOptimizerPanel() {
+  const [budget, setBudget] = useState(50000);
+  const [costPerChart, setCostPerChart] = useState(150);
+  // Blank = use each suspect's confidence
+  const [rates, setRates] = useState<Record<string, string>>({});
+  const [result, setResult] = useState<ReviewOptimizerResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+
+  const run = () => {
+    setError(null);
+    setRunning(true);
+    const confirmation_rates: Record<string, number> = {};
+    Object.entries(rates).forEach(([hcc, v]) => {
+      if (v.trim() !== '') confirmation_rates[hcc] = Number(v) / 100;
+    });
+    postReviewOptimizer({ budget, cost_per_chart: costPerChart, confirmation_rates, limit: 25 })
+      .then(setResult)
+      .catch((e) => setError(e.message))
+      .finally(() => setRunning(false));
+  };
+
+  useEffect(run, []);
+
+  const fmtK = (v: number) => (Math.abs(v) >= 1e6 ? `$${(v / 1e6).toFixed(2)}M` : `$${(v / 1e3).toFixed(1)}K`);
+  return (
+    <div className="bg-white rounded-lg border border-slate-200 p-6 shadow-sm space-y-4">
+      <div>
+        <h3 className="text-sm font-semibold text-slate-700">Chart Review Optimizer</h3>
+        <p className="text-xs text-slate-500">
+          Funds the chart reviews with the highest expected net revenue (confirmation rate × uplift − review cost) until the budget runs out. Leave a rate blank to use each suspect&apos;s confidence.
+        </p>
+      </div>
+      <div className="flex flex-wrap items-end gap-3 text-sm">
+        <label className="text-xs text-slate-500">
+          Budget ($)
+          <input
+            type="number"
+            min={0}
+            step={5000}
+            value={budget}
+            onChange={(e) => setBudget(Number(e.target.value) || 0)}
+            className="block border border-slate-300 rounded px-2 py-1 w-28 text-sm"
+          />
+        </label>
+        <label className="text-xs text-slate-500">
+          Cost per chart ($)
+          <input
+            type="number"
+            min={1}
+            value={costPerChart}
+            onChange={(e) => setCostPerChart(Number(e.target.value) || 0)}
+            className="block border border-slate-300 rounded px-2 py-1 w-24 text-sm"
+          />
+        </label>
+        {CONFIRMATION_HCCS.map(({ hcc, label }) => (
+          <label key={hcc} className="text-xs text-slate-500">
+            {label} confirm (%)
+            <input
+              type="number"
+              min={0}
+              max={100}
+              placeholder="conf."
+              value={rates[hcc] ?? ''}
+              onChange={(e) => setRates((r) => ({ ...r, [hcc]: e.target.value }))}
+              className="block border border-slate-300 rounded px-2 py-1 w-24 text-sm"
+            />
+          </label>
+        ))}
+        <button
+          onClick={run}
+          disabled={running}
+          className="px-3 py-1.5 rounded bg-[#e91e8c] text-white text-sm font-medium hover:bg-[#c41a77] disabled:opacity-50"
+        >
+          {running ? 'Optimizing…' : 'Optimize'}
+        </button>
+        {error && <span className="text-sm text-red-600">{error}</span>}
+      </div>
+      {result && (
+        <>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+            <div>
+              <p className="text-xs font-medium text-slate-500">Charts Funded</p>
+              <p className="text-xl font-bold text-slate-900">
+                {result.summary.charts_selected.toLocaleString()}
+                <span className="text-sm font-normal text-slate-500"> of {result.summary.members_worth_reviewing.toLocaleString()} worth reviewing</span>
+              </p>
+            </div>
+            <div>
+              <p className="text-xs font-medium text-slate-500">Spend</p>
+              <p className="text-xl font-bold text-slate-900">{fmtK(result.summary.spend)}</p>
+            </div>
+            <div>
+              <p className="text-xs font-medium text-slate-500">Expected Revenue Captured</p>
+              <p className="text-xl font-bold text-[#14b8a6]">{fmtK(result.summary.expected_revenue)}</p>
+            </div>
+            <div>
+              <p className="text-xs font-medium text-slate-500">ROI</p>
+              <p className="text-xl font-bold text-[#e91e8c]">{result.summary.roi != null ? `${result.summary.roi.toFixed(1)}×` : '—'}</p>
+            </div>
+          </div>
+          <div>
+            <p className="text-xs font-medium text-slate-500 mb-1">Efficient frontier: spend vs. expected revenue captured</p>
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={result.frontier}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                  <XAxis dataKey="spend" type="number" fontSize={11} tickFormatter={fmtK} />
+                  <YAxis fontSize={11} tickFormatter={fmtK} />
+                  <Tooltip
+                    labelFormatter={(v: number) => `Spend ${fmtK(v)}`}
+                    formatter={(v: number, name: string) => [fmtK(v), name]}
+                  />
+                  <ReferenceLine x={result.summary.spend} stroke="#e91e8c" strokeDasharray="4 4" label={{ value: 'Budget', fontSize: 10, fill: '#e91e8c' }} />
+                  <Line type="monotone" dataKey="expected_revenue" name="Expected revenue" stroke="#14b8a6" strokeWidth={2} dot={false} />
+                  <Line type="monotone" dataKey="expected_net" name="Expected net" stroke="#94a3b8" strokeWidth={2} dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-xs">
+              <thead className="bg-slate-50">
+                <tr>
+                  {['#', 'Member', 'Plan', 'State', 'Suspects', 'Expected revenue', 'Net', 'Cumulative spend', 'Cumulative revenue', 'Cumulative ROI'].map((h, i) => (
+                    <th key={h} className={`px-3 py-2 font-medium text-slate-600 ${i < 5 ? 'text-left' : 'text-right'}`}>{h}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {result.members.map((m) => (
+                  <tr key={m.member_id}>
+                    <td className="px-3 py-1.5">{m.rank}</td>
+                    <td className="px-3 py-1.5 font-mono">{m.member_id}</td>
+                    <td className="px-3 py-1.5">{m.plan_type}</td>
+                    <td className="px-3 py-1.5">{m.state}</td>
+                    <td className="px-3 py-1.5" title={m.suspects.map((h) => `${h.condition}: ${(h.confirmation_rate * 100).toFixed(0)}% × $${h.revenue_uplift.toLocaleString()}`).join('\n')}>
+                      {m.suspects.map((h) => h.condition).join(', ')}
+                    </td>
+                    <td className="px-3 py-1.5 text-right">${m.expected_revenue.toLocaleString()}</td>
+                    <td className="px-3 py-1.5 text-right text-[#0d9488]">${m.expected_net.toLocaleString()}</td>
+                    <td className="px-3 py-1.5 text-right">${m.cumulative_spend.toLocaleString()}</td>
+                    <td className="px-3 py-1.5 text-right">{fmtK(m.cumulative_expected_revenue)}</td>
+                    <td className="px-3 py-1.5 text-right">{m.cumulative_roi.toFixed(1)}×</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {result.summary.charts_selected > result.members.length && (
+              <p className="text-xs text-slate-500 mt-1">Top {result.members.length} of {result.summary.charts_selected.toLocaleString()} funded reviews shown.</p>
+            )}
+          </div>
+        </>
+      )}
     </div>
   );
 }